@@ -3,18 +3,55 @@ import { BrowserRouter, Routes, Route, useNavigate, useLocation, useSearchParams
 import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import SettingsModal from './components/SettingsModal';
-import VideoCard, { RecommendationRow } from './components/VideoCard';
+import PlaylistDialog from './components/PlaylistDialog';
+import PlaylistGrid from './components/PlaylistGrid';
+import LoginScreen from './components/LoginScreen';
+import VideoCard, { RecommendationRow, ContinueWatchingRow } from './components/VideoCard';
 import VideoPlayer from './components/VideoPlayer';
-import { XIcon, PlaylistPlusIcon, SortIcon, ChevronDownIcon } from './components/Icons';
+import SeriesPage from './components/SeriesPage';
+import ChannelHeader from './components/ChannelHeader';
+import FilterBar, { FACET_KEYS } from './components/FilterBar';
+import { XIcon, PlaylistPlusIcon, SortIcon, ChevronDownIcon, ShuffleIcon, FilterIcon } from './components/Icons';
 import { processFiles } from './services/fileService';
 import { getMockData } from './services/mockData';
-import { VideoFile, FolderStructure, ViewState, Playlist, SortOption } from './types';
+import { VideoFile, FolderStructure, ViewState, Playlist, SmartPlaylistRules, SortOption, ScanJob, User, AuthStatus, Series, Channel, Library, FacetFilters, LanguagePreferences } from './types';
 import { VirtuosoGrid } from 'react-virtuoso';
 
-const AppContent = () => {
+// Maps a video row from the API (lists, discovery, series, continue watching, a single video) to a VideoFile
+const parseSubtitles = (subtitles: unknown) => {
+    if (Array.isArray(subtitles)) return subtitles;
+    try {
+        if (subtitles && typeof subtitles === 'string') return JSON.parse(subtitles);
+    } catch (e) { }
+    return [];
+};
+
+const toVideoFile = (v: any): VideoFile => ({
+    ...v,
+    url: v.path,
+    subtitles: parseSubtitles(v.subtitles),
+    isFavorite: Boolean(v.is_favorite),
+    isWatched: Boolean(v.is_watched),
+    channelAvatar: v.channel_avatar,
+    releaseDate: v.release_date,
+    youtubeId: v.youtube_id,
+    seriesId: v.series_id,
+    seasonNumber: v.season_number,
+    episodeNumber: v.episode_number,
+    sourceViewCount: v.source_view_count,
+    sourceLikeCount: v.source_like_count,
+    playbackPosition: v.playback_position
+});
+
+interface AppContentProps {
+    currentUser: User;
+    onLogout: () => void;
+}
+
+const AppContent: React.FC<AppContentProps> = ({ currentUser, onLogout }) => {
     const navigate = useNavigate();
     const location = useLocation();
-    const [searchParams] = useSearchParams();
+    const [searchParams, setSearchParams] = useSearchParams();
     const [viewState, setViewState] = useState<ViewState>(ViewState.HOME);
     const [allVideos, setAllVideos] = useState<VideoFile[]>([]);
     const [folderStructure, setFolderStructure] = useState<FolderStructure>({});
@@ -23,7 +60,9 @@ const AppContent = () => {
     const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
     const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
     const [isSidebarOpen, setIsSidebarOpen] = useState(window.innerWidth > 768);
-    const [isScanning, setIsScanning] = useState(false);
+    const [scanJob, setScanJob] = useState<ScanJob | null>(null);
+    const isScanning = scanJob?.status === 'running';
+    const prevScanStatusRef = useRef<string | null>(null);
     const [sortOption, setSortOption] = useState<SortOption>(() => {
         const savedSort = localStorage.getItem('play21_sortOrder');
         // Verify the saved string is still a valid SortOption enum before applying it
@@ -32,17 +71,54 @@ const AppContent = () => {
         }
         return SortOption.AIR_DATE_NEWEST; // Fallback default
     });
+    const [unwatchedOnly, setUnwatchedOnly] = useState(() => localStorage.getItem('play21_unwatchedOnly') === 'true');
+    const [libraries, setLibraries] = useState<Library[]>([]);
+    const [selectedLibrary, setSelectedLibrary] = useState<string | null>(() => localStorage.getItem('play21_library') || null); // Null shows every library
+    // Search results have their own sort, so relevance never leaks into normal browsing
+    const [searchSort, setSearchSort] = useState<SortOption>(SortOption.RELEVANCE);
+    // Sent with the Random sort so every page comes from the same shuffle. Picking Random again reshuffles.
+    const [shuffleSeed, setShuffleSeed] = useState(() => Math.floor(Math.random() * 1e9));
     const [isSortMenuOpen, setIsSortMenuOpen] = useState(false);
-    const [pagination, setPagination] = useState({ page: 1, hasMore: true, isLoading: false });
+    const [isFilterBarOpen, setIsFilterBarOpen] = useState(false);
+    const [listQuery, setListQuery] = useState(''); // Filters of the list on screen, for the facet counts
+    const [pagination, setPagination] = useState<{ cursor: string | null; hasMore: boolean; isLoading: boolean }>({ cursor: null, hasMore: true, isLoading: false });
     const [totalCount, setTotalCount] = useState(0);
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [playlistDialog, setPlaylistDialog] = useState<{ playlist: Playlist | null } | null>(null); // Null playlist creates one
+    const [playlistQueue, setPlaylistQueue] = useState<VideoFile[] | null>(null); // Set by "Play all" and "Shuffle"
     const [appSettings, setAppSettings] = useState({ hideHiddenFiles: true });
+    const [languagePreferences, setLanguagePreferences] = useState<LanguagePreferences>({ audio: null, subtitles: null });
     const [currentSubFolders, setCurrentSubFolders] = useState<string[]>([]);
     const [isFoldersExpanded, setIsFoldersExpanded] = useState(false);
     const abortControllerRef = useRef<AbortController | null>(null);
+    const listUrlRef = useRef<string | null>(null); // The list on screen, without a cursor
+
+    // Facet filters live in the URL (?tag=Comedy&year=2020), so a filtered view can be bookmarked
+    const facetFilters = useMemo(() => {
+        const filters: FacetFilters = {};
+        for (const key of FACET_KEYS) {
+            const values = searchParams.getAll(key);
+            if (values.length > 0) filters[key] = values;
+        }
+        return filters;
+    }, [searchParams]);
+    const facetFilterKey = JSON.stringify(facetFilters);
+    const activeFilterCount = FACET_KEYS.reduce((n, key) => n + (facetFilters[key]?.length || 0), 0);
     const virtuosoRef = useRef<any>(null);
 
     const [recommendedVideos, setRecommendedVideos] = useState<VideoFile[]>([]);
+    const [continueWatching, setContinueWatching] = useState<VideoFile[]>([]);
+
+    // Series view, plus the episode order of the show that is playing right now
+    const [selectedSeriesId, setSelectedSeriesId] = useState<string | null>(null);
+    const [seriesList, setSeriesList] = useState<Series[]>([]);
+    const [selectedSeries, setSelectedSeries] = useState<Series | null>(null);
+    const [isSeriesLoading, setIsSeriesLoading] = useState(false);
+    const [seriesEpisodes, setSeriesEpisodes] = useState<VideoFile[]>([]);
+
+    // Channel page: the grid below comes from /api/channels/:name, the header from the same response
+    const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
+    const [channelInfo, setChannelInfo] = useState<Channel | null>(null);
 
     const [mainScrollRef, setMainScrollRef] = useState<HTMLElement | null>(null);
 
@@ -68,15 +144,7 @@ const AppContent = () => {
 
                 // FIX: Added the 'if' check back so the closing bracket '}' below matches something
                 if (data.success) {
-                    const mapped = data.videos.map((v: any) => ({
-                        ...v,
-                        url: v.path,
-                        subtitles: v.subtitles ? JSON.parse(v.subtitles) : [],
-                        isFavorite: Boolean(v.is_favorite),
-                        channelAvatar: v.channel_avatar,
-                        releaseDate: v.release_date,
-                        youtubeId: v.youtube_id
-                    }));
+                    const mapped = data.videos.map(toVideoFile);
                     setRecommendedVideos(mapped);
                 }
             } catch (e) {
@@ -86,11 +154,28 @@ const AppContent = () => {
         fetchDiscovery();
     }, [appSettings.hideHiddenFiles]);
 
+    // --- CONTINUE WATCHING (reloaded on every visit home, positions change while watching) ---
+    useEffect(() => {
+        if (viewState !== ViewState.HOME) return;
+        fetch('/api/continue-watching')
+            .then(res => res.json())
+            .then(data => { if (data.videos) setContinueWatching(data.videos.map(toVideoFile)); })
+            .catch(e => console.error("Continue watching fetch failed", e));
+    }, [viewState]);
+
     // --- PERSIST SORT ORDER ---
     useEffect(() => {
         localStorage.setItem('play21_sortOrder', sortOption);
     }, [sortOption]);
 
+    useEffect(() => {
+        localStorage.setItem('play21_unwatchedOnly', String(unwatchedOnly));
+    }, [unwatchedOnly]);
+
+    useEffect(() => {
+        localStorage.setItem('play21_library', selectedLibrary || '');
+    }, [selectedLibrary]);
+
     // Features State
     const [history, setHistory] = useState<string[]>([]);
     const [playlists, setPlaylists] = useState<Playlist[]>([]);
@@ -99,78 +184,90 @@ const AppContent = () => {
     // DATABASE CONNECTION CODE
     // ----------------------------------------------------------------
 
-    // NEW: Added searchTerm argument (defaults to empty string)
-    const fetchVideos = async (page = 1, folder: string | null = null, reset = false, search = '', favoritesOnly = false, historyOnly = false, playlistId: string | null = null) => {
-        // Prevent duplicate loads (only if not resetting)
-        if (!reset && (pagination.isLoading || !pagination.hasMore)) return;
-
-        // CRITICAL FIX: Cancel any previous pending request
-        if (reset && abortControllerRef.current) {
+    // Starts a fresh list for the current view. Later pages come from loadMoreVideos.
+    const fetchVideos = async (folder: string | null = null, search = '', favoritesOnly = false, historyOnly = false, playlistId: string | null = null) => {
+        // CRITICAL FIX: Cancel any previous pending request (pages of the old list included)
+        if (abortControllerRef.current) {
             abortControllerRef.current.abort();
         }
 
-        // Create a new controller for this specific request
+        // Create a new controller for this specific list
         const controller = new AbortController();
-        if (reset) abortControllerRef.current = controller;
+        abortControllerRef.current = controller;
+
+        const channel = viewState === ViewState.CHANNEL ? selectedChannel : null;
+        const params = new URLSearchParams();
+        params.set('limit', '50');
+        const activeSort = search ? searchSort : sortOption;
+        params.set('sort', activeSort);
+        if (activeSort === SortOption.RANDOM) params.set('seed', shuffleSeed.toString());
+        params.set('hideHidden', appSettings.hideHiddenFiles.toString());
+
+        if (folder) params.set('folder', folder);
+        if (search) params.set('search', search);
+        if (favoritesOnly) params.set('favorites', 'true');
+        if (historyOnly) params.set('history', 'true');
+        if (playlistId) params.set('playlist', playlistId);
+        if (unwatchedOnly) params.set('unwatched', 'true');
+        if (selectedLibrary) params.set('library', selectedLibrary);
+        for (const key of FACET_KEYS) facetFilters[key]?.forEach(value => params.append(key, value));
+
+        listUrlRef.current = `${channel ? `/api/channels/${encodeURIComponent(channel)}` : '/api/videos'}?${params}`;
+        setPagination({ cursor: null, hasMore: true, isLoading: false });
+
+        // The total comes from its own request so paging never has to count
+        if (channel) params.set('channel', channel);
+        setListQuery(params.toString());
+        fetch(`/api/videos/count?${params}`, { signal: controller.signal })
+            .then(res => res.json())
+            .then(data => setTotalCount(data.total ?? 0))
+            .catch(() => { });
+
+        await fetchVideoPage(null);
+    };
+
+    // Next page of the list on screen. The cursor picks up right after the last video,
+    // so scans adding or removing videos in the meantime don't shift what comes next.
+    const loadMoreVideos = () => {
+        if (pagination.isLoading || !pagination.hasMore || !pagination.cursor) return;
+        fetchVideoPage(pagination.cursor);
+    };
+
+    const fetchVideoPage = async (cursor: string | null) => {
+        const listUrl = listUrlRef.current;
+        const controller = abortControllerRef.current;
+        if (!listUrl || !controller) return;
 
         setPagination(prev => ({ ...prev, isLoading: true }));
 
         try {
-            const url = new URL('/api/videos', window.location.origin);
-            url.searchParams.set('page', page.toString());
-            url.searchParams.set('limit', '50');
-            url.searchParams.set('sort', sortOption);
-            url.searchParams.set('hideHidden', appSettings.hideHiddenFiles.toString());
-
-            if (folder) url.searchParams.set('folder', folder);
-            if (search) url.searchParams.set('search', search);
-            if (favoritesOnly) url.searchParams.set('favorites', 'true');
-            if (historyOnly) url.searchParams.set('history', 'true');
-            if (playlistId) url.searchParams.set('playlist', playlistId);
+            const url = new URL(listUrl, window.location.origin);
+            if (cursor) url.searchParams.set('cursor', cursor);
 
             // Pass the "signal" to fetch so we can cancel it
             const response = await fetch(url.toString(), { signal: controller.signal });
             const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            if (!cursor && url.pathname.startsWith('/api/channels/')) setChannelInfo(data.channel || null);
 
-            const newVideos = data.videos.map((v: any) => {
-                let parsedSubtitles = [];
-                try {
-                    if (v.subtitles && typeof v.subtitles === 'string') parsedSubtitles = JSON.parse(v.subtitles);
-                } catch (e) { }
-
-                return {
-                    ...v,
-                    url: v.path,
-                    subtitles: parsedSubtitles,
-                    isFavorite: Boolean(v.is_favorite),
-                    channelAvatar: v.channel_avatar,
-                    releaseDate: v.release_date,
-                    youtubeId: v.youtube_id
-                };
-            });
+            const newVideos = data.videos.map(toVideoFile);
 
-            if (reset) {
+            if (!cursor) {
                 setAllVideos(newVideos);
-                setTotalCount(data.pagination.total);
-                setPagination({
-                    page: 2,
-                    hasMore: data.pagination.totalPages > 1,
-                    isLoading: false
-                });
             } else {
+                // A video whose sort key changed since the last page (just watched, say) can come round again
                 setAllVideos(prev => {
                     const existingIds = new Set(prev.map(v => v.id));
                     const uniqueNewVideos = newVideos.filter((v: any) => !existingIds.has(v.id));
                     return [...prev, ...uniqueNewVideos];
                 });
-
-                setPagination(prev => ({
-                    ...prev,
-                    page: prev.page + 1,
-                    hasMore: page < data.pagination.totalPages,
-                    isLoading: false
-                }));
             }
+
+            setPagination({
+                cursor: data.nextCursor,
+                hasMore: Boolean(data.nextCursor),
+                isLoading: false
+            });
         } catch (error: any) {
             // Ignore errors caused by us cancelling the request
             if (error.name === 'AbortError') return;
@@ -193,14 +290,25 @@ const AppContent = () => {
 
         // 3. Refetch videos to apply change immediately
         if (key === 'hideHiddenFiles') {
-            fetchVideos(1, selectedFolder, true, searchTerm);
+            fetchVideos(selectedFolder, searchTerm);
         }
     };
 
-    // Trigger the fetch when the app first loads
+    // Picked in the player, remembered for the next video (and on other devices)
+    const handleLanguagePreferenceChange = (kind: keyof LanguagePreferences, language: string | null) => {
+        setLanguagePreferences(prev => ({ ...prev, [kind]: language }));
+        fetch('/api/settings', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ key: kind === 'audio' ? 'audioLanguage' : 'subtitleLanguage', value: language || '' })
+        }).catch(e => console.error("Failed to save language preference", e));
+    };
+
+    // Trigger the fetch when the app first loads (the whole app remounts when the user changes)
     useEffect(() => {
-        fetchVideos(1, null, true);
+        fetchVideos(null);
         fetchFolderList();
+        fetchLibraries();
 
         // NEW: This function talks to your database to get your saved data
         const loadPersistedData = async () => {
@@ -221,6 +329,7 @@ const AppContent = () => {
                 if (setData.hideHiddenFiles !== undefined) {
                     setAppSettings(prev => ({ ...prev, hideHiddenFiles: setData.hideHiddenFiles === 'true' }));
                 }
+                setLanguagePreferences({ audio: setData.audioLanguage || null, subtitles: setData.subtitleLanguage || null });
             } catch (e) {
                 console.error("Failed to load persistence layer", e);
             }
@@ -238,13 +347,39 @@ const AppContent = () => {
 
     useEffect(() => {
         // When the user changes the sort, clear the list and start from page 1
-        fetchVideos(1, selectedFolder, true);
+        fetchVideos(selectedFolder);
     }, [sortOption]);
 
+    useEffect(() => {
+        if (!searchTerm) return;
+        const currentPlaylistId = viewState === ViewState.PLAYLIST ? selectedPlaylistId : null;
+        fetchVideos(selectedFolder, searchTerm, viewState === ViewState.FAVORITES, viewState === ViewState.HISTORY, currentPlaylistId);
+    }, [searchSort]);
+
+    const refetchCurrentView = () => {
+        const currentPlaylistId = viewState === ViewState.PLAYLIST ? selectedPlaylistId : null;
+        fetchVideos(selectedFolder, searchTerm, viewState === ViewState.FAVORITES, viewState === ViewState.HISTORY, currentPlaylistId);
+    };
+
+    useEffect(() => {
+        refetchCurrentView();
+    }, [unwatchedOnly, shuffleSeed, facetFilterKey]);
+
+    // Keeps the rest of the URL (the folder, a video's start time) as it is
+    const handleFacetFiltersChange = (filters: FacetFilters) => {
+        const next = new URLSearchParams(searchParams);
+        for (const key of FACET_KEYS) {
+            next.delete(key);
+            filters[key]?.forEach(value => next.append(key, value));
+        }
+        setSearchParams(next);
+    };
+
     const fetchFolderList = async (parent: string | null = null) => {
         try {
             const url = new URL('/api/folders', window.location.origin);
             if (parent) url.searchParams.set('parent', parent);
+            if (selectedLibrary) url.searchParams.set('library', selectedLibrary);
 
             const res = await fetch(url.toString());
             const data = await res.json();
@@ -273,15 +408,38 @@ const AppContent = () => {
     };
 
 
+    const fetchLibraries = async () => {
+        try {
+            const res = await fetch('/api/libraries');
+            const data = await res.json();
+            const list: Library[] = data.libraries || [];
+            setLibraries(list);
+            // The saved library may have been removed in the meantime
+            setSelectedLibrary(prev => (prev && !list.some(l => l.id === prev) ? null : prev));
+        } catch (e) {
+            console.error("Failed to load libraries", e);
+        }
+    };
+
+    // Switching libraries starts over at the top level of the new one
+    useEffect(() => {
+        fetchFolderList();
+        if (selectedFolder) navigate('/');
+        else refetchCurrentView();
+    }, [selectedLibrary]);
+
     // 1. INSTANT NAVIGATION (No Delay)
     // Runs immediately when you click Sidebar items (Folder, Favorites, History, Playlists)
     useEffect(() => {
+        // The series page loads its own data
+        if (viewState === ViewState.SERIES) return;
+
         const isFavorites = viewState === ViewState.FAVORITES;
         const isHistory = viewState === ViewState.HISTORY;
         const currentPlaylistId = viewState === ViewState.PLAYLIST ? selectedPlaylistId : null;
 
         // Fetch immediately
-        fetchVideos(1, selectedFolder, true, searchTerm, isFavorites, isHistory, currentPlaylistId);
+        fetchVideos(selectedFolder, searchTerm, isFavorites, isHistory, currentPlaylistId);
 
         if (selectedFolder && !isFavorites && !isHistory && !currentPlaylistId) {
             fetchFolderList(selectedFolder);
@@ -289,7 +447,7 @@ const AppContent = () => {
             setCurrentSubFolders([]);
         }
         // Note: We removed 'searchTerm' from this dependency array
-    }, [selectedFolder, viewState, selectedPlaylistId]);
+    }, [selectedFolder, viewState, selectedPlaylistId, selectedChannel]);
 
 
     // 2. DEBOUNCED SEARCH (300ms Delay)
@@ -299,14 +457,73 @@ const AppContent = () => {
         const isHistory = viewState === ViewState.HISTORY;
         const currentPlaylistId = viewState === ViewState.PLAYLIST ? selectedPlaylistId : null;
 
+        // A new search starts out ranked by relevance again
+        if (!searchTerm) setSearchSort(SortOption.RELEVANCE);
+
         const timeoutId = setTimeout(() => {
             // Only fetch if search term changed (optimization handled by React's dep array)
-            fetchVideos(1, selectedFolder, true, searchTerm, isFavorites, isHistory, currentPlaylistId);
+            fetchVideos(selectedFolder, searchTerm, isFavorites, isHistory, currentPlaylistId);
         }, 300);
 
         return () => clearTimeout(timeoutId);
     }, [searchTerm]); // Only runs on search change
 
+    // 3. SERIES PAGE
+    useEffect(() => {
+        if (viewState !== ViewState.SERIES) return;
+        let cancelled = false;
+        setIsSeriesLoading(true);
+
+        const load = async () => {
+            try {
+                if (selectedSeriesId) {
+                    const res = await fetch(`/api/series/${encodeURIComponent(selectedSeriesId)}`);
+                    const data = await res.json();
+                    if (cancelled) return;
+                    if (data.error) {
+                        navigate('/series');
+                        return;
+                    }
+                    setSelectedSeries({
+                        ...data,
+                        seasons: data.seasons.map((s: any) => ({ ...s, episodes: s.episodes.map(toVideoFile) }))
+                    });
+                } else {
+                    const res = await fetch('/api/series');
+                    const data = await res.json();
+                    if (cancelled) return;
+                    setSelectedSeries(null);
+                    if (data.series) setSeriesList(data.series);
+                }
+            } catch (e) {
+                console.error("Failed to load series", e);
+            } finally {
+                if (!cancelled) setIsSeriesLoading(false);
+            }
+        };
+
+        load();
+        return () => { cancelled = true; };
+    }, [viewState, selectedSeriesId]);
+
+    // 4. EPISODE ORDER
+    // Episodes play in series order, whatever list (and sort) they were started from
+    useEffect(() => {
+        const seriesId = currentVideo?.seriesId;
+        if (!seriesId) {
+            setSeriesEpisodes([]);
+            return;
+        }
+        if (seriesEpisodes.some(v => v.id === currentVideo.id)) return;
+
+        fetch(`/api/series/${encodeURIComponent(seriesId)}`)
+            .then(res => res.json())
+            .then(data => {
+                if (data.seasons) setSeriesEpisodes(data.seasons.flatMap((s: any) => s.episodes.map(toVideoFile)));
+            })
+            .catch(e => console.error("Failed to load episode order", e));
+    }, [currentVideo?.id, currentVideo?.seriesId]);
+
     // --- ROUTER SYNC LOGIC (FIXED) ---
     useEffect(() => {
         const path = location.pathname;
@@ -332,12 +549,7 @@ const AppContent = () => {
                         if (data.error) {
                             navigate('/');
                         } else {
-                            const videoData = {
-                                ...data,
-                                url: data.path,
-                                subtitles: typeof data.subtitles === 'string' ? JSON.parse(data.subtitles) : [],
-                                youtubeId: data.youtube_id
-                            };
+                            const videoData = toVideoFile(data);
                             setCurrentVideo(videoData);
                             setViewState(ViewState.WATCH);
                             setIsSidebarOpen(false);
@@ -382,7 +594,23 @@ const AppContent = () => {
             setSelectedPlaylistId(null); // <--- FIX: Clear Playlist ID
         }
 
-        // 6. HOME / FOLDER PAGE
+        // 6. SERIES (all shows, or one show by ID)
+        else if (path === '/series' || path.startsWith('/series/')) {
+            setSelectedSeriesId(path.split('/')[2] ? decodeURIComponent(path.split('/')[2]) : null);
+            setViewState(ViewState.SERIES);
+            setCurrentVideo(null);
+            setSelectedPlaylistId(null);
+        }
+
+        // 7. CHANNEL
+        else if (path.startsWith('/channel/')) {
+            setSelectedChannel(decodeURIComponent(path.split('/')[2] || ''));
+            setViewState(ViewState.CHANNEL);
+            setCurrentVideo(null);
+            setSelectedPlaylistId(null);
+        }
+
+        // 8. HOME / FOLDER PAGE
         else {
             setViewState(ViewState.HOME);
             setCurrentVideo(null);
@@ -393,28 +621,54 @@ const AppContent = () => {
         }
     }, [location.pathname, searchParams, allVideos, playlists, recommendedVideos]);
 
+    // --- LIVE SCAN PROGRESS (Server-Sent Events) ---
+    useEffect(() => {
+        const events = new EventSource('/api/scan/events');
+        events.onmessage = (e) => {
+            try {
+                setScanJob(JSON.parse(e.data));
+            } catch (err) {
+                console.error("Bad scan event", err);
+            }
+        };
+        // EventSource reconnects on its own, nothing to do on error
+        return () => events.close();
+    }, []);
+
+    // When a scan finishes, reload the current view so new/removed videos show up
+    useEffect(() => {
+        const status = scanJob?.status || null;
+        if (prevScanStatusRef.current === 'running' && status !== 'running') {
+            const isFavorites = viewState === ViewState.FAVORITES;
+            const isHistory = viewState === ViewState.HISTORY;
+            const currentPlaylistId = viewState === ViewState.PLAYLIST ? selectedPlaylistId : null;
+            if (viewState !== ViewState.WATCH) {
+                fetchVideos(selectedFolder, searchTerm, isFavorites, isHistory, currentPlaylistId);
+            }
+            fetchFolderList();
+            fetchLibraries();
+        }
+        prevScanStatusRef.current = status;
+    }, [scanJob?.status]);
+
     const handleScanLibrary = async (type: 'quick' | 'full' = 'quick') => {
-        setIsScanning(true);
         try {
             const res = await fetch('/api/scan', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ type })
             });
+            const data = await res.json();
 
-            // Handle the "Already Scanning" case gracefully
+            // Handle the "Already Scanning" case gracefully: we just show the running job
             if (res.status === 409) {
                 console.log("Scan already running in background");
-                // Optional: You could add an alert() here if you really want the user to know
             }
 
-            // Refresh the view regardless
-            await fetchVideos(1, selectedFolder, true);
+            // The SSE stream will keep this up to date from here on
+            if (data.job) setScanJob(data.job);
         } catch (e) {
             console.error("Scan failed", e);
-        } finally {
-            // Keep spinning for at least 500ms so the user feels the click registered
-            setTimeout(() => setIsScanning(false), 500);
         }
     };
 
@@ -500,7 +754,8 @@ const AppContent = () => {
         }
     };
 
-    const handleVideoSelect = (video: VideoFile) => {
+    // startTime (seconds) is passed on to the player through ?t=
+    const handleVideoSelect = (video: VideoFile, startTime?: number) => {
         // 1. Update History Database
         setHistory(prev => {
             const newHistory = prev.filter(id => id !== video.id);
@@ -514,23 +769,40 @@ const AppContent = () => {
         });
 
         // 2. Navigate to the Watch URL
-        navigate(`/watch/${video.id}`);
+        navigate(`/watch/${video.id}${startTime !== undefined ? `?t=${Math.floor(startTime)}` : ''}`);
+    };
+
+    const handleChannelSelect = (channel: string) => {
+        setSearchTerm('');
+        navigate(`/channel/${encodeURIComponent(channel)}`);
     };
 
     const handleTagSelect = (tag: string) => {
-        setSearchTerm(tag);       // 1. Set the search bar
+        setSearchTerm(`tag:"${tag}"`); // 1. Set the search bar (as a tag filter)
         setViewState(ViewState.HOME); // 2. Switch to Home View
         setCurrentVideo(null);    // 3. Close the player
         navigate('/');            // 4. Clear any video IDs from URL
     };
 
+    // Leaving the playlist for another page ends "Play all"
+    useEffect(() => {
+        if (viewState !== ViewState.WATCH && viewState !== ViewState.PLAYLIST) setPlaylistQueue(null);
+    }, [viewState]);
+
+    // A played playlist goes in its own order, episodes through their show, everything else through the list on screen
+    const playbackQueue = useMemo(() => {
+        if (playlistQueue && currentVideo && playlistQueue.some(v => v.id === currentVideo.id)) return playlistQueue;
+        if (currentVideo?.seriesId && seriesEpisodes.some(v => v.id === currentVideo.id)) return seriesEpisodes;
+        return displayedVideos;
+    }, [currentVideo, seriesEpisodes, displayedVideos, playlistQueue]);
+
     const handleNextVideo = () => {
         if (!currentVideo) return;
 
-        // Look in displayed videos first
-        const currentIndex = displayedVideos.findIndex(v => v.id === currentVideo.id);
-        if (currentIndex !== -1 && currentIndex < displayedVideos.length - 1) {
-            handleVideoSelect(displayedVideos[currentIndex + 1]);
+        // Look in the playback queue first
+        const currentIndex = playbackQueue.findIndex(v => v.id === currentVideo.id);
+        if (currentIndex !== -1 && currentIndex < playbackQueue.length - 1) {
+            handleVideoSelect(playbackQueue[currentIndex + 1]);
             return;
         }
 
@@ -542,23 +814,23 @@ const AppContent = () => {
 
     const handlePrevVideo = () => {
         if (!currentVideo) return;
-        const currentIndex = displayedVideos.findIndex(v => v.id === currentVideo.id);
+        const currentIndex = playbackQueue.findIndex(v => v.id === currentVideo.id);
         if (currentIndex > 0) {
-            handleVideoSelect(displayedVideos[currentIndex - 1]);
+            handleVideoSelect(playbackQueue[currentIndex - 1]);
         }
     };
 
     const hasNext = useMemo(() => {
         if (!currentVideo) return false;
-        const currentIndex = displayedVideos.findIndex(v => v.id === currentVideo.id);
-        return currentIndex !== -1 && currentIndex < displayedVideos.length - 1;
-    }, [currentVideo, displayedVideos]);
+        const currentIndex = playbackQueue.findIndex(v => v.id === currentVideo.id);
+        return currentIndex !== -1 && currentIndex < playbackQueue.length - 1;
+    }, [currentVideo, playbackQueue]);
 
     const hasPrev = useMemo(() => {
         if (!currentVideo) return false;
-        const currentIndex = displayedVideos.findIndex(v => v.id === currentVideo.id);
+        const currentIndex = playbackQueue.findIndex(v => v.id === currentVideo.id);
         return currentIndex > 0;
-    }, [currentVideo, displayedVideos]);
+    }, [currentVideo, playbackQueue]);
 
 
     const handleUpdateVideo = (updated: VideoFile) => {
@@ -566,29 +838,48 @@ const AppContent = () => {
         setCurrentVideo(updated);
     };
 
-    const handleCreatePlaylist = async () => {
-        const name = window.prompt("Enter Playlist Name:");
-        if (name) {
-            const res = await fetch('/api/playlists', {
-                method: 'POST',
+    const handleCreatePlaylist = () => setPlaylistDialog({ playlist: null });
+
+    // Resolves to the server's error message, if any. The dialog stays open (rules and all) until it saves.
+    const handleSavePlaylist = async (name: string, rules: SmartPlaylistRules | null): Promise<string | null> => {
+        const editing = playlistDialog?.playlist;
+
+        if (editing) {
+            const res = await fetch(`/api/playlists/${editing.id}`, {
+                method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ name })
+                body: JSON.stringify({ name, rules: rules || undefined })
             });
             const data = await res.json();
+            if (!res.ok || !data.success) return data.error || "Failed to save playlist";
 
-            if (data.success) {
-                const newPlaylist = data.playlist;
+            setPlaylistDialog(null);
+            setPlaylists(prev => prev.map(p => p.id === editing.id ? { ...p, name: data.name, rules: data.rules || p.rules } : p));
+            // New rules mean a different list
+            if (viewState === ViewState.PLAYLIST && selectedPlaylistId === editing.id) refetchCurrentView();
+            return null;
+        }
 
-                // NEW: If we are currently in WATCH mode, add this video to the new playlist automatically
-                if (viewState === ViewState.WATCH && currentVideo) {
-                    await handleAddToPlaylist(currentVideo.id, newPlaylist.id);
-                    // Update the local object so the checkmark appears immediately
-                    newPlaylist.videoIds = [currentVideo.id];
-                }
+        const res = await fetch('/api/playlists', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, rules })
+        });
+        const data = await res.json();
+        if (!res.ok || !data.success) return data.error || "Failed to create playlist";
 
-                setPlaylists([...playlists, newPlaylist]);
-            }
+        setPlaylistDialog(null);
+        const newPlaylist = data.playlist;
+
+        // NEW: If we are currently in WATCH mode, add this video to the new playlist automatically
+        if (viewState === ViewState.WATCH && currentVideo && !newPlaylist.rules) {
+            await handleAddToPlaylist(currentVideo.id, newPlaylist.id);
+            // Update the local object so the checkmark appears immediately
+            newPlaylist.videoIds = [currentVideo.id];
         }
+
+        setPlaylists([...playlists, newPlaylist]);
+        return null;
     };
 
     const handleAddToPlaylist = async (videoId: string, playlistId: string) => {
@@ -608,7 +899,69 @@ const AppContent = () => {
         }));
     };
 
+    // Loads the whole playlist (not just the page on screen) and starts it from the top
+    const handlePlayPlaylist = async (shuffle: boolean) => {
+        if (!selectedPlaylistId) return;
+        try {
+            const url = new URL('/api/videos', window.location.origin);
+            url.searchParams.set('playlist', selectedPlaylistId);
+            url.searchParams.set('limit', '1000');
+            url.searchParams.set('hideHidden', appSettings.hideHiddenFiles.toString());
+            const res = await fetch(url.toString());
+            const data = await res.json();
+            const queue: VideoFile[] = (data.videos || []).map(toVideoFile);
+            if (queue.length === 0) return;
+
+            if (shuffle) {
+                for (let i = queue.length - 1; i > 0; i--) {
+                    const j = Math.floor(Math.random() * (i + 1));
+                    [queue[i], queue[j]] = [queue[j], queue[i]];
+                }
+            }
+            setPlaylistQueue(queue);
+            handleVideoSelect(queue[0]);
+        } catch (e) {
+            console.error("Failed to load playlist", e);
+        }
+    };
+
+    // Drag and drop in a playlist view. Moves the card right away, then tells the server.
+    const handleMovePlaylistItem = async (videoId: string, position: number) => {
+        if (!selectedPlaylistId) return;
+        setAllVideos(prev => {
+            const moving = prev.find(v => v.id === videoId);
+            if (!moving) return prev;
+            const rest = prev.filter(v => v.id !== videoId);
+            rest.splice(position, 0, moving);
+            return rest;
+        });
+
+        try {
+            const res = await fetch(`/api/playlists/${selectedPlaylistId}/reorder`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ videoId, position })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setPlaylists(prev => prev.map(p => p.id === selectedPlaylistId ? { ...p, videoIds: data.videoIds } : p));
+            } else {
+                refetchCurrentView();
+            }
+        } catch (e) {
+            console.error("Failed to reorder playlist", e);
+            refetchCurrentView();
+        }
+    };
+
     const handleRenamePlaylist = async (id: string, currentName: string) => {
+        // Smart playlists edit their name and rules together
+        const smart = playlists.find(p => p.id === id && p.rules);
+        if (smart) {
+            setPlaylistDialog({ playlist: smart });
+            return;
+        }
+
         const newName = window.prompt("Enter new playlist name:", currentName);
         
         if (newName && newName.trim() !== '' && newName !== currentName) {
@@ -631,6 +984,32 @@ const AppContent = () => {
         }
     };
 
+    // Matches the file's entries to library videos and opens the new playlist
+    const handleImportPlaylist = async (content: string, fileName: string) => {
+        try {
+            const res = await fetch('/api/playlists/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ content })
+            });
+            const data = await res.json();
+            if (!data.success) {
+                window.alert(data.error || `Could not import ${fileName}`);
+                return;
+            }
+
+            setPlaylists(prev => [...prev, data.playlist]);
+            if (data.unmatched.length > 0) {
+                const missing = data.unmatched.slice(0, 10).join('\n');
+                const more = data.unmatched.length > 10 ? `\n...and ${data.unmatched.length - 10} more` : '';
+                window.alert(`Imported ${data.matched} videos into "${data.playlist.name}". ${data.unmatched.length} entries didn't match anything in the library:\n\n${missing}${more}`);
+            }
+            navigate(`/playlist/${data.playlist.id}`);
+        } catch (e) {
+            console.error("Import error", e);
+        }
+    };
+
     const handleDeletePlaylist = async (id: string, name: string) => {
         if (window.confirm(`Are you sure you want to delete the playlist "${name}"?`)) {
             try {
@@ -651,6 +1030,38 @@ const AppContent = () => {
         }
     };
 
+    // The folder, channel or playlist on screen, for "mark all as watched"
+    const watchedScope = viewState === ViewState.CHANNEL && selectedChannel ? { channel: selectedChannel }
+        : viewState === ViewState.PLAYLIST && selectedPlaylistId ? { playlist: selectedPlaylistId }
+            : viewState === ViewState.HOME && selectedFolder ? { folder: selectedFolder }
+                : null;
+
+    const handleMarkAllWatched = async () => {
+        if (!watchedScope) return;
+        const what = 'channel' in watchedScope ? 'channel' : 'playlist' in watchedScope ? 'playlist' : 'folder';
+        if (!window.confirm(`Mark every video in this ${what} as watched?`)) return;
+        try {
+            await fetch('/api/watched', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...watchedScope, watched: true })
+            });
+            refetchCurrentView();
+        } catch (e) {
+            console.error("Failed to mark as watched", e);
+        }
+    };
+
+    const handleRemoveFromContinueWatching = async (video: VideoFile) => {
+        setContinueWatching(prev => prev.filter(v => v.id !== video.id));
+        setAllVideos(prev => prev.map(v => v.id === video.id ? { ...v, playbackPosition: 0 } : v));
+        try {
+            await fetch(`/api/continue-watching/${video.id}`, { method: 'DELETE' });
+        } catch (e) {
+            console.error("Failed to remove from continue watching", e);
+        }
+    };
+
     const handleToggleWatchLater = async (videoId: string) => {
         // 1. Try to find the playlist
         let watchLater = playlists.find(p => p.name === 'Watch Later');
@@ -706,17 +1117,17 @@ const AppContent = () => {
     }, [currentVideo, allVideos]);
 
     const nextQueue = useMemo(() => {
-        if (!currentVideo || displayedVideos.length === 0) return [];
+        if (!currentVideo || playbackQueue.length === 0) return [];
 
-        const currentIndex = displayedVideos.findIndex(v => v.id === currentVideo.id);
+        const currentIndex = playbackQueue.findIndex(v => v.id === currentVideo.id);
 
         // If we found the current video, grab the NEXT 5 videos from the list
-        if (currentIndex !== -1 && currentIndex < displayedVideos.length - 1) {
-            return displayedVideos.slice(currentIndex + 1, currentIndex + 6);
+        if (currentIndex !== -1 && currentIndex < playbackQueue.length - 1) {
+            return playbackQueue.slice(currentIndex + 1, currentIndex + 6);
         }
 
         return [];
-    }, [currentVideo, displayedVideos]);
+    }, [currentVideo, playbackQueue]);
 
     // --- SIDEBAR WRAPPERS ---
     // Removed duplicate handleSidebarViewChange
@@ -727,6 +1138,8 @@ const AppContent = () => {
         } else if (newView === ViewState.HISTORY) {
             // FIX: Navigate to specific URL so the router doesn't reset us to Home
             navigate('/history');
+        } else if (newView === ViewState.SERIES) {
+            navigate('/series');
         } else {
             setViewState(newView);
             navigate('/');
@@ -761,6 +1174,9 @@ const AppContent = () => {
                 toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
                 goHome={handleGoHome}
                 isScanning={isScanning}
+                scanJob={scanJob}
+                currentUser={currentUser}
+                onLogout={onLogout}
             />
 
             <div className="pt-16 h-full flex relative">
@@ -768,15 +1184,19 @@ const AppContent = () => {
                     isOpen={isSidebarOpen}
                     folders={folderStructure}
                     playlists={playlists}
+                    libraries={libraries}
+                    selectedLibrary={selectedLibrary}
                     viewState={viewState}
                     selectedFolder={selectedFolder}
                     selectedPlaylistId={selectedPlaylistId}
                     onSelectFolder={handleSidebarFolderSelect}
+                    onSelectLibrary={setSelectedLibrary}
                     onSelectView={handleSidebarViewChange}
                     onSelectPlaylist={handleSidebarPlaylistSelect}
                     onCreatePlaylist={handleCreatePlaylist}
                     onRenamePlaylist={handleRenamePlaylist}
                     onDeletePlaylist={handleDeletePlaylist}
+                    onImportPlaylist={handleImportPlaylist}
                     onOpenSettings={() => setIsSettingsOpen(true)}
                     onClose={() => setIsSidebarOpen(false)}
                 />
@@ -786,6 +1206,16 @@ const AppContent = () => {
                     onClose={() => setIsSettingsOpen(false)}
                     settings={appSettings}
                     onToggleSetting={handleToggleSetting}
+                    currentUser={currentUser}
+                    libraries={libraries}
+                    onLibrariesChange={fetchLibraries}
+                />
+
+                <PlaylistDialog
+                    isOpen={playlistDialog !== null}
+                    playlist={playlistDialog?.playlist || null}
+                    onClose={() => setPlaylistDialog(null)}
+                    onSave={handleSavePlaylist}
                 />
 
 
@@ -796,7 +1226,7 @@ const AppContent = () => {
                 >
 
                     {/* Only show welcome if empty AND not loading AND we are at the root (not searching/in folder) */}
-                    {allVideos.length === 0 && !pagination.isLoading && !searchTerm && !selectedFolder && (
+                    {allVideos.length === 0 && !pagination.isLoading && !searchTerm && !selectedFolder && !unwatchedOnly && activeFilterCount === 0 && viewState !== ViewState.SERIES && (
                         <div className="flex flex-col items-center justify-center h-full text-center px-6 animate-fade-in-up">
                             <div className="w-32 h-32 bg-gradient-to-tr from-brand-accent/20 to-brand-primary/20 rounded-full flex items-center justify-center mb-8 shadow-[0_0_40px_rgba(59,130,246,0.15)] ring-1 ring-white/10">
                                 <svg className="w-16 h-16 text-brand-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
@@ -813,14 +1243,29 @@ const AppContent = () => {
 
 
 
-                    {viewState !== ViewState.WATCH && allVideos.length > 0 && (
+                    {viewState === ViewState.SERIES && (
+                        <SeriesPage
+                            seriesList={seriesList}
+                            series={selectedSeries && selectedSeries.id === selectedSeriesId ? selectedSeries : null}
+                            isLoading={isSeriesLoading}
+                            watchLaterIds={playlists.find(p => p.name === 'Watch Later')?.videoIds || []}
+                            onSelectSeries={(id) => navigate(id ? `/series/${encodeURIComponent(id)}` : '/series')}
+                            onVideoSelect={handleVideoSelect}
+                            onToggleWatchLater={handleToggleWatchLater}
+                        />
+                    )}
+
+                    {viewState !== ViewState.WATCH && viewState !== ViewState.SERIES && (allVideos.length > 0 || unwatchedOnly || activeFilterCount > 0) && (
                         <div className="p-6 md:p-8 animate-fade-in min-h-full">
+                            {viewState === ViewState.CHANNEL && channelInfo && <ChannelHeader channel={channelInfo} />}
+
                             <div className="mb-6 flex flex-wrap items-center justify-between gap-4 border-b border-white/5 pb-4">
                                 <div className="flex items-baseline gap-3">
                                     <h2 className="text-2xl font-bold text-white capitalize">
                                         {viewState === ViewState.HOME ? (selectedFolder || 'All Videos') :
                                             viewState === ViewState.PLAYLIST ? playlists.find(p => p.id === selectedPlaylistId)?.name :
-                                                viewState.toLowerCase()}
+                                                viewState === ViewState.CHANNEL ? 'Videos' :
+                                                    viewState.toLowerCase()}
                                     </h2>
                                     <span className="text-sm text-glass-subtext">{totalCount} videos</span>
 
@@ -842,13 +1287,56 @@ const AppContent = () => {
                                         )}
                                 </div>
 
+                                <div className="flex items-center gap-2">
+                                {viewState === ViewState.PLAYLIST && totalCount > 0 && (
+                                    <>
+                                        <button
+                                            onClick={() => handlePlayPlaylist(false)}
+                                            className="px-4 py-2 rounded-lg bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/80 transition-colors"
+                                        >
+                                            Play all
+                                        </button>
+                                        <button
+                                            onClick={() => handlePlayPlaylist(true)}
+                                            className="glass-button flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-glass-text hover:text-white transition-colors"
+                                        >
+                                            <ShuffleIcon />
+                                            <span>Shuffle</span>
+                                        </button>
+                                    </>
+                                )}
+                                {watchedScope && (
+                                    <button
+                                        onClick={handleMarkAllWatched}
+                                        className="glass-button px-4 py-2 rounded-lg text-sm font-medium text-glass-text hover:text-white transition-colors"
+                                    >
+                                        Mark all watched
+                                    </button>
+                                )}
+
+                                <button
+                                    onClick={() => setIsFilterBarOpen(!isFilterBarOpen)}
+                                    className={`flex items-center gap-2 glass-button px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeFilterCount > 0 ? 'text-brand-primary bg-brand-primary/10 border-brand-primary/30' : 'text-glass-text hover:text-white'}`}
+                                >
+                                    <FilterIcon />
+                                    <span>Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}</span>
+                                </button>
+
+                                <button
+                                    onClick={() => setUnwatchedOnly(!unwatchedOnly)}
+                                    className={`glass-button px-4 py-2 rounded-lg text-sm font-medium transition-colors ${unwatchedOnly ? 'text-brand-primary bg-brand-primary/10 border-brand-primary/30' : 'text-glass-text hover:text-white'}`}
+                                    title="Only show videos you haven't watched"
+                                >
+                                    Unwatched
+                                </button>
+
                                 <div className="relative">
                                     <button
                                         onClick={() => setIsSortMenuOpen(!isSortMenuOpen)}
                                         className="flex items-center gap-2 glass-button px-4 py-2 rounded-lg text-sm font-medium text-glass-text hover:text-white transition-colors"
                                     >
                                         <SortIcon />
-                                        <span>{sortOption}</span>
+                                        <span>{searchTerm ? searchSort : sortOption}</span>
                                         <ChevronDownIcon />
                                     </button>
 
@@ -856,11 +1344,15 @@ const AppContent = () => {
                                         <div className="absolute right-0 top-full mt-2 w-56 glass-panel rounded-xl shadow-xl py-2 z-50 flex flex-col max-h-80 overflow-y-auto">
                                             <div onClick={() => setIsSortMenuOpen(false)} className="fixed inset-0 z-40 bg-transparent" />
                                             <div className="relative z-50">
-                                                {Object.values(SortOption).map(option => (
+                                                {Object.values(SortOption).filter(option => searchTerm || option !== SortOption.RELEVANCE).map(option => (
                                                     <button
                                                         key={option}
-                                                        onClick={() => { setSortOption(option); setIsSortMenuOpen(false); }}
-                                                        className={`w-full text-left px-4 py-2.5 text-sm hover:bg-white/10 transition-colors ${sortOption === option ? 'text-brand-primary font-bold bg-brand-primary/10' : 'text-glass-text'}`}
+                                                        onClick={() => {
+                                                            if (option === SortOption.RANDOM) setShuffleSeed(Math.floor(Math.random() * 1e9));
+                                                            (searchTerm ? setSearchSort : setSortOption)(option);
+                                                            setIsSortMenuOpen(false);
+                                                        }}
+                                                        className={`w-full text-left px-4 py-2.5 text-sm hover:bg-white/10 transition-colors ${(searchTerm ? searchSort : sortOption) === option ? 'text-brand-primary font-bold bg-brand-primary/10' : 'text-glass-text'}`}
                                                     >
                                                         {option}
                                                     </button>
@@ -869,8 +1361,18 @@ const AppContent = () => {
                                         </div>
                                     )}
                                 </div>
+                                </div>
                             </div>
 
+                            {isFilterBarOpen && listQuery && (
+                                <FilterBar
+                                    query={listQuery}
+                                    filters={facetFilters}
+                                    hiddenFacets={viewState === ViewState.CHANNEL ? ['channel'] : []}
+                                    onChange={handleFacetFiltersChange}
+                                />
+                            )}
+
                             {/* --- NAVIGATION HEADER (Go Up Button) --- */}
                             {canGoUp && (
                                 <button
@@ -957,9 +1459,40 @@ const AppContent = () => {
                                 </div>
                             )}
 
+                            {unwatchedOnly && activeFilterCount === 0 && displayedVideos.length === 0 && !pagination.isLoading && (
+                                <p className="text-sm text-glass-subtext">You've watched everything here.</p>
+                            )}
+                            {activeFilterCount > 0 && displayedVideos.length === 0 && !pagination.isLoading && (
+                                <p className="text-sm text-glass-subtext">No videos match these filters.</p>
+                            )}
+
+                            {/* --- PLAYLIST: every card in playlist order, draggable unless filtered --- */}
+                            {viewState === ViewState.PLAYLIST && displayedVideos.length > 0 && (
+                                <PlaylistGrid
+                                    videos={displayedVideos}
+                                    hasMore={pagination.hasMore}
+                                    isLoading={pagination.isLoading}
+                                    watchLaterIds={playlists.find(p => p.name === 'Watch Later')?.videoIds || []}
+                                    onLoadMore={loadMoreVideos}
+                                    onVideoSelect={(video) => handleVideoSelect(video)}
+                                    onToggleWatchLater={handleToggleWatchLater}
+                                    onChannelClick={handleChannelSelect}
+                                    onMove={playlists.find(p => p.id === selectedPlaylistId)?.rules || unwatchedOnly || searchTerm || activeFilterCount > 0 ? undefined : handleMovePlaylistItem}
+                                />
+                            )}
+
                             {/* --- SPLIT GRID WITH RECOMMENDED ROW --- */}
-                            {displayedVideos.length > 0 && (
+                            {viewState !== ViewState.PLAYLIST && displayedVideos.length > 0 && (
                                 <div className="pb-20">
+                                    {/* Partly watched videos, above everything else on the home page */}
+                                    {continueWatching.length > 0 && viewState === ViewState.HOME && !selectedFolder && !searchTerm && (
+                                        <ContinueWatchingRow
+                                            videos={continueWatching}
+                                            onVideoSelect={handleVideoSelect}
+                                            onRemove={handleRemoveFromContinueWatching}
+                                        />
+                                    )}
+
                                     {/* Static Row 1 & 2 (Changed to 3 cols to match bottom) */}
                                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-y-10 gap-x-6 mb-10 pr-4">
                                         {displayedVideos.slice(0, 6).map(video => {
@@ -974,6 +1507,8 @@ const AppContent = () => {
                                                     isInWatchLater={isInWatchLater}
                                                     onToggleWatchLater={() => handleToggleWatchLater(video.id)}
                                                     onClick={() => handleVideoSelect(video)}
+                                                    onPlayAt={(seconds) => handleVideoSelect(video, seconds)}
+                                                    onChannelClick={() => video.channel && handleChannelSelect(video.channel)}
                                                 />
                                             );
                                         })}
@@ -995,11 +1530,7 @@ const AppContent = () => {
                                                 data={displayedVideos.slice(6)}
                                                 components={virtuosoComponents}
                                                 customScrollParent={mainScrollRef}
-                                                endReached={() => {
-                                                    if (pagination.hasMore && !pagination.isLoading) {
-                                                        fetchVideos(pagination.page, selectedFolder, false, searchTerm);
-                                                    }
-                                                }}
+                                                endReached={loadMoreVideos}
                                                 itemContent={(index, video) => {
                                                     // Check if this video is in the Watch Later playlist
                                                     const watchLaterList = playlists.find(p => p.name === 'Watch Later');
@@ -1012,6 +1543,8 @@ const AppContent = () => {
                                                             isInWatchLater={isInWatchLater}
                                                             onToggleWatchLater={() => handleToggleWatchLater(video.id)}
                                                             onClick={() => handleVideoSelect(video)}
+                                                            onPlayAt={(seconds) => handleVideoSelect(video, seconds)}
+                                                            onChannelClick={() => video.channel && handleChannelSelect(video.channel)}
                                                         />
                                                     );
                                                 }}
@@ -1039,6 +1572,11 @@ const AppContent = () => {
                             onPrevVideo={handlePrevVideo}
                             onCreatePlaylist={handleCreatePlaylist}
                             onTagSelect={handleTagSelect}
+                            onChannelSelect={handleChannelSelect}
+                            canEdit={currentUser.role === 'admin'}
+                            languagePreferences={languagePreferences}
+                            onLanguagePreferenceChange={handleLanguagePreferenceChange}
+                            startTime={searchParams.get('t') ? Number(searchParams.get('t')) : undefined}
                         />
                     )}
                 </main>
@@ -1047,6 +1585,38 @@ const AppContent = () => {
     );
 };
 
+// Nothing but the login screen until the server knows who we are
+const AuthGate = () => {
+    const navigate = useNavigate();
+    const [auth, setAuth] = useState<AuthStatus | null>(null);
+
+    useEffect(() => {
+        fetch('/api/auth/status')
+            .then(res => res.json())
+            .then(setAuth)
+            .catch(e => console.error("Failed to check login", e));
+    }, []);
+
+    const handleLogout = async () => {
+        try {
+            await fetch('/api/auth/logout', { method: 'POST' });
+        } catch (e) {
+            console.error("Logout failed", e);
+        }
+        setAuth({ user: null, setupRequired: false });
+        navigate('/');
+    };
+
+    if (!auth) return null;
+
+    if (!auth.user) {
+        return <LoginScreen setupRequired={auth.setupRequired} onLogin={(user) => setAuth({ user, setupRequired: false })} />;
+    }
+
+    // Keyed by user so nothing from the previous account survives a switch
+    return <AppContent key={auth.user.id} currentUser={auth.user} onLogout={handleLogout} />;
+};
+
 const App = () => {
     return (
         <BrowserRouter>
@@ -1055,7 +1625,7 @@ const App = () => {
                 * { -webkit-tap-highlight-color: transparent; }
                 *:focus { outline: none !important; }
             `}</style>
-            <AppContent />
+            <AuthGate />
         </BrowserRouter>
     );
 };
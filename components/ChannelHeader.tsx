@@ -0,0 +1,54 @@
+import React from 'react';
+import { Channel } from '../types';
+
+interface ChannelHeaderProps {
+    channel: Channel;
+}
+
+// "12h 5m" for a whole channel, "45m" for a short one
+const formatTotalDuration = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const ChannelHeader: React.FC<ChannelHeaderProps> = ({ channel }) => {
+    const latest = channel.latestUpload
+        ? new Date(channel.latestUpload).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+        : null;
+
+    return (
+        <div className="mb-8 animate-fade-in">
+            <div className="relative h-32 md:h-48 rounded-2xl overflow-hidden border border-white/5 bg-gradient-to-br from-brand-primary/20 via-white/[0.02] to-brand-accent/20">
+                {channel.banner && (
+                    <img src={channel.banner} alt="" className="absolute inset-0 w-full h-full object-cover" />
+                )}
+                <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
+            </div>
+
+            <div className="flex items-end gap-5 px-4 md:px-6 -mt-10 relative z-10">
+                {channel.avatar ? (
+                    <img
+                        src={channel.avatar}
+                        alt={channel.name}
+                        className="w-20 h-20 md:w-24 md:h-24 rounded-full object-cover shadow-2xl ring-4 ring-black bg-white/10 flex-shrink-0"
+                    />
+                ) : (
+                    <div className="w-20 h-20 md:w-24 md:h-24 rounded-full bg-gradient-to-tr from-brand-primary to-brand-accent shadow-2xl ring-4 ring-black flex items-center justify-center text-3xl font-bold text-white flex-shrink-0">
+                        {channel.name.charAt(0).toUpperCase()}
+                    </div>
+                )}
+                <div className="min-w-0 pb-1">
+                    <h2 className="text-2xl md:text-3xl font-bold text-white truncate">{channel.name}</h2>
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 text-sm text-glass-subtext">
+                        <span>{channel.videoCount} {channel.videoCount === 1 ? 'video' : 'videos'}</span>
+                        <span>{formatTotalDuration(channel.totalDuration)} total</span>
+                        {latest && <span>Latest upload {latest}</span>}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ChannelHeader;
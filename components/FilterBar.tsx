@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { FacetFilters, FacetKey, Facets } from '../types';
+
+interface FilterBarProps {
+    query: string; // Query string of the list on screen, facet filters included
+    filters: FacetFilters;
+    hiddenFacets?: FacetKey[]; // e.g. the channel on a channel page
+    onChange: (filters: FacetFilters) => void;
+}
+
+// Mirrors FACETS on the server
+export const FACET_KEYS: FacetKey[] = ['channel', 'tag', 'year', 'duration', 'resolution', 'codec', 'subtitles', 'watched'];
+
+const FACET_LABELS: Record<FacetKey, string> = {
+    channel: 'Channel',
+    tag: 'Tags',
+    year: 'Year',
+    duration: 'Duration',
+    resolution: 'Resolution',
+    codec: 'Codec',
+    subtitles: 'Subtitles',
+    watched: 'Watched'
+};
+
+// Bucket values come from the server as IDs
+const VALUE_LABELS: Partial<Record<FacetKey, Record<string, string>>> = {
+    duration: { short: 'Under 4 min', medium: '4–20 min', long: '20–60 min', feature: 'Over 1 hour' },
+    resolution: { '2160p': '4K', '1440p': '1440p', '1080p': '1080p', '720p': '720p', sd: 'SD' },
+    codec: { h264: 'H.264', hevc: 'HEVC', vp9: 'VP9', av1: 'AV1', mpeg4: 'MPEG-4', mpeg2video: 'MPEG-2' },
+    subtitles: { yes: 'Has subtitles', no: 'No subtitles' },
+    watched: { unwatched: 'Unwatched', inProgress: 'In progress', watched: 'Watched' }
+};
+
+const FilterBar: React.FC<FilterBarProps> = ({ query, filters, hiddenFacets = [], onChange }) => {
+    const [facets, setFacets] = useState<Facets | null>(null);
+
+    // Counts follow the list: every filter change or new view asks again
+    useEffect(() => {
+        const controller = new AbortController();
+        fetch(`/api/facets?${query}`, { signal: controller.signal })
+            .then(res => res.json())
+            .then(data => { if (data.facets) setFacets(data.facets); })
+            .catch(e => { if (e.name !== 'AbortError') console.error("Failed to load filters", e); });
+        return () => controller.abort();
+    }, [query]);
+
+    const activeCount = FACET_KEYS.reduce((n, key) => n + (filters[key]?.length || 0), 0);
+
+    const toggle = (key: FacetKey, value: string) => {
+        const current = filters[key] || [];
+        const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+        onChange({ ...filters, [key]: next });
+    };
+
+    if (!facets) {
+        return <div className="mb-6 glass-panel rounded-xl p-4 text-sm text-glass-subtext">Loading filters...</div>;
+    }
+
+    return (
+        <div className="mb-6 glass-panel rounded-xl p-4 space-y-3 animate-fade-in">
+            {FACET_KEYS.filter(key => !hiddenFacets.includes(key)).map(key => {
+                const selected = filters[key] || [];
+                // Picked values stay visible (and removable) even once nothing matches them
+                const values = [
+                    ...facets[key],
+                    ...selected.filter(value => !facets[key].some(f => f.value === value)).map(value => ({ value, count: 0 }))
+                ];
+                if (values.length === 0) return null;
+
+                return (
+                    <div key={key} className="flex gap-3">
+                        <span className="w-24 flex-shrink-0 pt-1 text-[10px] font-bold uppercase tracking-wider text-glass-subtext">{FACET_LABELS[key]}</span>
+                        <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+                            {values.map(({ value, count }) => {
+                                const isSelected = selected.includes(value);
+                                return (
+                                    <button
+                                        key={value}
+                                        onClick={() => toggle(key, value)}
+                                        className={`px-2.5 py-1 rounded-md text-xs font-medium border transition-colors ${isSelected ? 'text-brand-primary bg-brand-primary/10 border-brand-primary/30' : 'text-glass-text border-white/10 hover:text-white hover:bg-white/10'}`}
+                                    >
+                                        {VALUE_LABELS[key]?.[value] || value}
+                                        <span className="ml-1.5 text-glass-subtext">{count}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+
+            {activeCount > 0 && (
+                <div className="flex justify-end border-t border-white/5 pt-3">
+                    <button
+                        onClick={() => onChange({})}
+                        className="text-xs font-bold text-brand-accent hover:text-white transition-colors"
+                    >
+                        Clear filters
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FilterBar;
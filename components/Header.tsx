@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MenuIcon, SearchIcon, ScanIcon, ArrowLeftIcon, XIcon, ChevronDownIcon } from './Icons';
+import { ScanJob, User } from '../types';
 
 interface HeaderProps {
   onTriggerScan: (type?: 'quick' | 'full') => void; // UPDATED Signature
@@ -8,20 +9,61 @@ interface HeaderProps {
   toggleSidebar: () => void;
   goHome: () => void;
   isScanning?: boolean;
+  scanJob?: ScanJob | null;
+  currentUser?: User | null;
+  onLogout?: () => void;
 }
 
+const AVATAR_COLORS = ['from-blue-500 to-cyan-400', 'from-purple-500 to-pink-400', 'from-emerald-500 to-teal-400', 'from-orange-500 to-amber-400', 'from-rose-500 to-red-400'];
+
+// Same name, same color on every device
+const getAvatarColor = (name: string) => {
+  const hash = Array.from(name).reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+};
+
+const PHASE_LABELS: Record<string, string> = {
+  insert: 'Finding files',
+  deep: 'Reading metadata',
+  janitor: 'Cleaning up'
+};
+
 const Header: React.FC<HeaderProps> = ({
   onTriggerScan,
   searchTerm,
   onSearchChange,
   toggleSidebar,
   goHome,
-  isScanning = false
+  isScanning = false,
+  scanJob = null,
+  currentUser = null,
+  onLogout
 }) => {
   const [isMobileSearchOpen, setIsMobileSearchOpen] = useState(false);
   const [isScanMenuOpen, setIsScanMenuOpen] = useState(false); // NEW STATE
+  const [isScanDetailsOpen, setIsScanDetailsOpen] = useState(false);
+  const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const [finishedJob, setFinishedJob] = useState<ScanJob | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const progress = scanJob && scanJob.total > 0 ? Math.round((scanJob.processed / scanJob.total) * 100) : 0;
+
+  // Show a summary when a scan finishes. Background (watcher) updates only if something changed.
+  useEffect(() => {
+    if (!scanJob || scanJob.status === 'running') return;
+    const { added, updated, removed, moved } = scanJob.summary;
+    const hasChanges = added + updated + removed + moved + scanJob.errorCount > 0;
+    if (scanJob.type === 'watch' && !hasChanges) return;
+
+    // Only for jobs that finished while we were watching, not the stale one sent on connect
+    if (scanJob.finishedAt && Date.now() - scanJob.finishedAt > 10000) return;
+
+    setFinishedJob(scanJob);
+    setIsScanDetailsOpen(false);
+    const timer = setTimeout(() => setFinishedJob(null), 8000);
+    return () => clearTimeout(timer);
+  }, [scanJob?.id, scanJob?.status]);
+
   useEffect(() => {
     if (isMobileSearchOpen && inputRef.current) {
       inputRef.current.focus();
@@ -30,10 +72,14 @@ const Header: React.FC<HeaderProps> = ({
 
   // Close menu if clicking outside (simple implementation)
   useEffect(() => {
-    const closeMenu = () => setIsScanMenuOpen(false);
-    if (isScanMenuOpen) window.addEventListener('click', closeMenu);
+    const closeMenu = () => {
+      setIsScanMenuOpen(false);
+      setIsScanDetailsOpen(false);
+      setIsUserMenuOpen(false);
+    };
+    if (isScanMenuOpen || isScanDetailsOpen || isUserMenuOpen) window.addEventListener('click', closeMenu);
     return () => window.removeEventListener('click', closeMenu);
-  }, [isScanMenuOpen]);
+  }, [isScanMenuOpen, isScanDetailsOpen, isUserMenuOpen]);
 
   const handleScanClick = (e: React.MouseEvent, type: 'quick' | 'full') => {
     e.stopPropagation(); // Prevent the window click listener from firing immediately
@@ -117,22 +163,39 @@ const Header: React.FC<HeaderProps> = ({
               <SearchIcon />
             </button>
 
-            {/* --- NEW SPLIT SCAN BUTTON --- */}
+            {/* --- NEW SPLIT SCAN BUTTON (admins only) --- */}
+            {currentUser?.role === 'admin' && (
             <div className="relative">
                 <div className="flex items-center bg-white/5 hover:bg-white/10 rounded-xl transition-all border border-white/5">
-                    {/* Primary Button: Quick Scan */}
+                    {/* Primary Button: Quick Scan (or progress details while scanning) */}
                     <button
-                        onClick={(e) => handleScanClick(e, 'quick')}
-                        disabled={isScanning}
-                        className={`flex items-center gap-2 px-3 py-2 rounded-l-xl text-sm font-medium border-r border-white/10 ${isScanning ? 'opacity-50 cursor-wait' : 'text-white/90 hover:text-white'}`}
-                        title="Quick Scan (New files only)"
+                        onClick={(e) => {
+                            if (isScanning) {
+                                e.stopPropagation();
+                                setIsScanDetailsOpen(!isScanDetailsOpen);
+                            } else {
+                                handleScanClick(e, 'quick');
+                            }
+                        }}
+                        className={`relative overflow-hidden flex items-center gap-2 px-3 py-2 rounded-l-xl text-sm font-medium border-r border-white/10 ${isScanning ? 'text-white/70' : 'text-white/90 hover:text-white'}`}
+                        title={isScanning ? "Show scan progress" : "Quick Scan (New files only)"}
                     >
                         <div className={isScanning ? 'animate-spin' : ''}>
                             <ScanIcon />
                         </div>
                         <span className="hidden md:inline">
-                            {isScanning ? 'Scanning...' : 'Scan'}
+                            {isScanning ? `Scanning${scanJob?.phase === 'deep' ? ` ${progress}%` : '...'}` : 'Scan'}
                         </span>
+
+                        {/* Progress Bar */}
+                        {isScanning && (
+                            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-white/10">
+                                <div
+                                    className="h-full bg-brand-primary transition-all duration-300"
+                                    style={{ width: `${scanJob?.phase === 'deep' ? progress : scanJob?.phase === 'janitor' ? 100 : 5}%` }}
+                                />
+                            </div>
+                        )}
                     </button>
 
                     {/* Dropdown Trigger */}
@@ -148,6 +211,67 @@ const Header: React.FC<HeaderProps> = ({
                     </button>
                 </div>
 
+                {/* Live Progress Details */}
+                {isScanning && isScanDetailsOpen && scanJob && (
+                    <div onClick={(e) => e.stopPropagation()} className="absolute top-full right-0 mt-2 w-72 bg-gradient-to-br from-gray-900 to-black/90 backdrop-blur-md rounded-xl shadow-2xl p-4 z-50 animate-fade-in border border-white/10 text-sm">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="font-bold text-white">{PHASE_LABELS[scanJob.phase || ''] || 'Scanning'}</span>
+                            <span className="text-xs text-glass-subtext">{scanJob.processed} / {scanJob.total}</span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-white/10 overflow-hidden mb-3">
+                            <div className="h-full bg-brand-primary transition-all duration-300" style={{ width: `${progress}%` }} />
+                        </div>
+                        {scanJob.currentFile && (
+                            <div className="text-[11px] text-glass-subtext font-mono truncate" title={scanJob.currentFile}>
+                                {scanJob.currentFile}
+                            </div>
+                        )}
+                        {scanJob.errorCount > 0 && (
+                            <div className="mt-2 text-[11px] text-red-400">{scanJob.errorCount} file(s) failed so far</div>
+                        )}
+                    </div>
+                )}
+
+                {/* Post-Scan Summary */}
+                {!isScanning && finishedJob && (
+                    <div onClick={(e) => e.stopPropagation()} className="absolute top-full right-0 mt-2 w-72 bg-gradient-to-br from-gray-900 to-black/90 backdrop-blur-md rounded-xl shadow-2xl p-4 z-50 animate-fade-in border border-white/10 text-sm">
+                        <div className="flex items-center justify-between mb-3">
+                            <span className={`font-bold ${finishedJob.status === 'failed' ? 'text-red-400' : 'text-white'}`}>
+                                {finishedJob.status === 'failed' ? 'Scan failed' : finishedJob.type === 'watch' ? 'Library updated' : 'Scan complete'}
+                            </span>
+                            <button onClick={() => setFinishedJob(null)} className="text-glass-subtext hover:text-white">
+                                <XIcon />
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                            <div className="bg-white/5 rounded-lg py-2">
+                                <div className="text-lg font-bold text-brand-accent">{finishedJob.summary.added}</div>
+                                <div className="text-[10px] text-glass-subtext uppercase tracking-wider">Added</div>
+                            </div>
+                            <div className="bg-white/5 rounded-lg py-2">
+                                <div className="text-lg font-bold text-white">{finishedJob.summary.updated + finishedJob.summary.moved}</div>
+                                <div className="text-[10px] text-glass-subtext uppercase tracking-wider">Updated</div>
+                            </div>
+                            <div className="bg-white/5 rounded-lg py-2">
+                                <div className="text-lg font-bold text-white/70">{finishedJob.summary.removed}</div>
+                                <div className="text-[10px] text-glass-subtext uppercase tracking-wider">Removed</div>
+                            </div>
+                        </div>
+                        {finishedJob.errorCount > 0 && (
+                            <div className="mt-3 max-h-24 overflow-y-auto text-[11px] text-red-400 space-y-1">
+                                {finishedJob.errors.map((err, i) => (
+                                    <div key={i} className="truncate" title={`${err.file}: ${err.message}`}>{err.file}: {err.message}</div>
+                                ))}
+                            </div>
+                        )}
+                        {finishedJob.finishedAt && (
+                            <div className="mt-3 text-[10px] text-glass-subtext">
+                                Took {Math.max(1, Math.round((finishedJob.finishedAt - finishedJob.startedAt) / 1000))}s
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Dropdown Menu */}
                 {isScanMenuOpen && (
                     <div className="absolute top-full right-0 mt-2 w-48 bg-gradient-to-br from-gray-900 to-black/90 backdrop-blur-md rounded-xl shadow-2xl py-1 z-50 animate-fade-in border border-white/10">
@@ -168,7 +292,41 @@ const Header: React.FC<HeaderProps> = ({
                     </div>
                 )}
             </div>
+            )}
 
+            {/* Account */}
+            {currentUser && (
+              <div className="relative">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setIsUserMenuOpen(!isUserMenuOpen);
+                  }}
+                  title={currentUser.name}
+                  className={`w-8 h-8 md:w-9 md:h-9 rounded-full bg-gradient-to-br ${getAvatarColor(currentUser.name)} flex items-center justify-center text-sm font-bold text-white ring-1 ring-white/20 hover:ring-white/60 transition-all`}
+                >
+                  {currentUser.name.charAt(0).toUpperCase()}
+                </button>
+
+                {isUserMenuOpen && (
+                  <div onClick={(e) => e.stopPropagation()} className="absolute top-full right-0 mt-2 w-48 bg-gradient-to-br from-gray-900 to-black/90 backdrop-blur-md rounded-xl shadow-2xl py-1 z-50 animate-fade-in border border-white/10">
+                    <div className="px-4 py-2.5 border-b border-white/5">
+                      <div className="text-sm font-bold text-white truncate">{currentUser.name}</div>
+                      <div className="text-[10px] text-glass-subtext uppercase tracking-wider">{currentUser.role}</div>
+                    </div>
+                    <button
+                      onClick={() => {
+                        setIsUserMenuOpen(false);
+                        onLogout?.();
+                      }}
+                      className="w-full text-left px-4 py-2.5 text-sm hover:bg-white/10 text-white transition-colors"
+                    >
+                      Sign out
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </>
       )}
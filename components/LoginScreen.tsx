@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+
+interface LoginScreenProps {
+    setupRequired: boolean;
+    onLogin: (user: User) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ setupRequired, onLogin }) => {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        if (setupRequired && password !== confirmPassword) {
+            setError("Passwords don't match");
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const res = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                onLogin(data.user);
+            } else {
+                setError(data.error || "Login failed");
+            }
+        } catch (e) {
+            setError("Can't reach the server");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const inputClass = "w-full bg-black/20 border border-white/10 rounded-xl py-2.5 px-4 outline-none text-sm text-white placeholder-glass-subtext focus:border-brand-primary/50 focus:bg-black/40 transition-all";
+
+    return (
+        <div className="h-screen w-full flex items-center justify-center p-6 text-glass-text font-sans">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm glass-panel rounded-2xl p-8 shadow-2xl animate-fade-in-up">
+                <div className="flex items-center gap-3 mb-8">
+                    <div className="relative w-9 h-9 flex items-center justify-center">
+                        <div className="absolute inset-0 bg-brand-primary rounded-full blur-md opacity-70"></div>
+                        <img src="/logo.png" alt="Play21" className="relative z-10 w-full h-full object-contain" />
+                    </div>
+                    <span className="text-xl font-bold tracking-tight text-white/90">Play21</span>
+                </div>
+
+                <h2 className="text-lg font-bold text-white">{setupRequired ? 'Create the admin account' : 'Sign in'}</h2>
+                {setupRequired && (
+                    <p className="text-xs text-glass-subtext mt-1">This account can scan the library, edit metadata and add other users.</p>
+                )}
+
+                <div className="mt-6 space-y-3">
+                    <input
+                        type="text"
+                        autoFocus
+                        autoComplete="username"
+                        placeholder="Username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        className={inputClass}
+                    />
+                    <input
+                        type="password"
+                        autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                        placeholder="Password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className={inputClass}
+                    />
+                    {setupRequired && (
+                        <input
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder="Confirm password"
+                            value={confirmPassword}
+                            onChange={(e) => setConfirmPassword(e.target.value)}
+                            className={inputClass}
+                        />
+                    )}
+                </div>
+
+                {error && <p className="mt-4 text-xs text-red-400">{error}</p>}
+
+                <button
+                    type="submit"
+                    disabled={isSubmitting || !username.trim() || !password}
+                    className="mt-6 w-full py-2.5 rounded-xl bg-brand-primary text-white text-sm font-bold hover:bg-brand-primary/80 disabled:opacity-40 transition-colors"
+                >
+                    {isSubmitting ? 'Please wait...' : setupRequired ? 'Create account' : 'Sign in'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default LoginScreen;
@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import { XIcon, TrashIcon } from './Icons';
+import { Playlist, SmartPlaylistRules, SmartRule, SmartRuleField, SmartRuleOp, SortOption } from '../types';
+
+interface PlaylistDialogProps {
+    isOpen: boolean;
+    playlist: Playlist | null; // Null creates a new playlist
+    onClose: () => void;
+    onSave: (name: string, rules: SmartPlaylistRules | null) => Promise<string | null>; // Resolves to an error message, if any
+}
+
+const inputClass = "min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-brand-primary placeholder-white/30";
+const optionClass = "bg-[#1a1b26]";
+
+// Mirrors SMART_RULE_FIELDS and SMART_RULE_OPS on the server
+type FieldType = 'text' | 'folder' | 'number' | 'date' | 'boolean';
+const RULE_FIELDS: Record<SmartRuleField, { label: string; type: FieldType; unit?: string }> = {
+    title: { label: 'Title', type: 'text' },
+    channel: { label: 'Channel', type: 'text' },
+    genre: { label: 'Tags', type: 'text' },
+    folder: { label: 'Folder', type: 'folder' },
+    duration: { label: 'Duration', type: 'number', unit: 'min' },
+    views: { label: 'Views', type: 'number' },
+    releaseDate: { label: 'Air date', type: 'date', unit: 'days' },
+    added: { label: 'Date added', type: 'date', unit: 'days' },
+    watched: { label: 'Watched', type: 'boolean' },
+    favorite: { label: 'Favorite', type: 'boolean' }
+};
+const RULE_OPS: Record<FieldType, { op: SmartRuleOp; label: string }[]> = {
+    text: [{ op: 'is', label: 'is' }, { op: 'isNot', label: 'is not' }, { op: 'contains', label: 'contains' }],
+    folder: [{ op: 'is', label: 'is in' }, { op: 'isNot', label: 'is not in' }],
+    number: [{ op: 'lt', label: 'less than' }, { op: 'gt', label: 'more than' }],
+    date: [{ op: 'inLast', label: 'in the last' }, { op: 'notInLast', label: 'not in the last' }],
+    boolean: [{ op: 'is', label: 'is' }]
+};
+const DEFAULT_VALUES: Record<FieldType, string | number | boolean> = { text: '', folder: '', number: 20, date: 30, boolean: false };
+
+// Mirrors SMART_PLAYLIST_SORTS: every fixed order
+const SMART_SORTS = Object.values(SortOption).filter(option => option !== SortOption.RELEVANCE && option !== SortOption.RANDOM);
+
+const newRule = (field: SmartRuleField): SmartRule => {
+    const type = RULE_FIELDS[field].type;
+    return { field, op: RULE_OPS[type][0].op, value: DEFAULT_VALUES[type] };
+};
+
+const PlaylistDialog: React.FC<PlaylistDialogProps> = ({ isOpen, playlist, onClose, onSave }) => {
+    const [name, setName] = useState('');
+    const [isSmart, setIsSmart] = useState(false);
+    const [match, setMatch] = useState<'all' | 'any'>('all');
+    const [conditions, setConditions] = useState<SmartRule[]>([]);
+    const [sort, setSort] = useState<SortOption>(SortOption.AIR_DATE_NEWEST);
+    const [limit, setLimit] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Start from the playlist being edited, or a blank one
+    useEffect(() => {
+        if (!isOpen) return;
+        const rules = playlist?.rules;
+        setName(playlist?.name || '');
+        setIsSmart(Boolean(rules));
+        setMatch(rules?.match || 'all');
+        setConditions(rules?.conditions || [newRule('channel')]);
+        setSort(rules?.sort || SortOption.AIR_DATE_NEWEST);
+        setLimit(rules?.limit ? String(rules.limit) : '');
+        setError(null);
+        setIsSaving(false);
+    }, [isOpen, playlist]);
+
+    if (!isOpen) return null;
+
+    const updateRule = (index: number, changes: Partial<SmartRule>) => {
+        setConditions(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+    };
+
+    const missingText = isSmart && conditions.some(rule => RULE_FIELDS[rule.field].type === 'text' && !String(rule.value).trim());
+    const canSave = name.trim() !== '' && !missingText && !isSaving;
+
+    const handleSave = async () => {
+        if (!canSave) return;
+        const rules = isSmart
+            ? { match, conditions, sort, limit: limit ? parseInt(limit) : null }
+            : null;
+        setError(null);
+        setIsSaving(true);
+        try {
+            // Closed by the parent once it's saved, so only a failure comes back here
+            const message = await onSave(name.trim(), rules);
+            if (message) setError(message);
+        } catch (e) {
+            setError("Can't reach the server");
+        }
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+            <div className="relative w-full max-w-xl bg-[#1a1b26] border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-fade-in-up">
+                {/* Header */}
+                <div className="flex items-center justify-between p-5 border-b border-white/5">
+                    <h2 className="text-lg font-bold text-white">
+                        {playlist ? 'Edit Playlist' : 'New Playlist'}
+                    </h2>
+                    <button onClick={onClose} className="text-glass-subtext hover:text-white transition-colors">
+                        <XIcon />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-5 space-y-5 max-h-[70vh] overflow-y-auto">
+                    <input
+                        autoFocus
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                        placeholder="Playlist name"
+                        className={`${inputClass} w-full`}
+                    />
+
+                    {/* A playlist can't switch kinds after it is created */}
+                    {!playlist && (
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <h3 className="text-sm font-medium text-white">Smart Playlist</h3>
+                                <p className="text-xs text-glass-subtext mt-1">Filled automatically with every video that matches the rules.</p>
+                            </div>
+                            <button
+                                onClick={() => setIsSmart(!isSmart)}
+                                className={`relative w-12 h-6 rounded-full transition-colors duration-200 ease-in-out ${isSmart ? 'bg-brand-primary' : 'bg-white/10'}`}
+                            >
+                                <span
+                                    className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full shadow transition-transform duration-200 ease-in-out ${isSmart ? 'translate-x-6' : 'translate-x-0'}`}
+                                />
+                            </button>
+                        </div>
+                    )}
+
+                    {isSmart && (
+                        <div className="space-y-4">
+                            <div className="flex items-center gap-2 text-sm text-glass-subtext">
+                                <span>Match</span>
+                                <select value={match} onChange={(e) => setMatch(e.target.value as 'all' | 'any')} className={inputClass}>
+                                    <option value="all" className={optionClass}>all</option>
+                                    <option value="any" className={optionClass}>any</option>
+                                </select>
+                                <span>of these rules</span>
+                            </div>
+
+                            <div className="space-y-2">
+                                {conditions.map((rule, index) => {
+                                    const field = RULE_FIELDS[rule.field];
+                                    return (
+                                        <div key={index} className="flex items-center gap-2">
+                                            <select
+                                                value={rule.field}
+                                                onChange={(e) => updateRule(index, newRule(e.target.value as SmartRuleField))}
+                                                className={inputClass}
+                                            >
+                                                {(Object.keys(RULE_FIELDS) as SmartRuleField[]).map(key => (
+                                                    <option key={key} value={key} className={optionClass}>{RULE_FIELDS[key].label}</option>
+                                                ))}
+                                            </select>
+
+                                            <select
+                                                value={rule.op}
+                                                onChange={(e) => updateRule(index, { op: e.target.value as SmartRuleOp })}
+                                                className={inputClass}
+                                            >
+                                                {RULE_OPS[field.type].map(({ op, label }) => (
+                                                    <option key={op} value={op} className={optionClass}>{label}</option>
+                                                ))}
+                                            </select>
+
+                                            {field.type === 'boolean' ? (
+                                                <select
+                                                    value={rule.value ? 'yes' : 'no'}
+                                                    onChange={(e) => updateRule(index, { value: e.target.value === 'yes' })}
+                                                    className={`${inputClass} flex-1`}
+                                                >
+                                                    <option value="yes" className={optionClass}>yes</option>
+                                                    <option value="no" className={optionClass}>no</option>
+                                                </select>
+                                            ) : field.type === 'number' || field.type === 'date' ? (
+                                                <div className="flex flex-1 items-center gap-2">
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        value={String(rule.value)}
+                                                        onChange={(e) => updateRule(index, { value: Number(e.target.value) })}
+                                                        className={`${inputClass} w-full`}
+                                                    />
+                                                    {field.unit && <span className="text-xs text-glass-subtext">{field.unit}</span>}
+                                                </div>
+                                            ) : (
+                                                <input
+                                                    value={String(rule.value)}
+                                                    onChange={(e) => updateRule(index, { value: e.target.value })}
+                                                    placeholder={field.type === 'folder' ? 'e.g. Movies/Action' : ''}
+                                                    className={`${inputClass} flex-1`}
+                                                />
+                                            )}
+
+                                            <button
+                                                onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                                                className="p-1.5 text-glass-subtext hover:text-red-400 transition-colors"
+                                                title="Remove rule"
+                                            >
+                                                <TrashIcon />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+
+                                <button
+                                    onClick={() => setConditions(prev => [...prev, newRule('channel')])}
+                                    className="text-sm font-bold text-brand-accent hover:text-white transition-colors"
+                                >
+                                    + Add rule
+                                </button>
+                            </div>
+
+                            <div className="flex flex-wrap items-center gap-2 text-sm text-glass-subtext border-t border-white/5 pt-4">
+                                <span>Order by</span>
+                                <select value={sort} onChange={(e) => setSort(e.target.value as SortOption)} className={inputClass}>
+                                    {SMART_SORTS.map(option => (
+                                        <option key={option} value={option} className={optionClass}>{option}</option>
+                                    ))}
+                                </select>
+                                <span>limit to</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={1000}
+                                    value={limit}
+                                    onChange={(e) => setLimit(e.target.value)}
+                                    placeholder="all"
+                                    className={`${inputClass} w-20`}
+                                />
+                                <span>videos</span>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-end gap-2 p-5 border-t border-white/5">
+                    {error && <p className="mr-auto text-xs text-red-400">{error}</p>}
+                    <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-sm font-medium text-glass-subtext hover:text-white hover:bg-white/10 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!canSave}
+                        className="px-4 py-1.5 rounded-lg bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/80 disabled:opacity-40 transition-colors"
+                    >
+                        {playlist ? 'Save' : 'Create'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PlaylistDialog;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import VideoCard from './VideoCard';
+import { VideoFile } from '../types';
+
+interface PlaylistGridProps {
+    videos: VideoFile[]; // In playlist order
+    hasMore: boolean;
+    isLoading: boolean;
+    watchLaterIds: string[];
+    onLoadMore: () => void;
+    onVideoSelect: (video: VideoFile) => void;
+    onToggleWatchLater: (videoId: string) => void;
+    onChannelClick: (channel: string) => void;
+    onMove?: (videoId: string, position: number) => void; // Drag and drop is off without it (smart or filtered playlists)
+}
+
+// Playlists aren't virtualized like the library grid: every loaded card has to be a drop target
+const PlaylistGrid: React.FC<PlaylistGridProps> = ({ videos, hasMore, isLoading, watchLaterIds, onLoadMore, onVideoSelect, onToggleWatchLater, onChannelClick, onMove }) => {
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const endDrag = () => {
+        setDraggingId(null);
+        setDropIndex(null);
+    };
+
+    const handleDrop = (index: number) => {
+        if (onMove && draggingId && videos[index]?.id !== draggingId) onMove(draggingId, index);
+        endDrag();
+    };
+
+    return (
+        <div className="pb-20">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-y-10 gap-x-6 pr-4">
+                {videos.map((video, index) => (
+                    <div
+                        key={video.id}
+                        draggable={Boolean(onMove)}
+                        onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggingId(video.id);
+                        }}
+                        onDragOver={(e) => {
+                            if (!draggingId) return;
+                            e.preventDefault();
+                            setDropIndex(index);
+                        }}
+                        onDrop={(e) => {
+                            e.preventDefault();
+                            handleDrop(index);
+                        }}
+                        onDragEnd={endDrag}
+                        className={`relative rounded-xl transition-all ${draggingId === video.id ? 'opacity-40' : ''} ${dropIndex === index && draggingId !== video.id ? 'ring-2 ring-brand-primary ring-offset-4 ring-offset-black' : ''} ${onMove ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                    >
+                        <span className="block mb-1.5 text-[10px] font-bold tracking-wider text-brand-primary">{index + 1}</span>
+                        <VideoCard
+                            video={video}
+                            isInWatchLater={watchLaterIds.includes(video.id)}
+                            onToggleWatchLater={() => onToggleWatchLater(video.id)}
+                            onClick={() => onVideoSelect(video)}
+                            onChannelClick={() => video.channel && onChannelClick(video.channel)}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            {hasMore && (
+                <div className="mt-10 flex justify-center">
+                    <button
+                        onClick={onLoadMore}
+                        disabled={isLoading}
+                        className="glass-button px-5 py-2 rounded-lg text-sm font-medium text-glass-text hover:text-white transition-colors disabled:opacity-50"
+                    >
+                        {isLoading ? 'Loading...' : 'Show more'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PlaylistGrid;
@@ -0,0 +1,113 @@
+import React from 'react';
+import VideoCard from './VideoCard';
+import { ArrowLeftIcon, TvIcon } from './Icons';
+import { Series, VideoFile } from '../types';
+
+interface SeriesPageProps {
+    seriesList: Series[];
+    series: Series | null; // The selected show, with its seasons. Null shows the list.
+    isLoading: boolean;
+    watchLaterIds: string[];
+    onSelectSeries: (id: string | null) => void;
+    onVideoSelect: (video: VideoFile) => void;
+    onToggleWatchLater: (videoId: string) => void;
+}
+
+const Poster: React.FC<{ src: string | null; alt: string; className?: string }> = ({ src, alt, className = '' }) => (
+    <div className={`relative aspect-[2/3] rounded-xl overflow-hidden bg-gray-900/50 border border-white/10 ${className}`}>
+        {src ? (
+            <img src={src} alt={alt} className="absolute inset-0 w-full h-full object-cover" />
+        ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-white/20 bg-gradient-to-br from-white/5 to-white/0">
+                <TvIcon />
+            </div>
+        )}
+    </div>
+);
+
+const SeriesPage: React.FC<SeriesPageProps> = ({ seriesList, series, isLoading, watchLaterIds, onSelectSeries, onVideoSelect, onToggleWatchLater }) => {
+    // --- ONE SHOW: seasons in order ---
+    if (series) {
+        const year = series.premiered ? series.premiered.slice(0, 4) : null;
+
+        return (
+            <div className="p-6 md:p-8 animate-fade-in min-h-full pb-20">
+                <button
+                    onClick={() => onSelectSeries(null)}
+                    className="mb-6 flex items-center gap-2 text-sm font-bold text-brand-primary hover:text-white transition-colors bg-white/5 hover:bg-white/10 px-4 py-2 rounded-lg"
+                >
+                    <ArrowLeftIcon />
+                    <span>All Series</span>
+                </button>
+
+                <div className="flex flex-col sm:flex-row gap-6 mb-10 border-b border-white/5 pb-8">
+                    <Poster src={series.poster} alt={series.title} className="w-40 flex-shrink-0" />
+                    <div className="min-w-0">
+                        <h2 className="text-3xl font-bold text-white">{series.title}</h2>
+                        <div className="mt-2 flex flex-wrap gap-x-3 text-sm text-glass-subtext">
+                            {year && <span>{year}</span>}
+                            {series.genre && <span>{series.genre}</span>}
+                            <span>{series.seasonCount} {series.seasonCount === 1 ? 'season' : 'seasons'}</span>
+                            <span>{series.episodeCount} {series.episodeCount === 1 ? 'episode' : 'episodes'}</span>
+                        </div>
+                        {series.plot && <p className="mt-4 text-sm text-glass-text leading-relaxed max-w-3xl whitespace-pre-line">{series.plot}</p>}
+                    </div>
+                </div>
+
+                {(series.seasons || []).map(season => (
+                    <section key={season.id} className="mb-12">
+                        <div className="flex items-baseline gap-3 mb-5">
+                            <h3 className="text-xl font-bold text-white">{season.title}</h3>
+                            <span className="text-sm text-glass-subtext">{season.episodes.length} episodes</span>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-y-10 gap-x-6 pr-4">
+                            {season.episodes.map(video => (
+                                <div key={video.id}>
+                                    {video.episodeNumber != null && (
+                                        <span className="block mb-1.5 text-[10px] font-bold tracking-wider text-brand-primary uppercase">Episode {video.episodeNumber}</span>
+                                    )}
+                                    <VideoCard
+                                        video={video}
+                                        isInWatchLater={watchLaterIds.includes(video.id)}
+                                        onToggleWatchLater={() => onToggleWatchLater(video.id)}
+                                        onClick={() => onVideoSelect(video)}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                ))}
+            </div>
+        );
+    }
+
+    // --- ALL SHOWS ---
+    return (
+        <div className="p-6 md:p-8 animate-fade-in min-h-full pb-20">
+            <div className="mb-6 flex items-baseline gap-3 border-b border-white/5 pb-4">
+                <h2 className="text-2xl font-bold text-white">Series</h2>
+                <span className="text-sm text-glass-subtext">{seriesList.length} shows</span>
+            </div>
+
+            {!isLoading && seriesList.length === 0 && (
+                <p className="text-sm text-glass-subtext">
+                    No series yet. Folders with a tvshow.nfo show up here after the next library scan.
+                </p>
+            )}
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-6 gap-6">
+                {seriesList.map(s => (
+                    <div key={s.id} onClick={() => onSelectSeries(s.id)} className="group cursor-pointer">
+                        <Poster src={s.poster} alt={s.title} className="transition-all duration-300 group-hover:-translate-y-1 group-hover:border-brand-primary/50 group-hover:shadow-2xl" />
+                        <h3 className="mt-2 text-sm font-medium text-white/90 group-hover:text-white line-clamp-2">{s.title}</h3>
+                        <span className="text-xs text-glass-subtext">
+                            {s.seasonCount} {s.seasonCount === 1 ? 'season' : 'seasons'} · {s.episodeCount} {s.episodeCount === 1 ? 'episode' : 'episodes'}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SeriesPage;
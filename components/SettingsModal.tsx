@@ -1,14 +1,274 @@
-import React from 'react';
-import { XIcon } from './Icons';
+import React, { useState, useEffect } from 'react';
+import { XIcon, TrashIcon } from './Icons';
+import { TranscodeCapabilities, User, UserRole, ApiToken, Library } from '../types';
 
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
     settings: { hideHiddenFiles: boolean };
     onToggleSetting: (key: string, value: boolean) => void;
+    currentUser: User;
+    libraries: Library[];
+    onLibrariesChange: () => void; // Refetch after adding, editing or removing one
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onToggleSetting }) => {
+const inputClass = "flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-brand-primary placeholder-white/30";
+const buttonClass = "px-3 py-1.5 rounded-lg bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/80 disabled:opacity-40 transition-colors";
+
+// Every order of the scanner's metadata sources, highest priority first
+const METADATA_SOURCE_LABELS: Record<string, string> = { nfo: 'NFO', infojson: 'info.json', embedded: 'Embedded tags' };
+const METADATA_PRECEDENCE_OPTIONS = [
+    'nfo,infojson,embedded',
+    'nfo,embedded,infojson',
+    'infojson,nfo,embedded',
+    'infojson,embedded,nfo',
+    'embedded,nfo,infojson',
+    'embedded,infojson,nfo'
+];
+const DEFAULT_METADATA_PRECEDENCE = METADATA_PRECEDENCE_OPTIONS[0];
+
+// Scheduled scans per library, in hours. '' follows the server default, 0 only scans by hand.
+const SCAN_INTERVAL_OPTIONS = [
+    { value: '', label: 'Default schedule' },
+    { value: '6', label: 'Every 6 hours' },
+    { value: '12', label: 'Every 12 hours' },
+    { value: '24', label: 'Daily' },
+    { value: '168', label: 'Weekly' },
+    { value: '0', label: 'Manual only' }
+];
+
+// Percent of a video that has to be played before it counts as watched
+const WATCHED_THRESHOLD_OPTIONS = ['80', '85', '90', '95', '100'];
+const DEFAULT_WATCHED_THRESHOLD = '90';
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onToggleSetting, currentUser, libraries, onLibrariesChange }) => {
+    const [transcode, setTranscode] = useState<TranscodeCapabilities | null>(null);
+    const [metadataPrecedence, setMetadataPrecedence] = useState(DEFAULT_METADATA_PRECEDENCE);
+    const [watchedThreshold, setWatchedThreshold] = useState(DEFAULT_WATCHED_THRESHOLD);
+    const [users, setUsers] = useState<User[]>([]);
+    const [newUserName, setNewUserName] = useState('');
+    const [newUserPassword, setNewUserPassword] = useState('');
+    const [newUserRole, setNewUserRole] = useState<UserRole>('user');
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [newTokenName, setNewTokenName] = useState('');
+    const [createdToken, setCreatedToken] = useState<string | null>(null); // Shown once, right after creation
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [passwordMessage, setPasswordMessage] = useState<string | null>(null);
+    const [newLibraryName, setNewLibraryName] = useState('');
+    const [newLibraryRoot, setNewLibraryRoot] = useState('');
+    const isAdmin = currentUser.role === 'admin';
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setCreatedToken(null);
+        setPasswordMessage(null);
+
+        fetch('/api/auth/tokens')
+            .then(res => res.json())
+            .then(data => setTokens(data.tokens || []))
+            .catch(e => console.error("Failed to load API tokens", e));
+
+        if (isAdmin) {
+            fetch('/api/users')
+                .then(res => res.json())
+                .then(data => setUsers(data.users || []))
+                .catch(e => console.error("Failed to load users", e));
+        }
+    }, [isOpen, isAdmin]);
+
+    // Encoder support is detected by the server, so ask it every time the modal opens
+    useEffect(() => {
+        if (!isOpen || !isAdmin) return;
+        fetch('/api/transcode/capabilities')
+            .then(res => res.json())
+            .then(setTranscode)
+            .catch(e => console.error("Failed to load transcoding info", e));
+    }, [isOpen, isAdmin]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        fetch('/api/settings')
+            .then(res => res.json())
+            .then(data => {
+                setWatchedThreshold(data.watchedThreshold || DEFAULT_WATCHED_THRESHOLD);
+                if (isAdmin) setMetadataPrecedence(data.metadataPrecedence || DEFAULT_METADATA_PRECEDENCE);
+            })
+            .catch(e => console.error("Failed to load settings", e));
+    }, [isOpen, isAdmin]);
+
+    const handlePrecedenceChange = async (value: string) => {
+        setMetadataPrecedence(value);
+        await fetch('/api/settings', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ key: 'metadataPrecedence', value })
+        });
+    };
+
+    const handleWatchedThresholdChange = async (value: string) => {
+        setWatchedThreshold(value);
+        await fetch('/api/settings', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ key: 'watchedThreshold', value })
+        });
+    };
+
+    const handleEncoderChange = async (value: string) => {
+        await fetch('/api/settings', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ key: 'transcodeEncoder', value })
+        });
+        const res = await fetch('/api/transcode/capabilities');
+        setTranscode(await res.json());
+    };
+
+    const handleAddLibrary = async () => {
+        const name = newLibraryName.trim();
+        const root = newLibraryRoot.trim();
+        if (!name || !root) return;
+
+        const res = await fetch('/api/libraries', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, root })
+        });
+        const data = await res.json();
+        if (data.success) {
+            setNewLibraryName('');
+            setNewLibraryRoot('');
+            onLibrariesChange();
+        } else {
+            alert(data.error || "Failed to add library");
+        }
+    };
+
+    const handleUpdateLibrary = async (library: Library, changes: Partial<Pick<Library, 'scanInterval' | 'hideHidden' | 'metadataPrecedence'>>) => {
+        const res = await fetch(`/api/libraries/${library.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes)
+        });
+        const data = await res.json();
+        if (data.success) {
+            onLibrariesChange();
+        } else {
+            alert(data.error || "Failed to update library");
+        }
+    };
+
+    const handleScanLibrary = async (library: Library) => {
+        const res = await fetch('/api/scan', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type: 'full', library: library.id })
+        });
+        const data = await res.json();
+        if (!data.success) alert(data.error || "Failed to start scan");
+    };
+
+    const handleDeleteLibrary = async (library: Library) => {
+        if (!window.confirm(`Remove the library "${library.name}"? Its videos leave Play21, the files on disk are kept.`)) return;
+
+        const res = await fetch(`/api/libraries/${library.id}`, { method: 'DELETE' });
+        const data = await res.json();
+        if (data.success) {
+            onLibrariesChange();
+        } else {
+            alert(data.error || "Failed to remove library");
+        }
+    };
+
+    const handleAddUser = async () => {
+        const name = newUserName.trim();
+        if (!name || !newUserPassword) return;
+
+        const res = await fetch('/api/users', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, password: newUserPassword, role: newUserRole })
+        });
+        const data = await res.json();
+        if (data.success) {
+            setUsers([...users, data.user]);
+            setNewUserName('');
+            setNewUserPassword('');
+            setNewUserRole('user');
+        } else {
+            alert(data.error || "Failed to create user");
+        }
+    };
+
+    const handleResetPassword = async (user: User) => {
+        const password = window.prompt(`New password for "${user.name}":`);
+        if (!password) return;
+
+        const res = await fetch(`/api/users/${user.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ password })
+        });
+        const data = await res.json();
+        if (!data.success) alert(data.error || "Failed to reset password");
+    };
+
+    const handleDeleteUser = async (user: User) => {
+        if (!window.confirm(`Delete the user "${user.name}"? Their favorites, history and playlists are deleted too.`)) return;
+
+        const res = await fetch(`/api/users/${user.id}`, { method: 'DELETE' });
+        const data = await res.json();
+        if (data.success) {
+            setUsers(users.filter(u => u.id !== user.id));
+        } else {
+            alert(data.error || "Failed to delete user");
+        }
+    };
+
+    const handleCreateToken = async () => {
+        const name = newTokenName.trim();
+        if (!name) return;
+
+        const res = await fetch('/api/auth/tokens', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name })
+        });
+        const data = await res.json();
+        if (data.success) {
+            setTokens([data.apiToken, ...tokens]);
+            setCreatedToken(data.token);
+            setNewTokenName('');
+        } else {
+            alert(data.error || "Failed to create token");
+        }
+    };
+
+    const handleRevokeToken = async (token: ApiToken) => {
+        if (!window.confirm(`Revoke the token "${token.name}"? Scripts using it will stop working.`)) return;
+
+        const res = await fetch(`/api/auth/tokens/${token.id}`, { method: 'DELETE' });
+        const data = await res.json();
+        if (data.success) setTokens(tokens.filter(t => t.id !== token.id));
+    };
+
+    const handleChangePassword = async () => {
+        const res = await fetch('/api/auth/password', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ currentPassword, newPassword })
+        });
+        const data = await res.json();
+        if (data.success) {
+            setCurrentPassword('');
+            setNewPassword('');
+            setPasswordMessage("Password changed. Other devices were signed out.");
+        } else {
+            setPasswordMessage(data.error || "Failed to change password");
+        }
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -25,7 +285,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                 </div>
 
                 {/* Content */}
-                <div className="p-5 space-y-6">
+                <div className="p-5 space-y-6 max-h-[70vh] overflow-y-auto">
                     {/* Setting Item */}
                     <div className="flex items-center justify-between">
                         <div>
@@ -43,6 +303,303 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                             />
                         </button>
                     </div>
+
+                    {/* Watched threshold (per user) */}
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <h3 className="text-sm font-medium text-white">Mark as Watched</h3>
+                            <p className="text-xs text-glass-subtext mt-1">How much of a video you need to play before it counts as watched.</p>
+                        </div>
+
+                        <select
+                            value={watchedThreshold}
+                            onChange={(e) => handleWatchedThresholdChange(e.target.value)}
+                            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:border-brand-primary"
+                        >
+                            {WATCHED_THRESHOLD_OPTIONS.map(option => (
+                                <option key={option} value={option} className="bg-[#1a1b26]">{option}%</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Transcoding (server-wide, admins only) */}
+                    {isAdmin && (
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <h3 className="text-sm font-medium text-white">Transcoding</h3>
+                            <p className="text-xs text-glass-subtext mt-1">
+                                {!transcode || transcode.status === 'pending'
+                                    ? 'Detecting encoders...'
+                                    : `Used for files the browser can't play. Active: ${transcode.encoders.find(e => e.id === transcode.active)?.label || transcode.active}`}
+                            </p>
+                        </div>
+
+                        <select
+                            value={transcode?.preferred || 'auto'}
+                            disabled={!transcode || transcode.status === 'pending'}
+                            onChange={(e) => handleEncoderChange(e.target.value)}
+                            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:border-brand-primary disabled:opacity-50"
+                        >
+                            <option value="auto" className="bg-[#1a1b26]">Auto</option>
+                            {transcode?.encoders.map(encoder => (
+                                <option key={encoder.id} value={encoder.id} disabled={!encoder.available} className="bg-[#1a1b26]">
+                                    {encoder.label}{encoder.available ? '' : ' (unavailable)'}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    )}
+
+                    {/* Metadata sources (server-wide, admins only) */}
+                    {isAdmin && (
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <h3 className="text-sm font-medium text-white">Metadata Sources</h3>
+                            <p className="text-xs text-glass-subtext mt-1">
+                                Which source wins when several describe a video. Applies to new files and full scans. Edits are saved to the NFO.
+                            </p>
+                        </div>
+
+                        <select
+                            value={metadataPrecedence}
+                            onChange={(e) => handlePrecedenceChange(e.target.value)}
+                            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:border-brand-primary"
+                        >
+                            {METADATA_PRECEDENCE_OPTIONS.map(option => (
+                                <option key={option} value={option} className="bg-[#1a1b26]">
+                                    {option.split(',').map(source => METADATA_SOURCE_LABELS[source]).join(' › ')}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    )}
+
+                    {/* Libraries (admins only) */}
+                    {isAdmin && (
+                        <div>
+                            <h3 className="text-sm font-medium text-white">Libraries</h3>
+                            <p className="text-xs text-glass-subtext mt-1">Folders Play21 scans, each with its own schedule, hidden file policy and metadata sources.</p>
+
+                            <div className="mt-3 space-y-1.5">
+                                {libraries.map(library => (
+                                    <div key={library.id} className="px-3 py-2 rounded-lg bg-white/5">
+                                        <div className="flex items-center justify-between gap-3">
+                                            <div className="min-w-0">
+                                                <div className="text-sm text-white truncate">{library.name}</div>
+                                                <div className="text-[10px] text-glass-subtext font-mono truncate" title={library.root}>{library.root}</div>
+                                                <div className="text-[10px] text-glass-subtext">
+                                                    {library.videoCount} videos · {library.lastScannedAt ? `Scanned ${new Date(library.lastScannedAt).toLocaleString()}` : 'Not scanned yet'}
+                                                </div>
+                                            </div>
+                                            <div className="flex items-center gap-3 flex-shrink-0">
+                                                <button onClick={() => handleScanLibrary(library)} className="text-[10px] font-bold tracking-wider text-glass-subtext hover:text-white transition-colors">
+                                                    SCAN
+                                                </button>
+                                                {!library.isDefault && (
+                                                    <button onClick={() => handleDeleteLibrary(library)} className="text-glass-subtext hover:text-red-400 transition-colors" title="Remove library">
+                                                        <TrashIcon />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+
+                                        <div className="mt-2 flex flex-wrap items-center gap-2">
+                                            <select
+                                                value={library.scanInterval === null ? '' : String(library.scanInterval)}
+                                                onChange={(e) => handleUpdateLibrary(library, { scanInterval: e.target.value === '' ? null : parseInt(e.target.value) })}
+                                                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white outline-none focus:border-brand-primary"
+                                            >
+                                                {/* Intervals set through the API that aren't in the list still show up */}
+                                                {library.scanInterval !== null && !SCAN_INTERVAL_OPTIONS.some(o => o.value === String(library.scanInterval)) && (
+                                                    <option value={String(library.scanInterval)} className="bg-[#1a1b26]">Every {library.scanInterval} hours</option>
+                                                )}
+                                                {SCAN_INTERVAL_OPTIONS.map(option => (
+                                                    <option key={option.value} value={option.value} className="bg-[#1a1b26]">{option.label}</option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={library.metadataPrecedence ? library.metadataPrecedence.join(',') : ''}
+                                                onChange={(e) => handleUpdateLibrary(library, { metadataPrecedence: e.target.value ? e.target.value.split(',') as Library['metadataPrecedence'] : null })}
+                                                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white outline-none focus:border-brand-primary"
+                                            >
+                                                <option value="" className="bg-[#1a1b26]">Default sources</option>
+                                                {METADATA_PRECEDENCE_OPTIONS.map(option => (
+                                                    <option key={option} value={option} className="bg-[#1a1b26]">
+                                                        {option.split(',').map(source => METADATA_SOURCE_LABELS[source]).join(' › ')}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <label className="flex items-center gap-1.5 text-xs text-glass-subtext cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={library.hideHidden}
+                                                    onChange={(e) => handleUpdateLibrary(library, { hideHidden: e.target.checked })}
+                                                    className="accent-brand-primary"
+                                                />
+                                                Skip hidden files
+                                            </label>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="mt-3 flex gap-2">
+                                <input
+                                    type="text"
+                                    value={newLibraryName}
+                                    onChange={(e) => setNewLibraryName(e.target.value)}
+                                    placeholder="Name"
+                                    className={`${inputClass} max-w-[8rem]`}
+                                />
+                                <input
+                                    type="text"
+                                    value={newLibraryRoot}
+                                    onChange={(e) => setNewLibraryRoot(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleAddLibrary()}
+                                    placeholder="Folder on the server, e.g. /mnt/movies"
+                                    className={inputClass}
+                                />
+                                <button onClick={handleAddLibrary} disabled={!newLibraryName.trim() || !newLibraryRoot.trim()} className={buttonClass}>
+                                    Add
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Password */}
+                    <div>
+                        <h3 className="text-sm font-medium text-white">Password</h3>
+                        <p className="text-xs text-glass-subtext mt-1">Signed in as {currentUser.name}.</p>
+                        <div className="mt-3 flex gap-2">
+                            <input
+                                type="password"
+                                autoComplete="current-password"
+                                value={currentPassword}
+                                onChange={(e) => setCurrentPassword(e.target.value)}
+                                placeholder="Current"
+                                className={inputClass}
+                            />
+                            <input
+                                type="password"
+                                autoComplete="new-password"
+                                value={newPassword}
+                                onChange={(e) => setNewPassword(e.target.value)}
+                                placeholder="New"
+                                className={inputClass}
+                            />
+                            <button onClick={handleChangePassword} disabled={!currentPassword || !newPassword} className={buttonClass}>
+                                Change
+                            </button>
+                        </div>
+                        {passwordMessage && <p className="text-xs text-glass-subtext mt-2">{passwordMessage}</p>}
+                    </div>
+
+                    {/* API Tokens */}
+                    <div>
+                        <h3 className="text-sm font-medium text-white">API Tokens</h3>
+                        <p className="text-xs text-glass-subtext mt-1">For scripts: send as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>.</p>
+
+                        {createdToken && (
+                            <div className="mt-3 p-3 rounded-lg bg-brand-primary/10 border border-brand-primary/20">
+                                <p className="text-[11px] text-brand-primary font-bold mb-1">Copy it now, it won't be shown again:</p>
+                                <input
+                                    readOnly
+                                    value={createdToken}
+                                    onFocus={(e) => e.target.select()}
+                                    className="w-full bg-black/30 rounded px-2 py-1 text-xs font-mono text-white outline-none"
+                                />
+                            </div>
+                        )}
+
+                        <div className="mt-3 space-y-1.5">
+                            {tokens.map(token => (
+                                <div key={token.id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-white/5">
+                                    <div className="min-w-0">
+                                        <div className="text-sm text-white truncate">{token.name}</div>
+                                        <div className="text-[10px] text-glass-subtext">
+                                            {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleDateString()}` : 'Never used'}
+                                        </div>
+                                    </div>
+                                    <button onClick={() => handleRevokeToken(token)} className="text-glass-subtext hover:text-red-400 transition-colors" title="Revoke token">
+                                        <TrashIcon />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="mt-3 flex gap-2">
+                            <input
+                                type="text"
+                                value={newTokenName}
+                                onChange={(e) => setNewTokenName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleCreateToken()}
+                                placeholder="Token name, e.g. backup script"
+                                className={inputClass}
+                            />
+                            <button onClick={handleCreateToken} disabled={!newTokenName.trim()} className={buttonClass}>
+                                Create
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Users (admins only) */}
+                    {isAdmin && (
+                        <div>
+                            <h3 className="text-sm font-medium text-white">Users</h3>
+                            <p className="text-xs text-glass-subtext mt-1">Each user has their own favorites, history, progress and playlists.</p>
+
+                            <div className="mt-3 space-y-1.5">
+                                {users.map(user => (
+                                    <div key={user.id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-white/5">
+                                        <span className="text-sm text-white truncate">
+                                            {user.name}
+                                            {user.role === 'admin' && <span className="ml-2 text-[10px] font-bold tracking-wider text-brand-primary">ADMIN</span>}
+                                        </span>
+                                        {user.id !== currentUser.id && (
+                                            <div className="flex items-center gap-3">
+                                                <button onClick={() => handleResetPassword(user)} className="text-[10px] font-bold tracking-wider text-glass-subtext hover:text-white transition-colors">
+                                                    RESET PASSWORD
+                                                </button>
+                                                <button onClick={() => handleDeleteUser(user)} className="text-glass-subtext hover:text-red-400 transition-colors" title="Delete user">
+                                                    <TrashIcon />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="mt-3 flex gap-2">
+                                <input
+                                    type="text"
+                                    value={newUserName}
+                                    onChange={(e) => setNewUserName(e.target.value)}
+                                    placeholder="Name"
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="password"
+                                    autoComplete="new-password"
+                                    value={newUserPassword}
+                                    onChange={(e) => setNewUserPassword(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleAddUser()}
+                                    placeholder="Password"
+                                    className={inputClass}
+                                />
+                                <select
+                                    value={newUserRole}
+                                    onChange={(e) => setNewUserRole(e.target.value as UserRole)}
+                                    className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:border-brand-primary"
+                                >
+                                    <option value="user" className="bg-[#1a1b26]">User</option>
+                                    <option value="admin" className="bg-[#1a1b26]">Admin</option>
+                                </select>
+                                <button onClick={handleAddUser} disabled={!newUserName.trim() || !newUserPassword} className={buttonClass}>
+                                    Add
+                                </button>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Footer */}
@@ -1,42 +1,104 @@
-import React from 'react';
-import { HomeIcon, FolderIcon, HistoryIcon, StarIcon, PlaylistPlusIcon, PlaylistIcon, SettingsIcon, EditIcon, TrashIcon} from './Icons';
-import { FolderStructure, ViewState, Playlist } from '../types';
+import React, { useState, useRef } from 'react';
+import { HomeIcon, FolderIcon, HistoryIcon, StarIcon, PlaylistPlusIcon, PlaylistIcon, SettingsIcon, EditIcon, TrashIcon, TvIcon, SparklesIcon, DownloadIcon, ImportIcon} from './Icons';
+import { FolderStructure, ViewState, Playlist, Library } from '../types';
 
 interface SidebarProps {
   isOpen: boolean;
   folders: FolderStructure;
   playlists: Playlist[];
+  libraries: Library[];
+  selectedLibrary: string | null; // Null shows every library
   viewState: ViewState;
   selectedFolder: string | null;
   selectedPlaylistId: string | null;
   onSelectFolder: (folder: string | null) => void;
+  onSelectLibrary: (id: string | null) => void;
   onSelectView: (view: ViewState) => void;
   onSelectPlaylist: (id: string) => void;
   onCreatePlaylist: () => void;
   onRenamePlaylist: (id: string, currentName: string) => void;
   onDeletePlaylist: (id: string, name: string) => void;
+  onImportPlaylist: (content: string, fileName: string) => void;
   onOpenSettings: () => void;
   onClose: () => void;
 }
 
+// Relative paths play from a copy saved in the media folder, stream URLs from anywhere
+const EXPORT_OPTIONS = [
+  { label: 'M3U8 · file paths', format: 'm3u8', paths: 'relative' },
+  { label: 'M3U8 · stream URLs', format: 'm3u8', paths: 'urls' },
+  { label: 'XSPF · file paths', format: 'xspf', paths: 'relative' },
+  { label: 'XSPF · stream URLs', format: 'xspf', paths: 'urls' },
+  { label: 'JSON · full metadata', format: 'json', paths: 'relative' }
+];
+
+// Download button with a format menu. 'favorites' exports the favorites list.
+const ExportMenu: React.FC<{ playlistId: string }> = ({ playlistId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const exportUrl = (format: string, paths: string) =>
+    `/api/playlists/${encodeURIComponent(playlistId)}/export?format=${format}&paths=${paths}&base=${encodeURIComponent(window.location.origin)}`;
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1.5 text-glass-subtext hover:text-brand-primary transition-colors"
+        title="Export"
+      >
+        <DownloadIcon />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute top-full right-0 mt-1 w-48 glass-panel rounded-xl shadow-2xl py-1 z-50 border border-white/10">
+            {EXPORT_OPTIONS.map(option => (
+              <a
+                key={option.label}
+                href={exportUrl(option.format, option.paths)}
+                download
+                onClick={() => setIsOpen(false)}
+                className="block px-4 py-2 text-xs font-medium text-glass-text hover:bg-white/10 hover:text-white transition-colors"
+              >
+                {option.label}
+              </a>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
 const Sidebar: React.FC<SidebarProps> = ({
   isOpen,
   folders,
   playlists,
+  libraries,
+  selectedLibrary,
   viewState,
   selectedFolder,
   selectedPlaylistId,
   onSelectFolder,
+  onSelectLibrary,
   onSelectView,
   onSelectPlaylist,
   onCreatePlaylist,
   onRenamePlaylist,
   onDeletePlaylist,
+  onImportPlaylist,
   onOpenSettings,
   onClose
 }) => {
   // In Watch view, the sidebar should act as a floating overlay
   const isWatchMode = viewState === ViewState.WATCH;
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const watchLater = playlists.find(p => p.name === 'Watch Later');
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should still import it
+    if (file) onImportPlaylist(await file.text(), file.name);
+  };
 
   return (
     <>
@@ -51,6 +113,21 @@ const Sidebar: React.FC<SidebarProps> = ({
         ${isWatchMode ? 'shadow-2xl' : ''}`}>
 
         <div className="p-4 flex flex-col gap-1">
+          {/* Library Switcher (only once there is more than one) */}
+          {libraries.length > 1 && (
+            <select
+              value={selectedLibrary || ''}
+              onChange={(e) => onSelectLibrary(e.target.value || null)}
+              className="mb-3 w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-sm font-medium text-white outline-none focus:border-brand-primary cursor-pointer"
+              title="Library"
+            >
+              <option value="" className="bg-[#1a1b26]">All Libraries</option>
+              {libraries.map(library => (
+                <option key={library.id} value={library.id} className="bg-[#1a1b26]">{library.name}</option>
+              ))}
+            </select>
+          )}
+
           {/* Main Nav */}
           <div
             onClick={() => { onSelectView(ViewState.HOME); onSelectFolder(null); }}
@@ -88,7 +165,23 @@ const Sidebar: React.FC<SidebarProps> = ({
             <div className={`${viewState === ViewState.FAVORITES ? 'text-yellow-400' : 'group-hover:text-white'}`}>
               <StarIcon />
             </div>
-            <span className="text-sm font-medium tracking-wide">Favorites</span>
+            <span className="text-sm font-medium tracking-wide flex-1">Favorites</span>
+            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+              <ExportMenu playlistId="favorites" />
+            </div>
+          </div>
+
+          <div
+            onClick={() => onSelectView(ViewState.SERIES)}
+            className={`flex items-center gap-3 px-4 py-3 rounded-xl cursor-pointer transition-all duration-100 outline-none focus:outline-none focus:ring-0 tap-highlight-transparent group ${viewState === ViewState.SERIES
+                ? 'bg-gradient-to-r from-brand-primary/20 to-brand-secondary/10 border border-white/5 text-white shadow-lg shadow-brand-primary/5'
+                : 'text-glass-subtext hover:bg-white/5 hover:text-white'
+              }`}
+          >
+            <div className={`${viewState === ViewState.SERIES ? 'text-brand-primary' : 'group-hover:text-white'}`}>
+              <TvIcon />
+            </div>
+            <span className="text-sm font-medium tracking-wide">Series</span>
           </div>
 
           {/* NEW: Watch Later Shortcut */}
@@ -105,15 +198,32 @@ const Sidebar: React.FC<SidebarProps> = ({
             <div className="opacity-70 group-hover:opacity-100 group-hover:text-brand-primary">
               <HistoryIcon />
             </div>
-            <span className="text-sm font-medium tracking-wide">Watch Later</span>
+            <span className="text-sm font-medium tracking-wide flex-1">Watch Later</span>
+            {watchLater && (
+              <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                <ExportMenu playlistId={watchLater.id} />
+              </div>
+            )}
           </div>
 
           {/* Playlists */}
           <div className="mt-6 mb-2 px-4 flex items-center justify-between">
             <h3 className="text-xs font-bold text-glass-subtext uppercase tracking-widest">Playlists</h3>
-            <button onClick={onCreatePlaylist} className="text-glass-subtext hover:text-brand-accent transition-colors" title="Create Playlist">
-              <PlaylistPlusIcon />
-            </button>
+            <div className="flex items-center gap-2">
+              <button onClick={() => importInputRef.current?.click()} className="text-glass-subtext hover:text-brand-accent transition-colors" title="Import Playlist (M3U8, XSPF, JSON)">
+                <ImportIcon />
+              </button>
+              <button onClick={onCreatePlaylist} className="text-glass-subtext hover:text-brand-accent transition-colors" title="Create Playlist">
+                <PlaylistPlusIcon />
+              </button>
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".m3u,.m3u8,.xspf,.json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
           </div>
 
           <div className="flex flex-col gap-1">
@@ -134,17 +244,18 @@ const Sidebar: React.FC<SidebarProps> = ({
                   {/* Clickable Area for Navigation */}
                   <div onClick={() => onSelectPlaylist(playlist.id)} className="flex items-center gap-3 flex-1 overflow-hidden">
                       <div className={`${viewState === ViewState.PLAYLIST && selectedPlaylistId === playlist.id ? 'text-brand-primary' : 'opacity-70 group-hover:opacity-100'}`}>
-                        <PlaylistIcon />
+                        {playlist.rules ? <SparklesIcon /> : <PlaylistIcon />}
                       </div>
                       <span className="text-sm font-medium truncate">{playlist.name}</span>
                   </div>
 
-                  {/* Hover Actions (Rename / Delete) */}
+                  {/* Hover Actions (Export / Rename / Delete) */}
                   <div className="flex items-center gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <ExportMenu playlistId={playlist.id} />
                       <button 
                         onClick={(e) => { e.stopPropagation(); onRenamePlaylist(playlist.id, playlist.name); }} 
                         className="p-1.5 text-glass-subtext hover:text-brand-primary transition-colors"
-                        title="Rename"
+                        title={playlist.rules ? "Edit rules" : "Rename"}
                       >
                           <EditIcon />
                       </button>
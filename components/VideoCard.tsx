@@ -1,25 +1,68 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { VideoFile } from '../types';
 import { formatDuration, formatTimeAgo, formatViews } from '../services/fileService';
-import { PlayIcon, CheckCircleIcon, HistoryIcon } from './Icons';
+import { PlayIcon, CheckCircleIcon, HistoryIcon, XIcon } from './Icons';
 
 interface VideoCardProps {
   video: VideoFile;
   isInWatchLater?: boolean;
   onToggleWatchLater?: () => void;
   onClick: () => void;
+  onPlayAt?: (seconds: number) => void; // Subtitle search hits start at the matching line
+  onChannelClick?: () => void;
+  onRemove?: () => void; // Adds an X to the thumbnail, e.g. to drop it from a shelf
+  removeLabel?: string;
 }
 
+// Hovering a card steps through evenly spaced trickplay frames (skipping the first, often black)
+const PREVIEW_FRAMES = 10;
+const PREVIEW_FRAME_MS = 600;
+
+// Search highlights come back wrapped in these control characters
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const SEARCH_FIELD_LABELS: Record<string, string> = {
+  name: 'Title',
+  channel: 'Channel',
+  description: 'Description',
+  tags: 'Tags',
+  subtitles: 'Subtitles'
+};
+
+// Renders a server highlight string with the matched terms marked
+const HighlightedText = ({ text }: { text: string }) => (
+  <>
+    {text.split(MATCH_START).map((chunk, i) => {
+      if (i === 0) return chunk;
+      const [match, rest] = chunk.split(MATCH_END);
+      return (
+        <React.Fragment key={i}>
+          <mark className="bg-brand-primary/30 text-white rounded-sm px-0.5">{match}</mark>
+          {rest}
+        </React.Fragment>
+      );
+    })}
+  </>
+);
+
 const VideoCard: React.FC<VideoCardProps> = ({
   video,
   isInWatchLater = false,
   onToggleWatchLater,
-  onClick
+  onClick,
+  onPlayAt,
+  onChannelClick,
+  onRemove,
+  removeLabel = 'Remove'
 }) => {
   const [thumbnail, setThumbnail] = useState<string | null>(video.thumbnail || null);
   const [duration, setDuration] = useState<string>(video.durationStr || "0:00");
   const [isAnimating, setIsAnimating] = useState(false);
+  const [previewStep, setPreviewStep] = useState<number | null>(null);
+  const previewTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const trickplay = video.trickplay;
 
   const displayViews = video.viewsCount !== undefined ? `${video.viewsCount} views` : (video.views || formatViews());
 
@@ -79,6 +122,25 @@ const VideoCard: React.FC<VideoCardProps> = ({
     };
   }, [video.url, thumbnail, duration]); // Re-run if any of these are missing/change
 
+  // 3. Hover preview from the sprite sheets, no video decoding needed
+  const startPreview = () => {
+    if (!trickplay || previewTimerRef.current) return;
+    setPreviewStep(1);
+    previewTimerRef.current = setInterval(() => setPreviewStep(step => ((step ?? 0) % (PREVIEW_FRAMES - 1)) + 1), PREVIEW_FRAME_MS);
+  };
+
+  const stopPreview = () => {
+    if (previewTimerRef.current) clearInterval(previewTimerRef.current);
+    previewTimerRef.current = null;
+    setPreviewStep(null);
+  };
+
+  useEffect(() => stopPreview, [video.id]);
+
+  // Without a thumbnail, a frame from the first tenth of the video stands in for one
+  const frameStep = previewStep ?? (!thumbnail && trickplay ? 1 : null);
+  const frameIndex = trickplay && frameStep !== null ? Math.floor((frameStep * trickplay.count) / PREVIEW_FRAMES) : null;
+
   const handleWatchLaterClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsAnimating(true);
@@ -90,17 +152,45 @@ const VideoCard: React.FC<VideoCardProps> = ({
     onClick();
   };
 
+  const handleRemoveClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onRemove) onRemove();
+  };
+
+  // How far the user got, from the saved resume point
+  const progressPercent = video.playbackPosition && video.duration
+    ? Math.min(100, Math.round((video.playbackPosition / video.duration) * 100))
+    : 0;
+
+  // Avatar and channel name open the channel page instead of the video
+  const canOpenChannel = Boolean(video.channel && onChannelClick);
+  const handleChannelClick = (e: React.MouseEvent) => {
+    if (!canOpenChannel) return;
+    e.stopPropagation();
+    onChannelClick!();
+  };
+
+  const searchMatch = video.searchMatch;
+
+  const handleSubtitleHitClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (searchMatch?.subtitle && onPlayAt) onPlayAt(searchMatch.subtitle.start);
+    else onClick();
+  };
+
   return (
     <div className="group cursor-pointer flex flex-col gap-3 relative outline-none focus:outline-none focus:ring-0 tap-highlight-transparent">
       {/* Thumbnail Container */}
       <div
         className="relative aspect-video rounded-2xl overflow-hidden bg-white/5 border border-white/5 shadow-2xl transition-all duration-300 transform group-hover:shadow-[0_0_20px_rgba(99,102,241,0.2)] group-hover:-translate-y-1 outline-none focus:outline-none"
         onClick={handleCardClick}
+        onMouseEnter={startPreview}
+        onMouseLeave={stopPreview}
       >
         {/* CRITICAL FIX: Render the hidden video if we are missing the thumbnail OR the duration.
             Previously, this was '!video.thumbnail', so existing thumbnails blocked duration fixing.
         */}
-        {(!thumbnail || duration === "0:00") && (
+        {(!thumbnail || duration === "0:00") && !trickplay && (
           <video
             ref={videoRef}
             src={video.url}
@@ -112,7 +202,7 @@ const VideoCard: React.FC<VideoCardProps> = ({
         )}
 
         {thumbnail ? (
-          <div className="relative w-full h-full bg-black flex items-center justify-center overflow-hidden">
+          <div className={`relative w-full h-full bg-black flex items-center justify-center overflow-hidden transition-opacity duration-300 ${video.isWatched ? 'opacity-50 group-hover:opacity-100' : ''}`}>
             <img
               src={thumbnail}
               alt=""
@@ -130,6 +220,26 @@ const VideoCard: React.FC<VideoCardProps> = ({
           </div>
         )}
 
+        {trickplay && frameIndex !== null && (() => {
+          const perSheet = trickplay.columns * trickplay.rows;
+          const tile = frameIndex % perSheet;
+          const column = tile % trickplay.columns;
+          const row = Math.floor(tile / trickplay.columns);
+          return (
+            <div className="absolute inset-0 z-10 bg-black flex items-center justify-center">
+              <div
+                className="h-full"
+                style={{
+                  aspectRatio: `${trickplay.width} / ${trickplay.height}`,
+                  backgroundImage: `url(${trickplay.sheets[Math.floor(frameIndex / perSheet)]})`,
+                  backgroundSize: `${trickplay.columns * 100}% ${trickplay.rows * 100}%`,
+                  backgroundPosition: `${(column * 100) / Math.max(trickplay.columns - 1, 1)}% ${(row * 100) / Math.max(trickplay.rows - 1, 1)}%`
+                }}
+              />
+            </div>
+          );
+        })()}
+
         {/* Duration Badge - Only show if valid */}
         {duration && duration !== "0:00" && (
           <div className="absolute bottom-2 right-2 bg-black/60 backdrop-blur-md border border-white/10 px-1.5 py-0.5 rounded-md text-[10px] font-bold tracking-wide text-white z-20">
@@ -137,6 +247,20 @@ const VideoCard: React.FC<VideoCardProps> = ({
           </div>
         )}
 
+        {/* Watched Badge */}
+        {video.isWatched && (
+          <div className="absolute bottom-2 left-2 bg-black/60 backdrop-blur-md border border-white/10 px-1.5 py-0.5 rounded-md text-[10px] font-bold tracking-wide text-white z-20">
+            WATCHED
+          </div>
+        )}
+
+        {/* Watch Progress */}
+        {progressPercent > 0 && (
+          <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20 z-20" title={`${progressPercent}% watched`}>
+            <div className="h-full bg-brand-primary shadow-[0_0_8px_rgba(37,99,235,0.8)]" style={{ width: `${progressPercent}%` }} />
+          </div>
+        )}
+
         {/* Hover Overlay */}
         <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
 
@@ -158,11 +282,24 @@ const VideoCard: React.FC<VideoCardProps> = ({
              </div>
           </div>
         )}
+
+        {/* Remove Button */}
+        {onRemove && (
+          <div
+            className="absolute top-2 left-2 p-1.5 rounded-full z-30 flex items-center justify-center bg-black/60 text-white/70 hover:bg-red-500/80 hover:text-white backdrop-blur-sm transition-all duration-300 opacity-100 lg:opacity-0 lg:group-hover:opacity-100"
+            onClick={handleRemoveClick}
+            title={removeLabel}
+          >
+            <div className="scale-75">
+              <XIcon />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Info Section */}
       <div className="flex gap-3 px-1" onClick={handleCardClick}>
-        <div className="flex-shrink-0 mt-0.5">
+        <div className="flex-shrink-0 mt-0.5" onClick={handleChannelClick}>
           {video.channelAvatar ? (
             <img
               src={video.channelAvatar}
@@ -177,11 +314,11 @@ const VideoCard: React.FC<VideoCardProps> = ({
         </div>
         <div className="flex flex-col gap-0.5 min-w-0">
           <h3 className="text-[15px] font-semibold text-white/90 line-clamp-2 leading-snug group-hover:text-brand-primary transition-colors">
-            {video.name}
+            {searchMatch?.highlights.name ? <HighlightedText text={searchMatch.highlights.name} /> : video.name}
           </h3>
           <div className="text-xs text-glass-subtext flex flex-col gap-0.5">
-            <span className="font-medium hover:text-white transition-colors truncate">
-              {video.channel || video.folder}
+            <span className="font-medium hover:text-white transition-colors truncate" onClick={handleChannelClick}>
+              {searchMatch?.highlights.channel ? <HighlightedText text={searchMatch.highlights.channel} /> : (video.channel || video.folder)}
             </span>
             <div className="flex items-center gap-1.5 opacity-80">
               <span>{displayViews}</span>
@@ -198,6 +335,37 @@ const VideoCard: React.FC<VideoCardProps> = ({
               </span>
             </div>
           </div>
+
+          {/* Search: where the query matched */}
+          {searchMatch && searchMatch.fields.length > 0 && (
+            <div className="mt-1 flex flex-col gap-1 text-xs text-glass-subtext">
+              <div className="flex flex-wrap gap-1">
+                {searchMatch.fields.map(field => (
+                  <span key={field} className="px-1.5 py-0.5 rounded bg-white/5 border border-white/10 text-[10px] uppercase tracking-wide">
+                    {SEARCH_FIELD_LABELS[field] || field}
+                  </span>
+                ))}
+              </div>
+              {searchMatch.highlights.tags && (
+                <span className="truncate"><HighlightedText text={searchMatch.highlights.tags} /></span>
+              )}
+              {searchMatch.highlights.description && (
+                <p className="line-clamp-2 opacity-80"><HighlightedText text={searchMatch.highlights.description} /></p>
+              )}
+              {searchMatch.subtitle && (
+                <button
+                  onClick={handleSubtitleHitClick}
+                  className="text-left flex gap-1.5 items-start hover:text-white transition-colors"
+                  title="Play from this line"
+                >
+                  <span className="flex-shrink-0 font-bold text-brand-accent bg-brand-accent/10 px-1 rounded">
+                    {formatDuration(searchMatch.subtitle.start)}
+                  </span>
+                  <span className="line-clamp-2">&ldquo;<HighlightedText text={searchMatch.subtitle.text} />&rdquo;</span>
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -206,6 +374,39 @@ const VideoCard: React.FC<VideoCardProps> = ({
 
 export default VideoCard;
 
+// Partly watched videos, most recent first, each with its progress bar
+export const ContinueWatchingRow = ({
+  videos,
+  onVideoSelect,
+  onRemove
+}: {
+  videos: VideoFile[],
+  onVideoSelect: (v: VideoFile) => void,
+  onRemove: (v: VideoFile) => void
+}) => {
+  return (
+    <div className="mb-10 animate-fade-in">
+      <div className="flex items-center gap-3 mb-5">
+        <div className="w-1.5 h-6 bg-brand-primary rounded-full shadow-[0_0_12px_rgba(37,99,235,0.8)]"></div>
+        <h3 className="text-xl font-bold text-white tracking-tight">Continue Watching</h3>
+      </div>
+
+      <div className="flex gap-6 overflow-x-auto pt-2 pb-2 pr-4 scrollbar-hide snap-x touch-pan-x">
+        {videos.map((video) => (
+          <div key={video.id} className="flex-none w-64 md:w-72 snap-start">
+            <VideoCard
+              video={video}
+              onClick={() => onVideoSelect(video)}
+              onRemove={() => onRemove(video)}
+              removeLabel="Remove from Continue Watching"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 export const RecommendationRow = ({
   videos,
   onVideoSelect
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { VideoFile, Playlist } from '../types';
-import { LikeIcon, ShareIcon, MenuIcon, CameraIcon, StarIcon, YouTubeIcon, StepBackIcon, StepForwardIcon, PlaylistPlusIcon, NextVideoIcon, HistoryIcon, PrevVideoIcon, SpeedIcon, CCIcon, DownloadIcon, LinkIcon, XIcon, AutoplayIcon, LoopIcon} from './Icons';
+import Hls from 'hls.js';
+import { VideoFile, Playlist, Chapter, MediaInfo, AudioStream, PlaybackMode, LanguagePreferences } from '../types';
+import { LikeIcon, ShareIcon, MenuIcon, CameraIcon, StarIcon, YouTubeIcon, StepBackIcon, StepForwardIcon, PlaylistPlusIcon, NextVideoIcon, HistoryIcon, PrevVideoIcon, SpeedIcon, CCIcon, DownloadIcon, LinkIcon, XIcon, AutoplayIcon, LoopIcon, ChevronDownIcon, CheckCircleIcon} from './Icons';
 import { formatViews, formatTimeAgo } from '../services/fileService';
 
 interface VideoPlayerProps {
@@ -18,6 +19,11 @@ interface VideoPlayerProps {
     onPrevVideo: () => void;
     onCreatePlaylist: () => void;
     onTagSelect: (tag: string) => void;
+    onChannelSelect: (channel: string) => void;
+    canEdit?: boolean; // Metadata and thumbnail changes are admin-only
+    languagePreferences: LanguagePreferences;
+    onLanguagePreferenceChange: (kind: keyof LanguagePreferences, language: string | null) => void;
+    startTime?: number; // Seconds, e.g. from a subtitle search hit. Overrides the saved position.
 }
 
 // Helper to format file size (e.g. 1.5 GB)
@@ -29,6 +35,83 @@ const formatFileSize = (bytes: number) => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
+// 5200000 -> "5.2 Mbps"
+const formatBitrate = (bitsPerSecond: number) => bitsPerSecond >= 1000000
+    ? `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+const CHANNEL_LAYOUTS: Record<number, string> = { 1: 'Mono', 2: 'Stereo', 6: '5.1', 8: '7.1' };
+
+// "AAC 5.1 · ENG · Commentary"
+const formatAudioStream = (stream: AudioStream) => [
+    stream.codec?.toUpperCase(),
+    stream.channels ? CHANNEL_LAYOUTS[stream.channels] || `${stream.channels} ch` : null,
+    stream.language?.toUpperCase(),
+    stream.title
+].filter(Boolean).join(' · ');
+
+// "H264 High · 1920×1080 · 23.976 fps · HDR"
+const formatVideoStream = (info: MediaInfo) => [
+    [info.videoCodec?.toUpperCase(), info.videoProfile].filter(Boolean).join(' '),
+    info.width && info.height ? `${info.width}×${info.height}` : null,
+    info.frameRate ? `${info.frameRate} fps` : null,
+    info.hdr ? 'HDR' : null
+].filter(Boolean).join(' · ');
+
+// "ENG · Commentary" in the track menu
+const formatAudioTrack = (stream: AudioStream) =>
+    [stream.language?.toUpperCase() || `Track ${stream.index + 1}`, stream.title].filter(Boolean).join(' · ');
+
+// The first track in the remembered language, otherwise the first track (what the file plays by default)
+const getPreferredAudioTrack = (info: MediaInfo | null, language: string | null) => {
+    const match = info && language ? info.audioStreams.find(stream => stream.language === language) : undefined;
+    return match ? match.index : 0;
+};
+
+const PLAYBACK_LABELS: Record<PlaybackMode, string> = {
+    direct: 'Direct play',
+    remux: 'Remux (container not supported)',
+    audio: 'Transcode audio',
+    transcode: 'Transcode'
+};
+
+// One tile of a trickplay sprite sheet, from the WebVTT thumbnails track
+interface ThumbnailCue {
+    start: number;
+    end: number;
+    url: string;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// "00:01:05.000 --> 00:01:15.000" followed by "sprite-0.jpg#xywh=160,0,160,90".
+// Image paths are relative to the VTT file.
+const parseThumbnailVtt = (text: string, vttUrl: string): ThumbnailCue[] => {
+    const toSeconds = (time: string) => time.trim().split(':').reduce((acc, part) => acc * 60 + parseFloat(part), 0);
+    const base = new URL(vttUrl, window.location.href);
+    const lines = text.split(/\r?\n/);
+    const cues: ThumbnailCue[] = [];
+
+    lines.forEach((line, i) => {
+        if (!line.includes('-->')) return;
+        const ref = (lines[i + 1] || '').match(/^(.+)#xywh=(\d+),(\d+),(\d+),(\d+)$/);
+        if (!ref) return;
+        const [start, end] = line.split('-->').map(toSeconds);
+        cues.push({ start, end, url: new URL(ref[1], base).href, x: +ref[2], y: +ref[3], w: +ref[4], h: +ref[5] });
+    });
+    return cues;
+};
+
+// Helper to format a chapter start (e.g. 4:05 or 1:02:03)
+const formatTimestamp = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
 // Helper to render description with clickable Links and Timestamps
 const DescriptionRenderer = ({ text, onSeek }: { text: string, onSeek: (time: number) => void }) => {
     if (!text) return <p className="text-glass-text/90 leading-relaxed text-base">No description available.</p>;
@@ -83,53 +166,176 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     onNextVideo,
     onPrevVideo,
     onCreatePlaylist,
-    onTagSelect
+    onTagSelect,
+    onChannelSelect,
+    canEdit = false,
+    languagePreferences,
+    onLanguagePreferenceChange,
+    startTime
 }) => {
     const [showPlaylistMenu, setShowPlaylistMenu] = useState(false);
     const [showShareMenu, setShowShareMenu] = useState(false);
     const [playbackSpeed, setPlaybackSpeed] = useState(1);
-    const [subtitlesEnabled, setSubtitlesEnabled] = useState(false);
     const [isAutoplayEnabled, setIsAutoplayEnabled] = useState(true);
     const [isLooping, setIsLooping] = useState(false);
     const [countdown, setCountdown] = useState<number | null>(null);
     const timerRef = useRef<NodeJS.Timeout | null>(null);
-    const [isTranscoding, setIsTranscoding] = useState(false);
+    // Media info only comes with the single-video response (see the chapters effect), tied to its video like the quality
+    const [mediaInfoState, setMediaInfoState] = useState<{ videoId: string; info: MediaInfo | null }>({ videoId: video.id, info: video.mediaInfo || null });
+    const mediaInfo = mediaInfoState.videoId === video.id ? mediaInfoState.info : video.mediaInfo || null;
+    // 'original' plays the file as is. 'auto' or a rendition name ('720p') plays the HLS transcode.
+    // Tied to the video it was picked for, so the next video starts on the original again,
+    // unless the scanner found that the browser can't play it.
+    const [qualitySetting, setQualitySetting] = useState({ videoId: video.id, value: 'original' });
+    // Audio and subtitle tracks work the same way, starting from the remembered languages
+    const [audioSetting, setAudioSetting] = useState({ videoId: video.id, index: 0 });
+    const audioTrack = audioSetting.videoId === video.id ? audioSetting.index : getPreferredAudioTrack(mediaInfo, languagePreferences.audio);
+    const [subtitleSetting, setSubtitleSetting] = useState<{ videoId: string; index: number | null }>({ videoId: video.id, index: null });
+    const preferredSubtitleTrack = languagePreferences.subtitles && video.subtitles
+        ? video.subtitles.findIndex(sub => sub.lang === languagePreferences.subtitles)
+        : -1;
+    const subtitleTrack = subtitleSetting.videoId === video.id ? subtitleSetting.index : (preferredSubtitleTrack >= 0 ? preferredSubtitleTrack : null);
+    const [showTrackMenu, setShowTrackMenu] = useState(false);
+    const defaultQuality = mediaInfo && mediaInfo.playback !== 'direct' ? 'auto' : 'original';
+    const pickedQuality = qualitySetting.videoId === video.id ? qualitySetting.value : defaultQuality;
+    // Browsers always play the first audio track of a file, any other one comes through HLS
+    const quality = audioTrack > 0 && pickedQuality === 'original' ? 'auto' : pickedQuality;
+    const isHls = quality !== 'original';
+    const [hlsLevels, setHlsLevels] = useState<string[]>([]);
+    const [autoLevel, setAutoLevel] = useState<string | null>(null);
+    const [showQualityMenu, setShowQualityMenu] = useState(false);
+    const hlsRef = useRef<Hls | null>(null);
 
     // State for loading indicators
     const [isProcessingThumb, setIsProcessingThumb] = useState(false);
 
+    // --- CHAPTERS ---
+    const [chapters, setChapters] = useState<Chapter[]>([]);
+    const [showChapters, setShowChapters] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    // The keyboard handler is registered once, so it reads chapters through a ref
+    const chaptersRef = useRef<Chapter[]>([]);
+    chaptersRef.current = chapters;
+
+    // --- TIMELINE PREVIEW (trickplay sprites) ---
+    const [thumbnailCues, setThumbnailCues] = useState<ThumbnailCue[]>([]);
+    const [hoverPreview, setHoverPreview] = useState<{ time: number, x: number, width: number } | null>(null);
+    const trickplayVtt = video.trickplay ? video.trickplay.vtt : null;
+
     const upNextVideo = (nextQueue && nextQueue.length > 0) ? nextQueue[0] : relatedVideos[0];
 
     const videoRef = useRef<HTMLVideoElement>(null);
 
     const lastTapRef = useRef<{ time: number, x: number } | null>(null);
 
+    // Where to continue when switching between the original file and HLS
     const savedTimeRef = useRef<number>(0);
 
-    
+    // Playback time of the last progress report, so the server sees the watched threshold get crossed
+    const lastReportRef = useRef<number>(0);
+
+    const changeQuality = (value: string) => {
+        if (videoRef.current && isHls !== (value !== 'original')) {
+            savedTimeRef.current = videoRef.current.currentTime;
+        }
+        setQualitySetting({ videoId: video.id, value });
+        setShowQualityMenu(false);
+    };
+
+    // Either way the source is reloaded, so playback continues from here
+    const changeAudioTrack = (stream: AudioStream) => {
+        if (videoRef.current) savedTimeRef.current = videoRef.current.currentTime;
+        setAudioSetting({ videoId: video.id, index: stream.index });
+        setShowTrackMenu(false);
+        if (stream.language) onLanguagePreferenceChange('audio', stream.language);
+    };
+
+    const changeSubtitleTrack = (index: number | null) => {
+        setSubtitleSetting({ videoId: video.id, index });
+        setShowTrackMenu(false);
+        // 'und' tracks can be picked, but there is no language in them to remember
+        const lang = index !== null && video.subtitles ? video.subtitles[index].lang : null;
+        if (index === null || (lang && lang !== 'und')) onLanguagePreferenceChange('subtitles', lang);
+    };
 
-    // FIX: Restore time when switching to Transcode stream
+    // The source is set here rather than in JSX: hls.js owns the element's src while it is attached
     useEffect(() => {
-        if (isTranscoding && videoRef.current) {
-            const handleLoaded = () => {
-                if (savedTimeRef.current > 0) {
-                    console.log(`Restoring playback position to ${savedTimeRef.current}s`);
-                    videoRef.current.currentTime = savedTimeRef.current;
-                    // Try to play immediately
-                    videoRef.current.play().catch(e => console.warn("Autoplay blocked after restore", e));
-                }
-            };
-            // Listen for the new stream to be ready, then run the restore function ONCE
-            videoRef.current.addEventListener('loadedmetadata', handleLoaded, { once: true });
-            
+        const vid = videoRef.current;
+        if (!vid) return;
+
+        const resumeAt = savedTimeRef.current;
+        savedTimeRef.current = 0;
+        const restorePosition = () => {
+            if (resumeAt > 0) {
+                vid.currentTime = resumeAt;
+                vid.play().catch(e => console.warn("Autoplay blocked after restore", e));
+            }
+        };
+
+        if (!isHls) {
+            vid.src = video.streamUrl || `/api/stream/${video.id}`;
+            vid.addEventListener('loadedmetadata', restorePosition, { once: true });
+            return () => vid.removeEventListener('loadedmetadata', restorePosition);
+        }
+
+        const masterUrl = `/api/hls/${video.id}/master.m3u8${audioTrack > 0 ? `?audio=${audioTrack}` : ''}`;
+
+        if (Hls.isSupported()) {
+            const hls = new Hls({ startPosition: resumeAt > 0 ? resumeAt : -1 });
+            hlsRef.current = hls;
+
+            hls.on(Hls.Events.MANIFEST_PARSED, () => {
+                setHlsLevels(hls.levels.map(level => level.name || `${level.height}p`));
+                vid.play().catch(e => console.warn("Autoplay blocked", e));
+            });
+            hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+                const level = hls.levels[data.level];
+                setAutoLevel(level ? (level.name || `${level.height}p`) : null);
+            });
+            hls.on(Hls.Events.ERROR, (_event, data) => {
+                if (data.fatal) console.error("HLS playback error:", data.type, data.details);
+            });
+
+            hls.loadSource(masterUrl);
+            hls.attachMedia(vid);
+
             return () => {
-                videoRef.current?.removeEventListener('loadedmetadata', handleLoaded);
+                hls.destroy();
+                hlsRef.current = null;
             };
         }
-    }, [isTranscoding]);
 
-    // State for file size
-    const [fileSize, setFileSize] = useState<string | null>(null);
+        // Safari plays HLS natively (always in Auto)
+        if (vid.canPlayType('application/vnd.apple.mpegurl')) {
+            vid.src = masterUrl;
+            vid.addEventListener('loadedmetadata', restorePosition, { once: true });
+            return () => vid.removeEventListener('loadedmetadata', restorePosition);
+        }
+    }, [video.id, isHls, audioTrack]);
+
+    // Auto = let hls.js pick the level from the measured bandwidth
+    useEffect(() => {
+        const hls = hlsRef.current;
+        if (!hls || !isHls || hlsLevels.length === 0) return;
+        hls.currentLevel = quality === 'auto' ? -1 : hlsLevels.indexOf(quality);
+    }, [quality, hlsLevels]);
+
+    // The quality list comes from the master playlist, fetched the first time the menu opens
+    useEffect(() => {
+        setHlsLevels([]);
+        setAutoLevel(null);
+    }, [video.id]);
+
+    useEffect(() => {
+        if (!showQualityMenu || hlsLevels.length > 0) return;
+        fetch(`/api/hls/${video.id}/master.m3u8`)
+            .then(res => res.ok ? res.text() : '')
+            .then(text => {
+                const names = Array.from(text.matchAll(/NAME="([^"]+)"/g)).map(m => m[1]);
+                if (names.length > 0) setHlsLevels(names);
+            })
+            .catch(e => console.error("Could not load quality list", e));
+    }, [showQualityMenu, video.id]);
 
     // --- NEW: Metadata Editing State ---
     const [isEditing, setIsEditing] = useState(false);
@@ -150,22 +356,51 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         setIsEditing(false);
     }, [video]);
 
-    // FIX: Fetch file size when video loads
+    // Chapters and media info only come with the single-video response, so list entries fetch them here
     useEffect(() => {
-        const fetchSize = async () => {
-            try {
-                // Ask the server for the file header only (lightweight)
-                const res = await fetch(`/api/stream/${video.id}`, { method: 'HEAD' });
-                const size = res.headers.get('content-length');
-                if (size) setFileSize(formatFileSize(parseInt(size)));
-            } catch (e) {
-                console.error("Could not get file size", e);
-                setFileSize(null);
-            }
-        };
-        fetchSize();
+        setChapters(video.chapters || []);
+        setMediaInfoState({ videoId: video.id, info: video.mediaInfo || null });
+        setCurrentTime(0);
+        if (video.chapters && video.mediaInfo !== undefined) return;
+        fetch(`/api/videos/${video.id}`)
+            .then(res => res.ok ? res.json() : null)
+            .then(data => {
+                if (!data) return;
+                if (Array.isArray(data.chapters)) setChapters(data.chapters);
+                // The player moves over to the transcode: keep the position it resumed at
+                const needsHls = data.mediaInfo &&
+                    (data.mediaInfo.playback !== 'direct' || getPreferredAudioTrack(data.mediaInfo, languagePreferences.audio) > 0);
+                if (needsHls && videoRef.current) {
+                    savedTimeRef.current = videoRef.current.currentTime;
+                }
+                setMediaInfoState({ videoId: video.id, info: data.mediaInfo || null });
+            })
+            .catch(e => console.error("Could not load video details", e));
     }, [video.id]);
 
+    useEffect(() => {
+        setThumbnailCues([]);
+        setHoverPreview(null);
+        if (!trickplayVtt) return;
+        fetch(trickplayVtt)
+            .then(res => res.ok ? res.text() : '')
+            .then(text => setThumbnailCues(parseThumbnailVtt(text, trickplayVtt)))
+            .catch(e => console.error("Could not load preview thumbnails", e));
+    }, [video.id, trickplayVtt]);
+
+    const timelineDuration = video.duration || (chapters.length > 0 ? chapters[chapters.length - 1].end || 0 : 0);
+    const hasTimeline = (chapters.length > 0 || Boolean(video.trickplay)) && timelineDuration > 0;
+    // Without chapters the timeline is one long segment
+    const timelineSegments: Chapter[] = chapters.length > 0 ? chapters : [{ start: 0, end: timelineDuration, title: null }];
+    const currentChapterIndex = chapters.reduce((found, c, i) => (c.start <= currentTime ? i : found), -1);
+    const currentChapter = currentChapterIndex >= 0 ? chapters[currentChapterIndex] : null;
+
+    const seekTo = (time: number) => {
+        if (!videoRef.current) return;
+        videoRef.current.currentTime = time;
+        setCurrentTime(time);
+    };
+
     const handleTouchEnd = (e: React.TouchEvent) => {
         const now = Date.now();
         // Use 'touches' if changedTouches is empty, just to be safe
@@ -201,15 +436,27 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
     // Check if this video actually HAS subtitles
     const hasSubtitles = video.subtitles && video.subtitles.length > 0;
+    const audioStreams = mediaInfo ? mediaInfo.audioStreams : [];
+    const hasTrackChoice = hasSubtitles || audioStreams.length > 1;
+
+    // Only the picked track is shown, the others aren't even loaded
+    useEffect(() => {
+        const vid = videoRef.current;
+        if (!vid) return;
+        for (let i = 0; i < vid.textTracks.length; i++) {
+            vid.textTracks[i].mode = i === subtitleTrack ? 'showing' : 'disabled';
+        }
+    }, [video.id, video.subtitles, subtitleTrack]);
 
     useEffect(() => {
         setShowPlaylistMenu(false);
         setShowShareMenu(false);
+        setShowTrackMenu(false);
         setPlaybackSpeed(1);
-        setSubtitlesEnabled(false);
         
         // FIX: Reset saved time so new videos start at 0
         savedTimeRef.current = 0; 
+        lastReportRef.current = 0;
 
         if (videoRef.current) {
             videoRef.current.load();
@@ -250,12 +497,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                 case 'arrowright':
                 case 'l': // YouTube style forward
                     e.preventDefault();
+                    if (e.shiftKey && chaptersRef.current.length > 0) {
+                        // Next chapter
+                        const next = chaptersRef.current.find(c => c.start > vid.currentTime + 0.5);
+                        if (next) vid.currentTime = next.start;
+                        break;
+                    }
                     vid.currentTime = Math.min(vid.duration, vid.currentTime + 10);
                     break;
 
                 case 'arrowleft':
                 case 'j': // YouTube style back
                     e.preventDefault();
+                    if (e.shiftKey && chaptersRef.current.length > 0) {
+                        // Start of this chapter, or the one before if we're already near its start
+                        const starts = chaptersRef.current.map(c => c.start).filter(start => start < vid.currentTime - 3);
+                        vid.currentTime = starts.length > 0 ? starts[starts.length - 1] : 0;
+                        break;
+                    }
                     vid.currentTime = Math.max(0, vid.currentTime - 10);
                     break;
 
@@ -309,15 +568,17 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         fetch(`/api/videos/${video.id}/view`, { method: 'POST' });
     }, [video.id]);
 
-    // Resume playback from saved position
+    // Resume playback from saved position (or jump to the requested start time)
     useEffect(() => {
         const vid = videoRef.current;
-        if (vid && video.playbackPosition && video.playbackPosition > 0) {
+        if (vid && startTime !== undefined && !isNaN(startTime)) {
+            vid.currentTime = startTime;
+        } else if (vid && video.playbackPosition && video.playbackPosition > 0) {
             if (video.duration && video.playbackPosition < video.duration - 10) {
                 vid.currentTime = video.playbackPosition;
             }
         }
-    }, [video.id]);
+    }, [video.id, startTime]);
 
     const captureThumbnail = async () => {
         if (!videoRef.current || isProcessingThumb) return;
@@ -410,24 +671,62 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         }
     };
 
-    const saveProgress = () => {
+    const toggleWatched = async (video: VideoFile) => {
+        const watched = !video.isWatched;
+        try {
+            await fetch(`/api/videos/${video.id}/watched`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ watched })
+            });
+            // The server drops the resume point when marking as watched
+            onUpdateVideo({ ...video, isWatched: watched, playbackPosition: watched ? 0 : video.playbackPosition });
+        } catch (e) {
+            console.error("Failed to update watched state", e);
+        }
+    };
+
+    // Sends the position to the server. Resolves to whether the video now counts as watched.
+    const reportProgress = async (time: number, completed = false): Promise<boolean> => {
+        lastReportRef.current = time;
+        try {
+            const res = await fetch(`/api/videos/${video.id}/progress`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ time, completed })
+            });
+            const data = await res.json();
+            return Boolean(data.watched);
+        } catch (e) {
+            console.error("Save failed", e);
+            return false;
+        }
+    };
+
+    const saveProgress = async () => {
         if (!videoRef.current) return;
         const time = videoRef.current.currentTime;
         // Don't save if we are at the very start
         if (time > 5) {
             // 1. Update Server
-            fetch(`/api/videos/${video.id}/progress`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ time })
-            }).catch(e => console.error("Save failed", e));
+            const watched = await reportProgress(time);
 
             // 2. Update Local State (THIS IS THE FIX)
             // This ensures App.tsx remembers the new time if you navigate away
-            onUpdateVideo({ ...video, playbackPosition: time });
+            onUpdateVideo({ ...video, playbackPosition: time, isWatched: video.isWatched || watched });
         }
     };
 
+    // Report every 30s of playback so the watched flag is set without needing a pause
+    const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+        const time = e.currentTarget.currentTime;
+        if (hasTimeline) setCurrentTime(time);
+        if (Math.abs(time - lastReportRef.current) < 30) return;
+        reportProgress(time).then(watched => {
+            if (watched && !video.isWatched) onUpdateVideo({ ...video, isWatched: true });
+        });
+    };
+
     const cyclePlaybackSpeed = () => {
         const speeds = [0.25, 0.5, 1, 1.25, 1.5, 2];
         const currentIndex = speeds.indexOf(playbackSpeed);
@@ -439,16 +738,6 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         }
     };
 
-    const toggleSubtitles = () => {
-        if (!videoRef.current) return;
-        const newState = !subtitlesEnabled;
-        setSubtitlesEnabled(newState);
-
-        for (let i = 0; i < videoRef.current.textTracks.length; i++) {
-            videoRef.current.textTracks[i].mode = newState ? 'showing' : 'hidden';
-        }
-    };
-
     const handleSaveMetadata = async () => {
         try {
             const res = await fetch(`/api/videos/${video.id}/metadata`, {
@@ -510,35 +799,27 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                         {/* Video Element */}
                         <video
                             ref={videoRef}
-                            src={isTranscoding ? `/api/transcode/${video.id}` : `/api/stream/${video.id}`}
                             controls
                             autoPlay
                             loop={isLooping}
                             crossOrigin="anonymous"
                             className="relative z-10 w-full h-full object-contain"
                             onPause={saveProgress}
+                            onTimeUpdate={handleTimeUpdate}
                             onError={(e) => {
                                 const target = e.target as HTMLVideoElement;
                                 const error = target.error;
 
-                                if (error && (error.code === 4 || error.code === 3) && !isTranscoding) {
-                                    console.log(`Playback error code ${error.code}: switching to transcode stream...`);
-                                    
-                                    // FIX: Save the current time!
-                                    savedTimeRef.current = target.currentTime;
-                                    
-                                    setIsTranscoding(true);
+                                if (error && (error.code === 4 || error.code === 3) && !isHls) {
+                                    console.log(`Playback error code ${error.code}: switching to HLS transcode...`);
+                                    changeQuality('auto');
                                 } else {
                                     console.error("Unrecoverable video error:", error);
                                 }
                             }}
                             onEnded={() => {
-                                fetch(`/api/videos/${video.id}/progress`, {
-                                    method: 'POST',
-                                    headers: { 'Content-Type': 'application/json' },
-                                    body: JSON.stringify({ time: 0 })
-                                });
-                                onUpdateVideo({ ...video, playbackPosition: 0 });
+                                reportProgress(0, true);
+                                onUpdateVideo({ ...video, playbackPosition: 0, isWatched: true });
                                 handleVideoEnded();
                             }}
                         >
@@ -549,7 +830,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                                     src={sub.src}
                                     srcLang={sub.lang}
                                     label={sub.label}
-                                    default={index === 0 && subtitlesEnabled}
+                                    default={index === subtitleTrack}
                                 />
                             ))}
                         </video>
@@ -615,6 +896,88 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                     </div>
                 </div>
 
+                {/* --- TIMELINE: chapter segments, hover previews, current chapter and the full list --- */}
+                {hasTimeline && (
+                    <div className="px-4 md:px-0 mt-4">
+                        <div className="relative" onMouseLeave={() => setHoverPreview(null)}>
+                            {hoverPreview && (() => {
+                                const cue = thumbnailCues.find(c => hoverPreview.time >= c.start && hoverPreview.time < c.end) || thumbnailCues[thumbnailCues.length - 1];
+                                const hoverChapter = chapters.filter(c => c.start <= hoverPreview.time).pop();
+                                const halfWidth = (cue ? cue.w : 80) / 2;
+                                const left = Math.min(Math.max(hoverPreview.x, halfWidth), hoverPreview.width - halfWidth);
+                                return (
+                                    <div className="absolute bottom-full mb-3 -translate-x-1/2 z-20 flex flex-col items-center gap-1 pointer-events-none" style={{ left }}>
+                                        {cue && (
+                                            <div
+                                                className="rounded-lg border border-white/20 shadow-2xl bg-black"
+                                                style={{ width: cue.w, height: cue.h, backgroundImage: `url(${cue.url})`, backgroundPosition: `-${cue.x}px -${cue.y}px` }}
+                                            />
+                                        )}
+                                        {hoverChapter?.title && <span className="max-w-[200px] truncate text-xs font-bold text-white drop-shadow">{hoverChapter.title}</span>}
+                                        <span className="text-xs font-mono text-white bg-black/70 px-2 py-0.5 rounded">{formatTimestamp(hoverPreview.time)}</span>
+                                    </div>
+                                );
+                            })()}
+
+                            <div className="flex gap-1 h-1.5 hover:h-2.5 transition-all">
+                                {timelineSegments.map((c, i) => {
+                                    const end = c.end ?? timelineDuration;
+                                    const length = Math.max(end - c.start, 0);
+                                    const filled = length > 0 ? Math.min(Math.max((currentTime - c.start) / length, 0), 1) : 0;
+                                    // Time under the cursor, from where it sits inside this segment
+                                    const timeAt = (e: React.MouseEvent<HTMLDivElement>) => {
+                                        const rect = e.currentTarget.getBoundingClientRect();
+                                        return c.start + length * ((e.clientX - rect.left) / rect.width);
+                                    };
+                                    return (
+                                        <div
+                                            key={`${c.start}-${i}`}
+                                            onClick={(e) => seekTo(timeAt(e))}
+                                            onMouseMove={(e) => {
+                                                const timeline = e.currentTarget.parentElement!.getBoundingClientRect();
+                                                setHoverPreview({ time: timeAt(e), x: e.clientX - timeline.left, width: timeline.width });
+                                            }}
+                                            className="relative h-full rounded-full bg-white/10 hover:bg-white/20 overflow-hidden cursor-pointer transition-colors"
+                                            style={{ flexGrow: length, flexBasis: 0 }}
+                                        >
+                                            <div className="absolute inset-y-0 left-0 bg-brand-primary" style={{ width: `${filled * 100}%` }} />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        {chapters.length > 0 && (
+                        <>
+                        <button
+                            onClick={() => setShowChapters(!showChapters)}
+                            className="mt-2 flex items-center gap-2 text-sm text-glass-subtext hover:text-white transition-colors"
+                            title="Previous / next chapter: Shift + ← / →"
+                        >
+                            <span className="font-bold text-white/90 truncate">{currentChapter?.title || `Chapter ${Math.max(currentChapterIndex, 0) + 1}`}</span>
+                            <span className="text-xs">{chapters.length} chapters</span>
+                            <span className={`transition-transform ${showChapters ? 'rotate-180' : ''}`}><ChevronDownIcon /></span>
+                        </button>
+
+                        {showChapters && (
+                            <div className="mt-3 max-h-72 overflow-y-auto rounded-xl border border-white/5 bg-white/[0.02] py-1">
+                                {chapters.map((c, i) => (
+                                    <button
+                                        key={`${c.start}-${i}`}
+                                        onClick={() => seekTo(c.start)}
+                                        className={`w-full flex items-center gap-4 px-4 py-2 text-left text-sm transition-colors hover:bg-white/5 ${i === currentChapterIndex ? 'text-brand-primary bg-brand-primary/5' : 'text-glass-text'}`}
+                                    >
+                                        <span className="font-mono text-xs text-brand-accent w-16 flex-shrink-0">{formatTimestamp(c.start)}</span>
+                                        <span className="truncate">{c.title || `Chapter ${i + 1}`}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        </>
+                        )}
+                    </div>
+                )}
+
                 {/* 3. CHANGED: Added px-4 md:px-0 to restore padding for controls on mobile */}
                 <div className="px-4 md:px-0 mt-4 flex flex-wrap items-center justify-between gap-4">
                     <div className="flex items-center gap-2">
@@ -651,21 +1014,86 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                             <span className="text-xs font-bold">{playbackSpeed}x</span>
                         </button>
 
-                        <button
-                            onClick={() => {
-                                const newState = !subtitlesEnabled;
-                                setSubtitlesEnabled(newState);
-                                if (videoRef.current) {
-                                    for (let i = 0; i < videoRef.current.textTracks.length; i++) {
-                                        videoRef.current.textTracks[i].mode = newState ? 'showing' : 'hidden';
-                                    }
-                                }
-                            }}
-                            disabled={!hasSubtitles}
-                            className={`glass-button p-2 rounded-lg transition-colors ${subtitlesEnabled ? 'text-brand-primary bg-brand-primary/10 border-brand-primary/30' : 'text-glass-subtext hover:text-white'} ${!hasSubtitles ? 'opacity-30' : ''}`}
-                        >
-                            <CCIcon />
-                        </button>
+                        {/* Quality (Original file or HLS renditions) */}
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowQualityMenu(!showQualityMenu)}
+                                className={`glass-button px-3 py-2 rounded-lg text-xs font-bold transition-colors ${isHls ? 'text-brand-primary bg-brand-primary/10 border-brand-primary/30' : 'text-glass-subtext hover:text-white'}`}
+                                title="Quality"
+                            >
+                                {quality === 'original' ? 'Original' : quality === 'auto' ? `Auto${autoLevel ? ` (${autoLevel})` : ''}` : quality}
+                            </button>
+                            {showQualityMenu && (
+                                <>
+                                    <div className="fixed inset-0 z-40" onClick={() => setShowQualityMenu(false)} />
+                                    <div className="absolute bottom-full left-0 mb-2 w-40 glass-panel rounded-xl shadow-2xl py-2 z-50 border border-white/10">
+                                        <div className="px-4 py-2 text-[10px] font-bold text-glass-subtext uppercase tracking-widest">Quality</div>
+                                        {[...(audioTrack > 0 ? [] : ['original']), 'auto', ...hlsLevels].map(option => (
+                                            <button
+                                                key={option}
+                                                onClick={() => changeQuality(option)}
+                                                className={`w-full text-left px-4 py-2 text-sm font-medium transition-colors hover:bg-white/10 ${quality === option ? 'text-brand-primary' : 'text-glass-text'}`}
+                                            >
+                                                {option === 'original' ? 'Original' : option === 'auto' ? 'Auto' : option}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+
+                        {/* Audio language and subtitle track */}
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowTrackMenu(!showTrackMenu)}
+                                disabled={!hasTrackChoice}
+                                className={`glass-button p-2 rounded-lg transition-colors ${subtitleTrack !== null ? 'text-brand-primary bg-brand-primary/10 border-brand-primary/30' : 'text-glass-subtext hover:text-white'} ${!hasTrackChoice ? 'opacity-30' : ''}`}
+                                title="Audio & subtitles"
+                            >
+                                <CCIcon />
+                            </button>
+                            {showTrackMenu && (
+                                <>
+                                    <div className="fixed inset-0 z-40" onClick={() => setShowTrackMenu(false)} />
+                                    <div className="absolute bottom-full left-0 mb-2 w-56 max-h-80 overflow-y-auto glass-panel rounded-xl shadow-2xl py-2 z-50 border border-white/10">
+                                        {audioStreams.length > 1 && (
+                                            <>
+                                                <div className="px-4 py-2 text-[10px] font-bold text-glass-subtext uppercase tracking-widest">Audio</div>
+                                                {audioStreams.map(stream => (
+                                                    <button
+                                                        key={stream.index}
+                                                        onClick={() => changeAudioTrack(stream)}
+                                                        className={`w-full text-left px-4 py-2 text-sm font-medium transition-colors hover:bg-white/10 ${audioTrack === stream.index ? 'text-brand-primary' : 'text-glass-text'}`}
+                                                    >
+                                                        {formatAudioTrack(stream)}
+                                                    </button>
+                                                ))}
+                                            </>
+                                        )}
+                                        {hasSubtitles && (
+                                            <>
+                                                <div className="px-4 py-2 text-[10px] font-bold text-glass-subtext uppercase tracking-widest">Subtitles</div>
+                                                <button
+                                                    onClick={() => changeSubtitleTrack(null)}
+                                                    className={`w-full text-left px-4 py-2 text-sm font-medium transition-colors hover:bg-white/10 ${subtitleTrack === null ? 'text-brand-primary' : 'text-glass-text'}`}
+                                                >
+                                                    Off
+                                                </button>
+                                                {(video.subtitles || []).map((sub, index) => (
+                                                    <button
+                                                        key={sub.src}
+                                                        onClick={() => changeSubtitleTrack(index)}
+                                                        className={`w-full text-left px-4 py-2 text-sm font-medium transition-colors hover:bg-white/10 ${subtitleTrack === index ? 'text-brand-primary' : 'text-glass-text'}`}
+                                                    >
+                                                        {sub.label}
+                                                    </button>
+                                                ))}
+                                            </>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </div>
 
                         {/* --- AUTOPLAY TOGGLE --- */}
                         <button
@@ -694,6 +1122,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                             <StepForwardIcon />
                         </button>
 
+                        {canEdit && (
+                        <>
                         <div className="w-px h-6 bg-white/10 mx-1"></div>
 
                         <button
@@ -706,6 +1136,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                                 {isProcessingThumb ? 'Saving...' : (isCustomThumbnail ? 'Remove Thumb' : 'Thumbnail')}
                             </span>
                         </button>
+                        </>
+                        )}
                     </div>
                 </div>
 
@@ -713,7 +1145,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                 <div className="px-4 md:px-0 mt-4 mb-6">
                     <h1 className="text-2xl md:text-3xl font-bold tracking-tight text-white mb-4">{displayName}</h1>
                     <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-6 pb-6 border-b border-white/5">
-                        <div className="flex items-center gap-4">
+                        <div
+                            onClick={() => video.channel && onChannelSelect(video.channel)}
+                            className={`flex items-center gap-4 ${video.channel ? 'cursor-pointer group/channel' : ''}`}
+                        >
                             {/* Channel Avatar */}
                             {video.channelAvatar ? (
                                 <img
@@ -727,7 +1162,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                                 </div>
                             )}
                             <div>
-                                <h3 className="font-bold text-base text-white">
+                                <h3 className="font-bold text-base text-white group-hover/channel:text-brand-primary transition-colors">
                                     {video.channel || "Local Drive"}
                                 </h3>
                                 <p className="text-xs text-glass-subtext font-medium tracking-wide">
@@ -745,6 +1180,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                                 <span>Favorite</span>
                             </button>
 
+                            <button
+                                onClick={() => toggleWatched(video)}
+                                className={`flex items-center gap-2 glass-button px-5 py-2.5 rounded-full text-sm font-medium transition-colors ${video.isWatched ? 'text-brand-primary border-brand-primary/30 bg-brand-primary/10' : ''}`}
+                            >
+                                <CheckCircleIcon checked={video.isWatched} />
+                                <span>{video.isWatched ? 'Watched' : 'Mark watched'}</span>
+                            </button>
+
                             {/* Watch Later */}
                             <button
                                 onClick={() => onToggleWatchLater?.(video.id)}
@@ -783,7 +1226,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                                         <div className="absolute top-full right-0 mt-2 w-52 glass-panel rounded-xl shadow-2xl py-2 z-50 border border-white/10">
                                             <div className="px-4 py-2 text-[10px] font-bold text-glass-subtext uppercase tracking-widest">Select Playlist</div>
                                             <div className="max-h-48 overflow-y-auto">
-                                                {playlists.map(p => {
+                                                {playlists.filter(p => !p.rules).map(p => {
                                                     const isAlreadyIn = p.videoIds.includes(video.id);
                                                     return (
                                                         <div
@@ -842,6 +1285,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                 <div className="mx-4 md:mx-0 bg-white/5 hover:bg-white/10 border border-white/5 rounded-2xl p-4 transition-colors">
                     <div className="flex items-center gap-3 text-sm font-bold mb-3 text-white/90">
                         <span>{views}</span>
+                        {video.sourceViewCount != null && (
+                            <>
+                                <span className="text-white/20">•</span>
+                                <span className="font-medium text-glass-subtext" title={video.sourceLikeCount != null ? `${video.sourceLikeCount.toLocaleString('en-US')} likes` : undefined}>
+                                    {video.sourceViewCount.toLocaleString('en-US')} views on the original
+                                </span>
+                            </>
+                        )}
                         <span className="text-white/20">•</span>
                         <span>
                             {video.releaseDate
@@ -893,7 +1344,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                         </div>
                         
                         {/* Edit / Save Buttons */}
-                        {!isEditing ? (
+                        {!canEdit ? null : !isEditing ? (
                             <button 
                                 onClick={() => setIsEditing(true)}
                                 className="text-xs font-bold text-brand-primary hover:text-white transition-colors opacity-0 group-hover/meta:opacity-100"
@@ -1044,7 +1495,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                             )}
                         </div>
 
-                        {/* Read-Only Info (Filename, Path, Size) */}
+                        {/* Read-Only Info (Filename, Path, Size, Streams) */}
                         <div className="sm:col-span-2 border-t border-white/5 pt-4 mt-2 grid grid-cols-1 sm:grid-cols-2 gap-6 opacity-60 hover:opacity-100 transition-opacity">
                             <div>
                                 <div className="text-glass-subtext mb-1 font-medium">Filename</div>
@@ -1054,8 +1505,46 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
                             </div>
                             <div>
                                 <div className="text-glass-subtext mb-1 font-medium">File Size</div>
-                                <div className="font-mono text-white/80">{fileSize || "Loading..."}</div>
+                                <div className="font-mono text-white/80">{mediaInfo?.fileSize ? formatFileSize(mediaInfo.fileSize) : "Unknown"}</div>
                             </div>
+                            {mediaInfo && (
+                                <>
+                                    <div>
+                                        <div className="text-glass-subtext mb-1 font-medium">Video</div>
+                                        <div className="font-mono text-white/80">{mediaInfo.videoCodec ? formatVideoStream(mediaInfo) : "None"}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-glass-subtext mb-1 font-medium">Container / Bitrate</div>
+                                        <div className="font-mono text-white/80">
+                                            {[mediaInfo.container?.toUpperCase(), mediaInfo.bitrate ? formatBitrate(mediaInfo.bitrate) : null].filter(Boolean).join(' · ') || "Unknown"}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="text-glass-subtext mb-1 font-medium">Audio</div>
+                                        <div className="font-mono text-white/80 space-y-0.5">
+                                            {mediaInfo.audioStreams.length > 0
+                                                ? mediaInfo.audioStreams.map(stream => <div key={stream.index}>{formatAudioStream(stream)}</div>)
+                                                : "None"}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="text-glass-subtext mb-1 font-medium">Embedded Subtitles</div>
+                                        <div className="font-mono text-white/80 space-y-0.5">
+                                            {mediaInfo.subtitleStreams.length > 0
+                                                ? mediaInfo.subtitleStreams.map(stream => (
+                                                    <div key={stream.index}>
+                                                        {[stream.codec?.toUpperCase(), stream.language?.toUpperCase(), stream.title, stream.forced ? 'Forced' : null].filter(Boolean).join(' · ')}
+                                                    </div>
+                                                ))
+                                                : "None"}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="text-glass-subtext mb-1 font-medium">Playback</div>
+                                        <div className="font-mono text-white/80">{PLAYBACK_LABELS[mediaInfo.playback]}</div>
+                                    </div>
+                                </>
+                            )}
                             <div className="sm:col-span-2">
                                 <div className="text-glass-subtext mb-1 font-medium">Full System Path</div>
                                 <div className="font-mono text-white/60 break-all select-all bg-black/20 p-2 rounded border border-white/5">
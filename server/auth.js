@@ -0,0 +1,113 @@
+// ---------------------------------------------------------
+// AUTHENTICATION HELPERS
+// ---------------------------------------------------------
+// Password hashing, opaque tokens and signed media URLs.
+// Users, sessions and API tokens are stored by index.js.
+import crypto from 'crypto';
+import fs from 'fs';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt);
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt>$<hash>" so the scheme can change later without a migration
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password, stored) {
+  if (!stored) return false;
+  const [scheme, salt, expected] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  return expectedBuffer.length === hash.length && crypto.timingSafeEqual(hash, expectedBuffer);
+}
+
+// Session IDs and API tokens. Only their hash is stored, so a leaked database can't be replayed.
+export function generateToken(prefix = '') {
+  return prefix + crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getCookie(req, name) {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch (e) {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// The signing key survives restarts, otherwise every handed-out URL would break
+export function loadSecret(secretPath) {
+  try {
+    const existing = fs.readFileSync(secretPath, 'utf8').trim();
+    if (existing) return existing;
+  } catch (e) {
+    // First start: no key yet
+  }
+  const secret = crypto.randomBytes(32).toString('hex');
+  fs.writeFileSync(secretPath, secret, { mode: 0o600 });
+  return secret;
+}
+
+const decodePath = (pathname) => {
+  try {
+    return decodeURIComponent(pathname);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Signed URLs: ?u=<user>&exp=<unix seconds>&sig=<hmac>. The signature covers the decoded path,
+// so the URL still verifies if the browser re-encodes it.
+export function createUrlSigner(secret) {
+  const hmac = (pathname, userId, exp) => crypto
+    .createHmac('sha256', secret)
+    .update(`${pathname}\n${userId}\n${exp}`)
+    .digest('base64url');
+
+  return {
+    // Expiry is rounded up to the hour, so repeated responses hand out the same (cacheable) URL
+    sign(url, userId, ttlMs) {
+      const [pathname, query] = url.split('?');
+      const decoded = decodePath(pathname);
+      if (decoded === null) return url;
+
+      const exp = Math.ceil((Date.now() + ttlMs) / 3600000) * 3600;
+      const params = new URLSearchParams(query);
+      params.set('u', userId);
+      params.set('exp', String(exp));
+      params.set('sig', hmac(decoded, userId, exp));
+      return `${pathname}?${params.toString()}`;
+    },
+
+    // Returns the user ID the URL was signed for, or null
+    verify(pathname, query) {
+      const { u, exp, sig } = query;
+      if (typeof u !== 'string' || typeof exp !== 'string' || typeof sig !== 'string') return null;
+      if (!/^\d+$/.test(exp) || Number(exp) * 1000 < Date.now()) return null;
+
+      const decoded = decodePath(pathname);
+      if (decoded === null) return null;
+
+      const expected = Buffer.from(hmac(decoded, u, exp));
+      const given = Buffer.from(sig);
+      return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? u : null;
+    }
+  };
+}
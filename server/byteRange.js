@@ -0,0 +1,239 @@
+// ---------------------------------------------------------
+// BYTE-RANGE FILE SERVING
+// ---------------------------------------------------------
+// Shared by /api/stream/:id, /api/download/:id and the /media mount.
+// Handles Range (single and multi-range), conditional requests
+// (If-None-Match, If-Modified-Since, If-Range) and content type detection.
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+
+// Fallback when the file header doesn't tell us anything
+const MIME_TYPES = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.ogv': 'video/ogg',
+  '.ogg': 'video/ogg',
+  '.avi': 'video/x-msvideo',
+  '.wmv': 'video/x-ms-wmv',
+  '.flv': 'video/x-flv',
+  '.ts': 'video/mp2t',
+  '.m2ts': 'video/mp2t',
+  '.mpg': 'video/mpeg',
+  '.mpeg': 'video/mpeg',
+  '.3gp': 'video/3gpp',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.vtt': 'text/vtt; charset=utf-8',
+  '.srt': 'application/x-subrip; charset=utf-8',
+  '.nfo': 'text/xml; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8'
+};
+
+// Requests asking for more ranges than this are served whole
+const MAX_RANGES = 50;
+
+// Sniffed types, keyed by path + version so edited files get checked again
+const typeCache = new Map();
+const TYPE_CACHE_SIZE = 1000;
+
+// Looks at the container's magic bytes: the extension is often wrong (.mp4 that is really MKV)
+function sniffContentType(header) {
+  if (header.length >= 12 && header.toString('latin1', 4, 8) === 'ftyp') {
+    const brand = header.toString('latin1', 8, 12);
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand === 'M4A ') return 'audio/mp4';
+    return 'video/mp4';
+  }
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1A45DFA3) {
+    // EBML: the DocType says whether this is WebM or plain Matroska
+    return header.includes('webm') ? 'video/webm' : 'video/x-matroska';
+  }
+  if (header.toString('latin1', 0, 4) === 'OggS') return 'video/ogg';
+  if (header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 11) === 'AVI') return 'video/x-msvideo';
+  if (header.toString('latin1', 0, 3) === 'FLV') return 'video/x-flv';
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x000001BA) return 'video/mpeg';
+  if (header.length > 188 && header[0] === 0x47 && header[188] === 0x47) return 'video/mp2t';
+  return null;
+}
+
+async function getContentType(filePath, stat) {
+  const fallback = MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+  // Only containers are worth opening the file for
+  if (!fallback.startsWith('video/') && !fallback.startsWith('audio/') && fallback !== 'application/octet-stream') {
+    return fallback;
+  }
+
+  const key = `${filePath}:${stat.size}:${stat.mtimeMs}`;
+  if (typeCache.has(key)) return typeCache.get(key);
+
+  let type = fallback;
+  let handle;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+    const buffer = Buffer.alloc(256);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    type = sniffContentType(buffer.subarray(0, bytesRead)) || fallback;
+  } catch (e) {
+    // Unreadable header: trust the extension
+  } finally {
+    if (handle) await handle.close();
+  }
+
+  if (typeCache.size >= TYPE_CACHE_SIZE) typeCache.delete(typeCache.keys().next().value);
+  typeCache.set(key, type);
+  return type;
+}
+
+// Strong validator from size + mtime (same idea as nginx), so it can be used with If-Range
+function getETag(stat) {
+  return `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+}
+
+function etagMatches(header, etag) {
+  if (header.trim() === '*') return true;
+  return header.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+}
+
+// Whole-second comparison, HTTP dates have no milliseconds
+function notModifiedSince(header, mtime) {
+  const since = Date.parse(header);
+  return !isNaN(since) && Math.floor(mtime.getTime() / 1000) <= Math.floor(since / 1000);
+}
+
+// Returns null to ignore the header (malformed: serve the whole file),
+// [] when nothing is satisfiable (416), or a list of { start, end }.
+function parseRange(header, size) {
+  const match = /^bytes=(.+)$/i.exec(header.trim());
+  if (!match) return null;
+
+  const specs = match[1].split(',').map(s => s.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges = [];
+  for (const spec of specs) {
+    let m;
+    if ((m = /^(\d+)-(\d*)$/.exec(spec))) {
+      const start = parseInt(m[1], 10);
+      const end = m[2] === '' ? size - 1 : Math.min(parseInt(m[2], 10), size - 1);
+      if (m[2] !== '' && parseInt(m[2], 10) < start) return null;
+      if (start < size) ranges.push({ start, end });
+    } else if ((m = /^-(\d+)$/.exec(spec))) {
+      // Suffix range: the last N bytes
+      const length = parseInt(m[1], 10);
+      if (length > 0 && size > 0) ranges.push({ start: Math.max(0, size - length), end: size - 1 });
+    } else {
+      return null;
+    }
+  }
+
+  // Overlapping or touching ranges are merged (RFC 7233 allows coalescing)
+  ranges.sort((a, b) => a.start - b.start);
+  const merged = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+// Serves a file from disk. Sends 404 itself if the file is missing.
+export async function serveFile(req, res, filePath, { downloadName } = {}) {
+  let stat;
+  try {
+    stat = await fs.promises.stat(filePath);
+  } catch (e) {
+    return res.status(404).send('File missing');
+  }
+  if (!stat.isFile()) return res.status(404).send('Not found');
+
+  const size = stat.size;
+  const etag = getETag(stat);
+  const lastModified = stat.mtime.toUTCString();
+  const contentType = await getContentType(filePath, stat);
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', lastModified);
+  if (downloadName) res.attachment(downloadName);
+
+  // --- CONDITIONAL GET ---
+  const ifNoneMatch = req.headers['if-none-match'];
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifNoneMatch ? etagMatches(ifNoneMatch, etag) : (ifModifiedSince && notModifiedSince(ifModifiedSince, stat.mtime))) {
+    return res.status(304).end();
+  }
+
+  // --- RANGES ---
+  // If-Range: only honour the Range if the client's copy is still current
+  let ranges = null;
+  const ifRange = req.headers['if-range'];
+  const rangeStillValid = !ifRange || (ifRange.startsWith('"') ? ifRange === etag : ifRange === lastModified);
+  if (req.headers.range && rangeStillValid) {
+    ranges = parseRange(req.headers.range, size);
+  }
+
+  if (ranges && ranges.length === 0) {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    return res.status(416).end();
+  }
+
+  const isHead = req.method === 'HEAD';
+
+  // Whole file
+  if (!ranges) {
+    res.writeHead(200, { 'Content-Type': contentType, 'Content-Length': size });
+    if (isHead) return res.end();
+    return pipeline(fs.createReadStream(filePath), res).catch(() => {});
+  }
+
+  // Single range
+  if (ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.writeHead(206, {
+      'Content-Type': contentType,
+      'Content-Length': end - start + 1,
+      'Content-Range': `bytes ${start}-${end}/${size}`
+    });
+    if (isHead) return res.end();
+    return pipeline(fs.createReadStream(filePath, { start, end }), res).catch(() => {});
+  }
+
+  // Multiple ranges: multipart/byteranges
+  const boundary = crypto.randomBytes(12).toString('hex');
+  const parts = ranges.map(({ start, end }) => ({
+    start,
+    end,
+    header: `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+  }));
+  const closing = `\r\n--${boundary}--\r\n`;
+  const length = parts.reduce((total, p) => total + Buffer.byteLength(p.header) + (p.end - p.start + 1), 0) + Buffer.byteLength(closing);
+
+  res.writeHead(206, {
+    'Content-Type': `multipart/byteranges; boundary=${boundary}`,
+    'Content-Length': length
+  });
+  if (isHead) return res.end();
+
+  try {
+    for (const part of parts) {
+      res.write(part.header);
+      await pipeline(fs.createReadStream(filePath, { start: part.start, end: part.end }), res, { end: false });
+    }
+    res.end(closing);
+  } catch (e) {
+    // Client went away mid-transfer
+    res.destroy();
+  }
+}
@@ -5,11 +5,21 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import ffmpeg from 'fluent-ffmpeg';
 import cors from 'cors';
+import crypto from 'crypto';
+import { serveFile } from './byteRange.js';
+import { hashPassword, verifyPassword, generateToken, hashToken, getCookie, loadSecret, createUrlSigner } from './auth.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
 const PORT = 3001;
 
+// Behind a reverse proxy every request comes from the proxy's address. TRUST_PROXY makes req.ip
+// the client's again: 'true', a hop count ('1') or the proxy's addresses ('loopback, 10.0.0.0/8').
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY) {
+  app.set('trust proxy', TRUST_PROXY === 'true' ? true : /^\d+$/.test(TRUST_PROXY) ? parseInt(TRUST_PROXY, 10) : TRUST_PROXY);
+}
+
 // ---------------------------------------------------------
 // 1. DIRECTORY SETUP
 // ---------------------------------------------------------
@@ -17,11 +27,13 @@ const mediaDir = process.env.MEDIA_DIR || path.join(process.cwd(), 'media');
 const dataDir = path.join(process.cwd(), 'data');
 const thumbnailsDir = path.join(dataDir, 'thumbnails');
 const subsDir = path.join(dataDir, 'subtitles');
+const hlsDir = path.join(dataDir, 'hls');
 
 if (!fs.existsSync(mediaDir)) fs.mkdirSync(mediaDir, { recursive: true });
 if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
 if (!fs.existsSync(thumbnailsDir)) fs.mkdirSync(thumbnailsDir, { recursive: true });
 if (!fs.existsSync(subsDir)) fs.mkdirSync(subsDir, { recursive: true });
+if (!fs.existsSync(hlsDir)) fs.mkdirSync(hlsDir, { recursive: true });
 
 // ---------------------------------------------------------
 // 2. DATABASE SETUP
@@ -46,18 +58,13 @@ db.exec(`
     channel_avatar TEXT,
     genre TEXT,
     release_date TEXT,
-    playback_position INTEGER DEFAULT 0,
     created_at INTEGER,
-    views INTEGER DEFAULT 0,
-    is_favorite INTEGER DEFAULT 0,
     youtube_id TEXT
   );
   CREATE INDEX IF NOT EXISTS idx_folder ON videos(folder);
   CREATE INDEX IF NOT EXISTS idx_created ON videos(created_at);
 
   CREATE INDEX IF NOT EXISTS idx_release_date ON videos(release_date);
-  CREATE INDEX IF NOT EXISTS idx_views ON videos(views);
-  CREATE INDEX IF NOT EXISTS idx_is_favorite ON videos(is_favorite);
 `);
 
 // Settings Table (NEW)
@@ -88,25 +95,386 @@ db.exec(`
   )
 `);
 
-// History Table (NEW - Persists Watch History)
+// Users Table (Profiles). Favorites, progress, views, history, playlists and settings belong to one user.
 db.exec(`
-  CREATE TABLE IF NOT EXISTS history (
-    video_id TEXT PRIMARY KEY,
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    role TEXT NOT NULL DEFAULT 'user',
+    created_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS user_videos (
+    user_id TEXT NOT NULL,
+    video_id TEXT NOT NULL,
+    is_favorite INTEGER DEFAULT 0,
+    playback_position INTEGER DEFAULT 0,
+    views INTEGER DEFAULT 0,
+    PRIMARY KEY (user_id, video_id),
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY(video_id) REFERENCES videos(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_user_videos_video ON user_videos(video_id);
+
+  CREATE TABLE IF NOT EXISTS user_history (
+    user_id TEXT NOT NULL,
+    video_id TEXT NOT NULL,
     watched_at INTEGER,
+    PRIMARY KEY (user_id, video_id),
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY(video_id) REFERENCES videos(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_user_history_watched ON user_history(user_id, watched_at);
+
+  CREATE TABLE IF NOT EXISTS user_settings (
+    user_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT,
+    PRIMARY KEY (user_id, key),
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+`);
+
+// --- MIGRATIONS: Columns added after the tables were first created ---
+function hasColumn(table, column) {
+  return db.prepare(`PRAGMA table_info(${table})`).all().some(c => c.name === column);
+}
+
+function addColumnIfMissing(table, column, definition) {
+  if (!hasColumn(table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Content fingerprint (size + partial hashes) so moved/renamed files keep their user data
+addColumnIfMissing('videos', 'fingerprint', 'TEXT');
+db.exec('CREATE INDEX IF NOT EXISTS idx_fingerprint ON videos(fingerprint)');
+
+// Playlists are owned by a user
+addColumnIfMissing('playlists', 'user_id', 'TEXT REFERENCES users(id) ON DELETE CASCADE');
+db.exec('CREATE INDEX IF NOT EXISTS idx_playlists_user ON playlists(user_id)');
+// Smart playlists keep their rules as JSON and have no playlist_videos rows
+addColumnIfMissing('playlists', 'rules', 'TEXT');
+
+// Playlists are in the order the user arranged them. Older rows are numbered by when they were added.
+addColumnIfMissing('playlist_videos', 'position', 'INTEGER');
+db.exec(`
+  DELETE FROM playlist_videos WHERE rowid NOT IN (
+    SELECT MIN(rowid) FROM playlist_videos GROUP BY playlist_id, video_id
+  );
+  UPDATE playlist_videos SET position = (
+    SELECT COUNT(*) FROM playlist_videos earlier
+    WHERE earlier.playlist_id = playlist_videos.playlist_id
+      AND (earlier.added_at < playlist_videos.added_at OR (earlier.added_at = playlist_videos.added_at AND earlier.rowid < playlist_videos.rowid))
+  ) WHERE position IS NULL;
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_playlist_videos_unique ON playlist_videos(playlist_id, video_id);
+  CREATE INDEX IF NOT EXISTS idx_playlist_videos_position ON playlist_videos(playlist_id, position);
+`);
+
+// Login: users without a password can't sign in (the first admin sets one during setup)
+addColumnIfMissing('users', 'password_hash', 'TEXT');
+
+// When the saved position last moved, for ordering "Continue Watching"
+addColumnIfMissing('user_videos', 'last_watched_at', 'INTEGER');
+// Set once playback passes the user's threshold, or by hand
+addColumnIfMissing('user_videos', 'is_watched', 'INTEGER DEFAULT 0');
+// When the video was last marked as a favorite, for "Recently Favorited"
+addColumnIfMissing('user_videos', 'favorited_at', 'INTEGER');
+db.exec('CREATE INDEX IF NOT EXISTS idx_user_videos_watched ON user_videos(user_id, last_watched_at)');
+
+// Series and seasons, built by the scanner from tvshow.nfo and the episode NFOs.
+// A series is keyed by the folder its tvshow.nfo lives in.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS series (
+    id TEXT PRIMARY KEY,
+    folder TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    plot TEXT,
+    genre TEXT,
+    premiered TEXT,
+    poster TEXT,
+    created_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS seasons (
+    id TEXT PRIMARY KEY,
+    series_id TEXT NOT NULL,
+    season_number INTEGER NOT NULL,
+    title TEXT,
+    poster TEXT,
+    UNIQUE (series_id, season_number),
+    FOREIGN KEY(series_id) REFERENCES series(id) ON DELETE CASCADE
+  );
+`);
+addColumnIfMissing('videos', 'series_id', 'TEXT REFERENCES series(id) ON DELETE SET NULL');
+addColumnIfMissing('videos', 'season_number', 'INTEGER');
+addColumnIfMissing('videos', 'episode_number', 'INTEGER');
+db.exec('CREATE INDEX IF NOT EXISTS idx_videos_episode ON videos(series_id, season_number, episode_number)');
+
+// Chapters, tagged with where they came from so each source can be refreshed on its own
+db.exec(`
+  CREATE TABLE IF NOT EXISTS chapters (
+    id INTEGER PRIMARY KEY,
+    video_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    start REAL NOT NULL,
+    end REAL,
+    title TEXT,
+    FOREIGN KEY(video_id) REFERENCES videos(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_chapters_video ON chapters(video_id, start);
+`);
+
+// View and like counts from the original upload (yt-dlp info.json), separate from our own views
+addColumnIfMissing('videos', 'source_view_count', 'INTEGER');
+addColumnIfMissing('videos', 'source_like_count', 'INTEGER');
+
+// Seekbar preview sprites (JSON: file version, interval, tile size, sheet count)
+addColumnIfMissing('videos', 'trickplay', 'TEXT');
+
+// Bytes on disk, for sorting by file size
+addColumnIfMissing('videos', 'file_size', 'INTEGER');
+
+// File version ("size:mtime") the metadata was read from, so a file overwritten in place gets a fresh look
+addColumnIfMissing('videos', 'file_version', 'TEXT');
+
+// First video stream, for the resolution and codec filters ('' codec: the file has no video)
+addColumnIfMissing('videos', 'width', 'INTEGER');
+addColumnIfMissing('videos', 'height', 'INTEGER');
+addColumnIfMissing('videos', 'video_codec', 'TEXT');
+
+// Everything else ffprobe tells about a file. Stream lists are JSON.
+// playback: 'direct', 'remux', 'audio' or 'transcode' (see getPlaybackMode)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS media_info (
+    video_id TEXT PRIMARY KEY,
+    container TEXT,
+    video_codec TEXT,
+    video_profile TEXT,
+    width INTEGER,
+    height INTEGER,
+    frame_rate REAL,
+    pixel_format TEXT,
+    hdr INTEGER DEFAULT 0,
+    bitrate INTEGER,
+    file_size INTEGER,
+    audio_streams TEXT,
+    subtitle_streams TEXT,
+    playback TEXT,
+    probed_at INTEGER,
     FOREIGN KEY(video_id) REFERENCES videos(id) ON DELETE CASCADE
   )
 `);
+// Version ("size:mtime") of the file embedded subtitle extraction last failed on. Scans leave it
+// alone until the file changes.
+addColumnIfMissing('videos', 'subtitle_extract_failed', 'TEXT');
+// Same for ffprobe failing on the file in backfillMediaInfo
+addColumnIfMissing('videos', 'media_info_failed', 'TEXT');
+
+// Libraries: named media roots, each scanned on its own schedule.
+// 'default' is MEDIA_DIR and always exists; everything scanned before libraries belongs to it.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS libraries (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    root TEXT NOT NULL,
+    scan_interval INTEGER,
+    hide_hidden INTEGER DEFAULT 0,
+    metadata_precedence TEXT,
+    last_scanned_at INTEGER,
+    created_at INTEGER
+  )
+`);
+db.prepare(`
+  INSERT INTO libraries (id, name, root, created_at) VALUES ('default', 'Library', ?, 0)
+  ON CONFLICT(id) DO UPDATE SET root = excluded.root
+`).run(path.resolve(mediaDir));
+addColumnIfMissing('videos', 'library_id', "TEXT NOT NULL DEFAULT 'default'");
+db.exec('CREATE INDEX IF NOT EXISTS idx_videos_library ON videos(library_id)');
+
+// Browser sessions and API tokens. Only SHA-256 hashes of the secrets are stored.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at INTEGER,
+    last_seen_at INTEGER,
+    expires_at INTEGER,
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+
+  CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at INTEGER,
+    last_used_at INTEGER,
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+`);
+
+// Server-wide settings stay in `settings`, everything else is a per-user preference
+const SERVER_SETTINGS = new Set(['transcodeEncoder', 'metadataPrecedence']);
+
+// Before accounts, everything was shared. The first start creates an admin profile
+// that inherits the old global favorites, progress, views, history, playlists and settings.
+{
+  let owner = db.prepare("SELECT id FROM users WHERE role = 'admin' ORDER BY created_at LIMIT 1").get();
+  if (!owner && db.prepare('SELECT COUNT(*) AS c FROM users').get().c === 0) {
+    owner = { id: crypto.randomUUID() };
+    db.prepare("INSERT INTO users (id, name, role, created_at) VALUES (?, 'Admin', 'admin', ?)").run(owner.id, Date.now());
+    console.log('Created the default admin user, open the web UI to set its password');
+  }
+
+  const migrateSharedData = db.transaction(() => {
+    if (hasColumn('videos', 'is_favorite')) {
+      db.prepare(`
+        INSERT OR IGNORE INTO user_videos (user_id, video_id, is_favorite, playback_position, views)
+        SELECT ?, id, is_favorite, playback_position, views FROM videos
+        WHERE is_favorite = 1 OR playback_position > 0 OR views > 0
+      `).run(owner.id);
+      db.exec(`
+        DROP INDEX IF EXISTS idx_views;
+        DROP INDEX IF EXISTS idx_is_favorite;
+        ALTER TABLE videos DROP COLUMN is_favorite;
+        ALTER TABLE videos DROP COLUMN playback_position;
+        ALTER TABLE videos DROP COLUMN views;
+      `);
+    }
+
+    if (db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'history'").get()) {
+      db.prepare(`
+        INSERT OR IGNORE INTO user_history (user_id, video_id, watched_at)
+        SELECT ?, video_id, watched_at FROM history
+      `).run(owner.id);
+      db.exec('DROP TABLE history');
+    }
+
+    db.prepare('UPDATE playlists SET user_id = ? WHERE user_id IS NULL').run(owner.id);
+
+    const placeholders = [...SERVER_SETTINGS].map(() => '?').join(', ');
+    db.prepare(`
+      INSERT OR IGNORE INTO user_settings (user_id, key, value)
+      SELECT ?, key, value FROM settings WHERE key NOT IN (${placeholders})
+    `).run(owner.id, ...SERVER_SETTINGS);
+    db.prepare(`DELETE FROM settings WHERE key NOT IN (${placeholders})`).run(...SERVER_SETTINGS);
+  });
+
+  if (owner) migrateSharedData();
+}
+
+// --- FULL-TEXT SEARCH (FTS5) ---
+// videos_fts mirrors the searchable columns of videos, keyed by the video ID (videos has a TEXT
+// primary key, so its implicit rowid can change on VACUUM and isn't safe to join on).
+// Triggers keep it in sync, so every UPDATE (scanner, metadata editor) is indexed automatically.
+{
+  // Earlier versions keyed the index by videos.rowid: drop it, the rebuild below refills it
+  const columns = db.prepare('PRAGMA table_info(videos_fts)').all();
+  if (columns.length > 0 && !columns.some(c => c.name === 'video_id')) {
+    db.exec(`
+      DROP TRIGGER IF EXISTS videos_fts_insert;
+      DROP TRIGGER IF EXISTS videos_fts_update;
+      DROP TRIGGER IF EXISTS videos_fts_delete;
+      DROP TABLE videos_fts;
+    `);
+  }
+}
+
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS videos_fts USING fts5(
+    name, channel, description, tags, video_id UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS videos_fts_insert AFTER INSERT ON videos BEGIN
+    INSERT INTO videos_fts (name, channel, description, tags, video_id)
+    VALUES (new.name, new.channel, new.description, new.genre, new.id);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS videos_fts_update AFTER UPDATE OF id, name, channel, description, genre ON videos BEGIN
+    DELETE FROM videos_fts WHERE video_id = old.id;
+    INSERT INTO videos_fts (name, channel, description, tags, video_id)
+    VALUES (new.name, new.channel, new.description, new.genre, new.id);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS videos_fts_delete AFTER DELETE ON videos BEGIN
+    DELETE FROM videos_fts WHERE video_id = old.id;
+  END;
+`);
+
+// Subtitle cues, one row per cue so a hit can point at the moment it is spoken
+db.exec(`
+  CREATE TABLE IF NOT EXISTS subtitle_cues (
+    id INTEGER PRIMARY KEY,
+    video_id TEXT NOT NULL,
+    lang TEXT,
+    start REAL,
+    text TEXT,
+    FOREIGN KEY(video_id) REFERENCES videos(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_subtitle_cues_video ON subtitle_cues(video_id);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS subtitle_cues_fts USING fts5(
+    text, content = 'subtitle_cues', content_rowid = 'id',
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS subtitle_cues_fts_insert AFTER INSERT ON subtitle_cues BEGIN
+    INSERT INTO subtitle_cues_fts (rowid, text) VALUES (new.id, new.text);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS subtitle_cues_fts_delete AFTER DELETE ON subtitle_cues BEGIN
+    INSERT INTO subtitle_cues_fts (subtitle_cues_fts, rowid, text) VALUES ('delete', old.id, old.text);
+  END;
+`);
+
+// foreign_keys stays off, so the ON DELETE CASCADE clauses above never run: every delete removes
+// its dependent rows itself (see VIDEO_TABLES and USER_TABLES). This clears out what earlier
+// versions left behind.
+db.exec(`
+  DELETE FROM playlists WHERE user_id IS NOT NULL AND user_id NOT IN (SELECT id FROM users);
+  DELETE FROM playlist_videos WHERE playlist_id NOT IN (SELECT id FROM playlists) OR video_id NOT IN (SELECT id FROM videos);
+  DELETE FROM user_videos WHERE user_id NOT IN (SELECT id FROM users) OR video_id NOT IN (SELECT id FROM videos);
+  DELETE FROM user_history WHERE user_id NOT IN (SELECT id FROM users) OR video_id NOT IN (SELECT id FROM videos);
+  DELETE FROM user_settings WHERE user_id NOT IN (SELECT id FROM users);
+  DELETE FROM sessions WHERE user_id NOT IN (SELECT id FROM users);
+  DELETE FROM api_tokens WHERE user_id NOT IN (SELECT id FROM users);
+  DELETE FROM chapters WHERE video_id NOT IN (SELECT id FROM videos);
+  DELETE FROM media_info WHERE video_id NOT IN (SELECT id FROM videos);
+  DELETE FROM subtitle_cues WHERE video_id NOT IN (SELECT id FROM videos);
+`);
+
+// Databases created before the index existed (or with an older one) need a one-off rebuild
+{
+  const indexed = db.prepare('SELECT COUNT(*) AS c FROM videos_fts').get().c;
+  const total = db.prepare('SELECT COUNT(*) AS c FROM videos').get().c;
+  const missing = db.prepare('SELECT COUNT(*) AS c FROM videos WHERE id NOT IN (SELECT video_id FROM videos_fts)').get().c;
+  if (indexed !== total || missing > 0) {
+    console.log('Rebuilding search index...');
+    db.exec(`
+      DELETE FROM videos_fts;
+      INSERT INTO videos_fts (name, channel, description, tags, video_id)
+      SELECT name, channel, description, genre, id FROM videos;
+    `);
+  }
+}
 
 // ---------------------------------------------------------
 // HELPER FUNCTIONS
 // ---------------------------------------------------------
+// Literal text inside a LIKE pattern (paired with ESCAPE '\'), so folder 'a_b' doesn't match 'aXb'
+const escapeLike = (text) => String(text).replace(/[\\%_]/g, c => `\\${c}`);
+
 // Helper to parse .nfo XML content manually (without extra libraries)
 function parseNfo(nfoPath) {
   try {
     const content = fs.readFileSync(nfoPath, 'utf-8');
 
     const extract = (tag) => {
-      const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i');
+      // Attributes allowed, but <episode> must not match <episodedetails>
+      const regex = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${tag}>`, 'i');
       const match = content.match(regex);
       return match ? match[1].trim() : null;
     };
@@ -126,12 +494,24 @@ function parseNfo(nfoPath) {
         .trim(); // Removes accidental hidden spaces or new lines
     };
 
+    const number = (tag) => {
+      const value = parseInt(extract(tag), 10);
+      return Number.isNaN(value) ? null : value;
+    };
+
+    // Root element: episodedetails, tvshow, movie...
+    const root = content.match(/<(episodedetails|tvshow|movie|musicvideo)[\s>]/i);
+
     return {
+      kind: root ? root[1].toLowerCase() : null,
       title: decode(extract('title')),
       plot: decode(extract('plot')),
       channel: decode(extract('showtitle')),
       genre: decode(extract('genre')),
       aired: extract('aired'),
+      premiered: extract('premiered'),
+      season: number('season'),
+      episode: number('episode'),
       youtubeId: extract('uniqueid') // NEW: Extract the ID
     };
   } catch (e) {
@@ -139,6 +519,105 @@ function parseNfo(nfoPath) {
   }
 }
 
+// yt-dlp writes <name>.info.json next to each download (--write-info-json)
+function parseInfoJson(jsonPath) {
+  try {
+    const info = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+    if (!info || typeof info !== 'object') return null;
+
+    // "20240131" -> "2024-01-31"
+    const date = info.upload_date || info.release_date;
+    const aired = /^\d{8}$/.test(date || '') ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : null;
+
+    const tags = Array.isArray(info.tags) && info.tags.length > 0 ? info.tags : info.categories;
+    const chapters = Array.isArray(info.chapters)
+      ? info.chapters
+        .filter(c => typeof c.start_time === 'number')
+        .map(c => ({ start: c.start_time, end: typeof c.end_time === 'number' ? c.end_time : null, title: c.title || null }))
+      : [];
+
+    // The ID is only a YouTube ID if it came from YouTube
+    const extractor = info.extractor_key || info.extractor || '';
+    const isYouTube = !extractor || /youtube/i.test(extractor);
+
+    return {
+      title: info.title || info.fulltitle || null,
+      plot: info.description || null,
+      channel: info.channel || info.uploader || null,
+      genre: Array.isArray(tags) && tags.length > 0 ? tags.join(', ') : null,
+      aired,
+      youtubeId: isYouTube && info.id ? String(info.id) : null,
+      chapters,
+      viewCount: Number.isFinite(info.view_count) ? info.view_count : null,
+      likeCount: Number.isFinite(info.like_count) ? info.like_count : null
+    };
+  } catch (e) {
+    return null;
+  }
+}
+
+// --- METADATA PRECEDENCE ---
+// Which source wins when several describe the same video. Highest priority first.
+// Stored as the server setting 'metadataPrecedence', e.g. "nfo,infojson,embedded".
+const METADATA_SOURCES = ['nfo', 'infojson', 'embedded'];
+const DEFAULT_METADATA_PRECEDENCE = ['nfo', 'infojson', 'embedded'];
+
+// Returns the order as an array, or null if the value isn't an ordering of all sources
+function parseMetadataPrecedence(value) {
+  if (typeof value !== 'string') return null;
+  const order = value.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  const isValid = order.length === METADATA_SOURCES.length && METADATA_SOURCES.every(s => order.includes(s));
+  return isValid ? order : null;
+}
+
+// A library can have its own order, otherwise the server setting applies
+function getMetadataPrecedence(library = null) {
+  const own = library && parseMetadataPrecedence(library.metadata_precedence);
+  if (own) return own;
+  const row = db.prepare("SELECT value FROM settings WHERE key = 'metadataPrecedence'").get();
+  return (row && parseMetadataPrecedence(row.value)) || DEFAULT_METADATA_PRECEDENCE;
+}
+
+// "0:00 Intro" / "1:02:03 - Outro" / "(12:30) Q&A" lines in a description.
+// Only counts as a chapter list if it starts at 0:00 and has at least two entries, like YouTube.
+function parseDescriptionChapters(text) {
+  if (!text) return [];
+  const chapters = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^\s*[\[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?\s*(?:[-–—:|]\s*)?(.*)$/);
+    if (!match) continue;
+    const start = match[1].split(':').reduce((acc, part) => acc * 60 + Number(part), 0);
+    if (chapters.length > 0 && start <= chapters[chapters.length - 1].start) continue;
+    chapters.push({ start, end: null, title: match[2].trim() || null });
+  }
+  if (chapters.length < 2 || chapters[0].start !== 0) return [];
+  return chapters;
+}
+
+// Chapters for playback: the highest-priority source that has any, then the description.
+// Open ends run to the next chapter (or the end of the video).
+function getChapters(videoId, duration, library = null) {
+  const order = [...getMetadataPrecedence(library).filter(s => s !== 'nfo'), 'description'];
+  const rows = db.prepare('SELECT source, start, end, title FROM chapters WHERE video_id = ? ORDER BY start').all(videoId);
+  const source = order.find(s => rows.some(r => r.source === s));
+  if (!source) return [];
+
+  const chapters = rows.filter(r => r.source === source);
+  return chapters.map((c, i) => ({
+    start: c.start,
+    end: c.end != null ? c.end : (i + 1 < chapters.length ? chapters[i + 1].start : (duration || null)),
+    title: c.title
+  }));
+}
+
+function saveChapters(videoId, source, chapters) {
+  db.prepare('DELETE FROM chapters WHERE video_id = ? AND source = ?').run(videoId, source);
+  const insertStmt = db.prepare('INSERT INTO chapters (video_id, source, start, end, title) VALUES (?, ?, ?, ?, ?)');
+  for (const chapter of chapters) {
+    insertStmt.run(videoId, source, chapter.start, chapter.end, chapter.title);
+  }
+}
+
 // --- NEW: Helper to find NFO file (Case-Insensitive) ---
 function findNfoFile(videoPath) {
   const dir = path.dirname(videoPath);
@@ -209,6 +688,60 @@ function writeNfo(videoPath, meta) {
   }
 }
 
+// --- LIBRARIES ---
+// Cached rows with resolved roots, deepest root first so nested paths find the closest library
+const DEFAULT_LIBRARY_ID = 'default';
+let libraries = [];
+
+function loadLibraries() {
+  libraries = db.prepare('SELECT * FROM libraries').all()
+    .map(library => ({ ...library, root: path.resolve(library.root) }))
+    .sort((a, b) => b.root.length - a.root.length);
+}
+loadLibraries();
+
+const getLibrary = (id) => libraries.find(library => library.id === id) || null;
+
+// The library a file on disk belongs to, or null if it is outside every root
+function getLibraryForPath(fullPath) {
+  const resolved = path.resolve(fullPath);
+  return libraries.find(library => resolved === library.root || resolved.startsWith(library.root + path.sep)) || null;
+}
+
+// Path inside its library, as shown in scan progress and errors
+function getLibraryRelativePath(fullPath) {
+  const library = getLibraryForPath(fullPath) || getLibrary(DEFAULT_LIBRARY_ID);
+  return path.relative(library.root, fullPath);
+}
+
+// Unique across libraries: the default library uses the plain relative path (so IDs from before
+// libraries stay the same), every other one prefixes its ID. Always uses '/' separators.
+function getLibraryKey(fullPath) {
+  const library = getLibraryForPath(fullPath) || getLibrary(DEFAULT_LIBRARY_ID);
+  const relativePath = path.relative(library.root, fullPath).split(path.sep).join('/');
+  if (library.id === DEFAULT_LIBRARY_ID) return relativePath;
+  return relativePath ? `${library.id}/${relativePath}` : library.id;
+}
+
+// "/media/<path>" for the default library, "/media/<library id>/<path>" for the others
+function toMediaUrl(fullPath) {
+  return '/media/' + getLibraryKey(fullPath).split('/').map(encodeURIComponent).join('/');
+}
+
+// The reverse of getLibraryKey: the root and disk path for a (decoded) path below /media
+function resolveMediaPath(relPath) {
+  const trimmed = relPath.replace(/^\/+/, '');
+  const [first, ...rest] = trimmed.split('/');
+  const library = first !== DEFAULT_LIBRARY_ID ? getLibrary(first) : null;
+  const root = library ? library.root : getLibrary(DEFAULT_LIBRARY_ID).root;
+  return { root, fullPath: path.join(root, library ? rest.join('/') : trimmed) };
+}
+
+// Dotfiles and dot-folders, for libraries that skip them
+function isHiddenPath(fullPath, library) {
+  return path.relative(library.root, fullPath).split(path.sep).some(part => part.startsWith('.'));
+}
+
 function findLocalThumbnail(videoPath) {
   const dir = path.dirname(videoPath);
   const name = path.parse(videoPath).name;
@@ -229,23 +762,31 @@ function findLocalThumbnail(videoPath) {
 
 // NEW: Recursive search for Channel Avatar (poster/avatar/channel.jpg)
 function findChannelAvatar(startDir) {
+  return findImageUpwards(startDir, /^(poster|avatar|channel|folder)\.(jpg|jpeg|png|webp)$/i);
+}
+
+// Channel banner (fanart.jpg, banner.jpg), found the same way as the avatar
+function findChannelBanner(startDir) {
+  return findImageUpwards(startDir, /^(fanart|banner|backdrop)\.(jpg|jpeg|png|webp)$/i);
+}
+
+function findImageUpwards(startDir, pattern) {
   // path.resolve makes sure we have the full, "real" address on the disk
   let currentDir = path.resolve(startDir);
-  const rootDir = path.resolve(mediaDir);
+  const library = getLibraryForPath(currentDir);
+  if (!library) return null;
 
-  // We loop upwards until we go past the media root
-  while (currentDir.startsWith(mediaDir)) {
+  // We loop upwards until we go past the library root
+  while (currentDir === library.root || currentDir.startsWith(library.root + path.sep)) {
     try {
       const files = fs.readdirSync(currentDir);
 
-      // Look for regex match: poster, avatar, channel (case insensitive) with valid extensions
-      const match = files.find(f => /^(poster|avatar|channel|folder)\.(jpg|jpeg|png|webp)$/i.test(f));
+      // Case insensitive, with valid extensions
+      const match = files.find(f => pattern.test(f));
 
       if (match) {
         // Found it! Convert full path to web URL
-        const fullPath = path.join(currentDir, match);
-        const relativePath = path.relative(mediaDir, fullPath);
-        return '/media/' + relativePath.split(path.sep).map(encodeURIComponent).join('/');
+        return toMediaUrl(path.join(currentDir, match));
       }
     } catch (e) {
       // Ignore errors (like permission issues)
@@ -259,6 +800,131 @@ function findChannelAvatar(startDir) {
   return null;
 }
 
+// --- SERIES HELPERS ---
+// A tvshow.nfo marks the root folder of a show. Walks up from the episode, never past its library root.
+function findSeriesRoot(startDir) {
+  let currentDir = path.resolve(startDir);
+  const library = getLibraryForPath(currentDir);
+  if (!library) return null;
+  const rootDir = library.root;
+
+  while (currentDir === rootDir || currentDir.startsWith(rootDir + path.sep)) {
+    try {
+      const match = fs.readdirSync(currentDir).find(f => f.toLowerCase() === 'tvshow.nfo');
+      if (match) return { dir: currentDir, nfoPath: path.join(currentDir, match) };
+    } catch (e) {
+      // Ignore errors (like permission issues)
+    }
+    if (currentDir === rootDir) break;
+    currentDir = path.dirname(currentDir);
+  }
+  return null;
+}
+
+// First image in a folder whose name matches the pattern, as a /media URL
+function findFolderImage(dir, pattern) {
+  try {
+    const match = fs.readdirSync(dir).find(f => pattern.test(f));
+    if (!match) return null;
+    return toMediaUrl(path.join(dir, match));
+  } catch (e) {
+    return null;
+  }
+}
+
+// Fallback when the episode NFO has no <season>/<episode>:
+// "S02E05" or "2x05" in the filename, "Season 2", "S02" or "Specials" for the folder
+function parseEpisodeNumbers(fullPath, seriesDir) {
+  const name = path.parse(fullPath).name;
+  const tagged = name.match(/\bS(\d{1,3})[ ._-]?E(\d{1,4})/i) || name.match(/\b(\d{1,2})x(\d{2,3})\b/i);
+  let season = tagged ? parseInt(tagged[1], 10) : null;
+  const episode = tagged ? parseInt(tagged[2], 10) : null;
+
+  const dir = path.dirname(fullPath);
+  if (season === null && path.resolve(dir) !== path.resolve(seriesDir)) {
+    const folderName = path.basename(dir);
+    const numbered = folderName.match(/^(?:season|series|staffel|saison|s)[ ._-]*(\d{1,3})$/i);
+    if (numbered) season = parseInt(numbered[1], 10);
+    else if (/^specials?$/i.test(folderName)) season = 0;
+  }
+  return { season, episode };
+}
+
+function getSeriesId(seriesDir) {
+  const folder = getLibraryKey(seriesDir) || '.';
+  return `series-${folder.replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+function upsertSeries(seriesRoot) {
+  const id = getSeriesId(seriesRoot.dir);
+  const folder = getLibraryKey(seriesRoot.dir) || '.';
+  const parsed = parseNfo(seriesRoot.nfoPath) || {};
+  const title = parsed.title || path.basename(seriesRoot.dir);
+
+  db.prepare(`
+    INSERT INTO series (id, folder, title, plot, genre, premiered, poster, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title, plot = excluded.plot, genre = excluded.genre,
+      premiered = excluded.premiered, poster = excluded.poster
+  `).run(
+    id,
+    folder,
+    title,
+    parsed.plot || null,
+    parsed.genre || null,
+    (parsed.premiered || parsed.aired || '').split(' ')[0] || null,
+    findFolderImage(seriesRoot.dir, /^(poster|folder|cover)\.(jpg|jpeg|png|webp)$/i),
+    Date.now()
+  );
+  return { id, title };
+}
+
+// Kodi keeps season posters next to tvshow.nfo (season02-poster.jpg, season-specials-poster.jpg),
+// some libraries put a poster inside the season folder instead
+function upsertSeason(seriesId, seriesDir, seasonNumber, episodeDir) {
+  const key = seasonNumber === 0 ? 'specials' : String(seasonNumber).padStart(2, '0');
+  let poster = findFolderImage(seriesDir, new RegExp(`^season-?${key}-poster\\.(jpg|jpeg|png|webp)$`, 'i'));
+  if (!poster && path.resolve(episodeDir) !== path.resolve(seriesDir)) {
+    poster = findFolderImage(episodeDir, /^(poster|folder|cover)\.(jpg|jpeg|png|webp)$/i);
+  }
+
+  db.prepare(`
+    INSERT INTO seasons (id, series_id, season_number, title, poster) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET poster = COALESCE(excluded.poster, poster)
+  `).run(
+    `${seriesId}-s${seasonNumber}`,
+    seriesId,
+    seasonNumber,
+    seasonNumber === 0 ? 'Specials' : `Season ${seasonNumber}`,
+    poster
+  );
+}
+
+// Links a video to its show and season. Returns null for anything outside a series folder.
+// Pass a Map as rootCache to look each folder up only once during a batch.
+function resolveEpisode(fullPath, nfo, rootCache = null) {
+  if (nfo && nfo.kind === 'movie') return null;
+
+  const dir = path.dirname(fullPath);
+  let seriesRoot;
+  if (rootCache && rootCache.has(dir)) {
+    seriesRoot = rootCache.get(dir);
+  } else {
+    seriesRoot = findSeriesRoot(dir);
+    if (rootCache) rootCache.set(dir, seriesRoot);
+  }
+  if (!seriesRoot) return null;
+
+  const series = upsertSeries(seriesRoot);
+  const fromName = parseEpisodeNumbers(fullPath, seriesRoot.dir);
+  const season = nfo && nfo.season !== null ? nfo.season : fromName.season;
+  const episode = nfo && nfo.episode !== null ? nfo.episode : fromName.episode;
+
+  if (season !== null) upsertSeason(series.id, seriesRoot.dir, season, dir);
+  return { seriesId: series.id, seriesTitle: series.title, season, episode };
+}
+
 function generateThumbnail(videoPath, videoId) {
   return new Promise((resolve) => {
     const outputFilename = `${videoId}.jpg`;
@@ -283,21 +949,172 @@ function generateThumbnail(videoPath, videoId) {
   });
 }
 
-// Helper to get video duration
+// Helper to get video duration, container tags, embedded chapters (MKV/MP4) and stream info
 function getVideoMetadata(path) {
   return new Promise((resolve) => {
-    ffmpeg.ffprobe(path, (err, data) => {
-      if (err) return resolve({ duration: 0, tags: {} });
+    ffmpeg.ffprobe(path, ['-show_chapters'], (err, data) => {
+      if (err) return resolve({ duration: 0, tags: {}, chapters: [], mediaInfo: null });
 
       // FFmpeg normalizes most tags, but we default to empty object if missing
       const tags = data.format.tags || {};
       const duration = data.format.duration || 0;
-
-      resolve({ duration, tags });
+      const chapters = (data.chapters || [])
+        .filter(c => Number.isFinite(Number(c.start_time)))
+        .map(c => ({
+          start: Number(c.start_time),
+          end: Number.isFinite(Number(c.end_time)) ? Number(c.end_time) : null,
+          title: c['TAG:title'] || null
+        }));
+
+      resolve({ duration, tags, chapters, mediaInfo: parseMediaInfo(data, path) });
     });
   });
 }
 
+// --- MEDIA INFO ---
+// ffprobe names demuxers, not containers: "mov,mp4,m4a,3gp,3g2,mj2" covers all of those.
+// The extension picks one when it is in the list.
+function getContainerName(formatName, fullPath) {
+  const names = String(formatName || '').split(',').filter(Boolean);
+  const ext = path.extname(fullPath).slice(1).toLowerCase();
+  if (names.includes(ext)) return ext;
+  if (names.includes('matroska')) return 'mkv';
+  return names[0] || null;
+}
+
+// "30000/1001" -> 29.97
+function parseFrameRate(rate) {
+  const [num, den] = String(rate || '').split('/').map(Number);
+  if (!num || !den) return null;
+  return Math.round((num / den) * 1000) / 1000;
+}
+
+// PQ (HDR10, Dolby Vision profile 8) and HLG transfer curves
+const HDR_TRANSFERS = ['smpte2084', 'arib-std-b67'];
+
+// Files tag streams with ISO 639-2 codes, sidecar subtitles are named with ISO 639-1 ones
+// (movie.en.srt). Both end up as 'en', so one remembered language matches either.
+const LANGUAGE_CODES = {
+  eng: 'en', fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', spa: 'es', ita: 'it', jpn: 'ja', por: 'pt',
+  rus: 'ru', chi: 'zh', zho: 'zh', kor: 'ko', dut: 'nl', nld: 'nl', swe: 'sv', nor: 'no', dan: 'da',
+  fin: 'fi', pol: 'pl', tur: 'tr', ara: 'ar', hin: 'hi'
+};
+
+function getStreamLanguage(stream) {
+  const language = stream.tags && stream.tags.language && stream.tags.language.toLowerCase();
+  if (!language || language === 'und') return null;
+  return LANGUAGE_CODES[language] || language;
+}
+
+// Stream indexes count per type (0 is the first audio track), the way ffmpeg's -map 0:a:N does
+function parseMediaInfo(data, fullPath) {
+  const streams = data.streams || [];
+  // Cover art is stored as a one-frame video stream too
+  const video = streams.find(s => s.codec_type === 'video' && !(s.disposition && s.disposition.attached_pic));
+  const disposition = (s, key) => Boolean(s.disposition && s.disposition[key]);
+
+  const info = {
+    container: getContainerName(data.format.format_name, fullPath),
+    videoCodec: video ? video.codec_name || null : null,
+    videoProfile: video && video.profile && video.profile !== 'unknown' ? String(video.profile) : null,
+    width: video ? video.width || null : null,
+    height: video ? video.height || null : null,
+    frameRate: video ? parseFrameRate(video.avg_frame_rate) || parseFrameRate(video.r_frame_rate) : null,
+    pixelFormat: video ? video.pix_fmt || null : null,
+    hdr: Boolean(video && HDR_TRANSFERS.includes(video.color_transfer)),
+    bitrate: parseInt(data.format.bit_rate, 10) || null,
+    fileSize: parseInt(data.format.size, 10) || null,
+    audioStreams: streams.filter(s => s.codec_type === 'audio').map((s, index) => ({
+      index,
+      codec: s.codec_name || null,
+      channels: s.channels || null,
+      language: getStreamLanguage(s),
+      title: (s.tags && s.tags.title) || null,
+      default: disposition(s, 'default')
+    })),
+    subtitleStreams: streams.filter(s => s.codec_type === 'subtitle').map((s, index) => ({
+      index,
+      codec: s.codec_name || null,
+      language: getStreamLanguage(s),
+      title: (s.tags && s.tags.title) || null,
+      default: disposition(s, 'default'),
+      forced: disposition(s, 'forced')
+    }))
+  };
+  info.playback = getPlaybackMode(info);
+  return info;
+}
+
+// Stored with every scan, together with the width, height and codec the filters use
+function saveMediaInfo(videoId, info) {
+  db.prepare(`
+    INSERT OR REPLACE INTO media_info (
+      video_id, container, video_codec, video_profile, width, height, frame_rate, pixel_format, hdr,
+      bitrate, file_size, audio_streams, subtitle_streams, playback, probed_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    videoId, info.container, info.videoCodec, info.videoProfile, info.width, info.height, info.frameRate,
+    info.pixelFormat, info.hdr ? 1 : 0, info.bitrate, info.fileSize,
+    JSON.stringify(info.audioStreams), JSON.stringify(info.subtitleStreams), info.playback, Date.now()
+  );
+  db.prepare('UPDATE videos SET width = ?, height = ?, video_codec = ?, media_info_failed = NULL WHERE id = ?')
+    .run(info.width, info.height, info.videoCodec || '', videoId);
+}
+
+// The stored info in API shape, or null if the video wasn't probed yet
+function getMediaInfo(videoId) {
+  const row = db.prepare('SELECT * FROM media_info WHERE video_id = ?').get(videoId);
+  if (!row) return null;
+  return {
+    container: row.container,
+    videoCodec: row.video_codec,
+    videoProfile: row.video_profile,
+    width: row.width,
+    height: row.height,
+    frameRate: row.frame_rate,
+    pixelFormat: row.pixel_format,
+    hdr: Boolean(row.hdr),
+    bitrate: row.bitrate,
+    fileSize: row.file_size,
+    audioStreams: JSON.parse(row.audio_streams || '[]'),
+    subtitleStreams: JSON.parse(row.subtitle_streams || '[]'),
+    playback: row.playback
+  };
+}
+
+// Turns a stored "/media/..." web path back into a path on disk
+function resolveVideoPath(webPath) {
+  if (!webPath.startsWith('/media')) return webPath;
+  return resolveMediaPath(decodeURIComponent(webPath.replace(/^\/media\//, ''))).fullPath;
+}
+
+// Fingerprint = file size + SHA-1 of the start, middle and end of the file.
+// Cheap enough for big libraries, and stable across renames and moves.
+const FINGERPRINT_CHUNK_SIZE = 64 * 1024;
+
+async function computeFingerprint(fullPath) {
+  const handle = await fs.promises.open(fullPath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const hash = crypto.createHash('sha1');
+
+    const offsets = size <= FINGERPRINT_CHUNK_SIZE * 3
+      ? [0]
+      : [0, Math.floor(size / 2), size - FINGERPRINT_CHUNK_SIZE];
+    const length = size <= FINGERPRINT_CHUNK_SIZE * 3 ? size : FINGERPRINT_CHUNK_SIZE;
+
+    for (const offset of offsets) {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+
+    return `${size}:${hash.digest('hex')}`;
+  } finally {
+    await handle.close();
+  }
+}
+
 // Helper to format seconds to MM:SS
 function formatDuration(seconds) {
   if (!seconds) return "0:00";
@@ -306,7 +1123,18 @@ function formatDuration(seconds) {
   return `${m}:${s < 10 ? '0' : ''}${s}`;
 }
 
-async function processSubtitles(videoPath, videoId) {
+// Embedded subtitle codecs ffmpeg can turn into WebVTT. Bitmap ones (PGS, VobSub) would need OCR.
+const TEXT_SUBTITLE_CODECS = ['subrip', 'ass', 'ssa', 'webvtt', 'mov_text', 'text'];
+
+const getEmbeddedSubtitleFile = (videoId, index) => `${videoId}-s${index}.vtt`;
+
+const getFileVersion = (fullPath) => {
+  const stats = fs.statSync(fullPath);
+  return `${stats.size}:${stats.mtimeMs}`;
+};
+
+// Sidecar .srt/.vtt files next to the video, then the text streams inside it (from parseMediaInfo)
+async function processSubtitles(videoPath, videoId, subtitleStreams = []) {
   const dir = path.dirname(videoPath);
   const nameNoExt = path.parse(videoPath).name;
 
@@ -359,20 +1187,118 @@ async function processSubtitles(videoPath, videoId) {
     }
   }
 
+  // One ffmpeg run reads the file once and writes every missing stream
+  const embedded = subtitleStreams.filter(s => TEXT_SUBTITLE_CODECS.includes(s.codec));
+  const missing = embedded.filter(s => !fs.existsSync(path.join(subsDir, getEmbeddedSubtitleFile(videoId, s.index))));
+  if (missing.length > 0) {
+    let failedVersion = null;
+    try {
+      await new Promise((resolve, reject) => {
+        const command = ffmpeg(videoPath);
+        for (const s of missing) {
+          command.output(path.join(subsDir, getEmbeddedSubtitleFile(videoId, s.index)))
+            .outputOptions([`-map 0:s:${s.index}`, '-c:s webvtt']);
+        }
+        command.on('end', resolve).on('error', reject).run();
+      });
+    } catch (err) {
+      console.error(`Failed to extract embedded subtitles from ${videoPath}:`, err.message);
+      // Don't leave half-written files behind to be mistaken for finished ones
+      missing.forEach(s => fs.rmSync(path.join(subsDir, getEmbeddedSubtitleFile(videoId, s.index)), { force: true }));
+      try {
+        failedVersion = getFileVersion(videoPath);
+      } catch (e) { /* Gone: the janitor removes it */ }
+    }
+    db.prepare('UPDATE videos SET subtitle_extract_failed = ? WHERE id = ?').run(failedVersion, videoId);
+  }
+
+  for (const s of embedded) {
+    const webVttFilename = getEmbeddedSubtitleFile(videoId, s.index);
+    if (!fs.existsSync(path.join(subsDir, webVttFilename))) continue;
+    processedTracks.push({
+      src: `/subtitles/${webVttFilename}`,
+      lang: s.language || 'und',
+      label: s.title || (s.language ? s.language.toUpperCase() : `Track ${s.index + 1}`)
+    });
+  }
+
+  indexSubtitleCues(videoId, processedTracks);
+
   return JSON.stringify(processedTracks);
 }
 
+// "01:02:03.456" or "02:03.456" -> seconds
+function parseVttTimestamp(str) {
+  const parts = str.trim().replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// Minimal WebVTT reader: start time + plain text for every cue
+function parseVttCues(content) {
+  const cues = [];
+  let lastText = null;
+
+  for (const block of content.replace(/\r/g, '').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const text = lines.slice(timingIndex + 1).join(' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    // Auto-generated captions repeat each line across several cues
+    if (!text || text === lastText) continue;
+    lastText = text;
+
+    const start = parseVttTimestamp(lines[timingIndex].split('-->')[0]);
+    if (!isNaN(start)) cues.push({ start, text });
+  }
+  return cues;
+}
+
+// Replaces the searchable cues of a video with the given converted tracks
+function indexSubtitleCues(videoId, tracks) {
+  const insertStmt = db.prepare('INSERT INTO subtitle_cues (video_id, lang, start, text) VALUES (?, ?, ?, ?)');
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM subtitle_cues WHERE video_id = ?').run(videoId);
+    for (const track of tracks) {
+      try {
+        const vttPath = path.join(subsDir, path.basename(track.src));
+        for (const cue of parseVttCues(fs.readFileSync(vttPath, 'utf8'))) {
+          insertStmt.run(videoId, track.lang, cue.start, cue.text);
+        }
+      } catch (e) {
+        console.warn(`Could not index subtitles ${track.src}:`, e.message);
+      }
+    }
+  })();
+}
+
 // ---------------------------------------------------------
 // SCANNING LOGIC
 // ---------------------------------------------------------
-function getFilesRecursively(dir) {
-  let results = [];
+const SUPPORTED_EXTENSIONS = ['.mp4', '.webm', '.ogg', '.mov', '.mkv'];
+
+function isVideoFile(fullPath) {
+  return SUPPORTED_EXTENSIONS.includes(path.extname(fullPath).toLowerCase());
+}
+
+// IDs are derived from the path inside the library (see getLibraryKey)
+function getVideoId(fullPath) {
+  return `vid-${getLibraryKey(fullPath).replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+function getFilesRecursively(dir, skipHidden = false) {
+  let results = [];
   const list = fs.readdirSync(dir);
   list.forEach(file => {
+    if (skipHidden && file.startsWith('.')) return;
     const fullPath = path.join(dir, file);
     const stat = fs.statSync(fullPath);
     if (stat && stat.isDirectory()) {
-      results = results.concat(getFilesRecursively(fullPath));
+      results = results.concat(getFilesRecursively(fullPath, skipHidden));
     } else {
       results.push(fullPath);
     }
@@ -380,215 +1306,1536 @@ function getFilesRecursively(dir) {
   return results;
 }
 
-// GLOBAL STATE: prevent double scanning
-let isScanning = false;
+// GLOBAL STATE: prevent double scanning
+let isScanning = false;
+
+// ---------------------------------------------------------
+// TRICKPLAY (Seekbar Preview Sprites)
+// ---------------------------------------------------------
+// Small frames every few seconds, tiled into JPEG sprite sheets, plus a WebVTT track that
+// maps each time range to its tile ("sprite-0.jpg#xywh=160,0,160,90").
+// Generated one video at a time in the background after scans, so they never hold a scan up.
+const trickplayDir = path.join(thumbnailsDir, 'trickplay');
+const TRICKPLAY_WIDTH = 160;
+const TRICKPLAY_COLUMNS = 10;
+const TRICKPLAY_ROWS = 10;
+const TRICKPLAY_MAX_FRAMES = 1000;
+
+const trickplayQueue = []; // Video IDs waiting for sprites
+let trickplayCurrent = null; // The one being generated right now
+
+// One frame every 10 seconds, at least 20 frames for short clips, at most 1000 for very long videos
+function getTrickplayInterval(duration) {
+  const interval = Math.max(1, Math.round(Math.min(10, duration / 20)));
+  return Math.max(interval, Math.ceil(duration / TRICKPLAY_MAX_FRAMES));
+}
+
+// 00:01:05.000
+function formatVttTime(seconds) {
+  const h = Math.floor(seconds / 3600).toString().padStart(2, '0');
+  const m = Math.floor((seconds % 3600) / 60).toString().padStart(2, '0');
+  const s = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${h}:${m}:${s}`;
+}
+
+function removeTrickplay(id) {
+  fs.rmSync(path.join(trickplayDir, id), { recursive: true, force: true });
+}
+
+async function generateTrickplay(id) {
+  const video = db.prepare('SELECT path FROM videos WHERE id = ?').get(id);
+  if (!video) return;
+
+  const fullPath = resolveVideoPath(video.path);
+  const stats = await fs.promises.stat(fullPath);
+  const version = `${stats.size}:${stats.mtimeMs}`;
+
+  const probe = await new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(fullPath, (err, data) => err ? reject(err) : resolve(data));
+  });
+  const stream = probe.streams.find(s => s.codec_type === 'video' && !(s.disposition && s.disposition.attached_pic));
+  const duration = parseFloat(probe.format.duration) || 0;
+
+  const outDir = path.join(trickplayDir, id);
+  removeTrickplay(id);
+
+  // Audio-only or unreadable: remember that, so it isn't retried on every scan
+  if (!stream || !stream.width || !stream.height || duration <= 0) {
+    db.prepare('UPDATE videos SET trickplay = ? WHERE id = ?').run(JSON.stringify({ version, sheets: 0 }), id);
+    return;
+  }
+
+  const interval = getTrickplayInterval(duration);
+  const width = TRICKPLAY_WIDTH;
+  const height = Math.round((TRICKPLAY_WIDTH * stream.height) / stream.width / 2) * 2;
+  fs.mkdirSync(outDir, { recursive: true });
+
+  await new Promise((resolve, reject) => {
+    ffmpeg(fullPath)
+      .outputOptions([
+        '-vf', `fps=1/${interval},scale=${width}:${height},tile=${TRICKPLAY_COLUMNS}x${TRICKPLAY_ROWS}`,
+        '-an', '-sn',
+        '-q:v', '5',
+        '-start_number', '0'
+      ])
+      .output(path.join(outDir, 'sprite-%d.jpg'))
+      .on('end', resolve)
+      .on('error', reject)
+      .run();
+  });
+
+  const sheets = fs.readdirSync(outDir).filter(f => /^sprite-\d+\.jpg$/.test(f)).length;
+  const perSheet = TRICKPLAY_COLUMNS * TRICKPLAY_ROWS;
+  const count = Math.min(Math.ceil(duration / interval), sheets * perSheet);
+
+  const cues = ['WEBVTT', ''];
+  for (let i = 0; i < count; i++) {
+    const tile = i % perSheet;
+    const x = (tile % TRICKPLAY_COLUMNS) * width;
+    const y = Math.floor(tile / TRICKPLAY_COLUMNS) * height;
+    cues.push(`${formatVttTime(i * interval)} --> ${formatVttTime(Math.min((i + 1) * interval, duration))}`);
+    cues.push(`sprite-${Math.floor(i / perSheet)}.jpg#xywh=${x},${y},${width},${height}`, '');
+  }
+  fs.writeFileSync(path.join(outDir, 'thumbnails.vtt'), cues.join('\n'));
+
+  const info = { version, interval, width, height, columns: TRICKPLAY_COLUMNS, rows: TRICKPLAY_ROWS, count, sheets };
+  const result = db.prepare('UPDATE videos SET trickplay = ? WHERE id = ?').run(JSON.stringify(info), id);
+  // Removed while we were busy
+  if (result.changes === 0) removeTrickplay(id);
+}
+
+function queueTrickplay(ids) {
+  for (const id of ids) {
+    if (id !== trickplayCurrent && !trickplayQueue.includes(id)) trickplayQueue.push(id);
+  }
+  if (!trickplayCurrent) runTrickplayQueue();
+}
+
+async function runTrickplayQueue() {
+  while (trickplayQueue.length > 0) {
+    trickplayCurrent = trickplayQueue.shift();
+    try {
+      await generateTrickplay(trickplayCurrent);
+    } catch (e) {
+      console.warn(`Trickplay failed for ${trickplayCurrent}:`, e.message);
+    }
+  }
+  trickplayCurrent = null;
+}
+
+// Videos without sprites, or whose file changed since they were made
+function backfillTrickplay() {
+  const rows = db.prepare('SELECT id, path, trickplay FROM videos').all();
+  const stale = [];
+
+  for (const row of rows) {
+    try {
+      const stats = fs.statSync(resolveVideoPath(row.path));
+      const info = row.trickplay ? JSON.parse(row.trickplay) : null;
+      if (!info || info.version !== `${stats.size}:${stats.mtimeMs}`) stale.push(row.id);
+    } catch (e) {
+      // File gone (the janitor handles it) or broken JSON (regenerate)
+      if (e instanceof SyntaxError) stale.push(row.id);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.log(`Trickplay: Queued ${stale.length} video(s) for preview sprites.`);
+    queueTrickplay(stale);
+  }
+}
+
+// ---------------------------------------------------------
+// SCAN JOBS (Progress Reporting)
+// ---------------------------------------------------------
+// One job at a time. The last finished job stays around so the UI can show its summary.
+let scanJob = null;
+const scanEventClients = new Set(); // Open Server-Sent Events responses
+let scanBroadcastTimer = null;
+const MAX_REPORTED_ERRORS = 100;
+
+function startScanJob(type) {
+  scanJob = {
+    id: `scan-${Date.now()}`,
+    type, // 'quick' | 'full' | 'watch'
+    status: 'running',
+    phase: 'insert',
+    processed: 0,
+    total: 0,
+    currentFile: null,
+    errors: [],
+    errorCount: 0,
+    summary: { added: 0, updated: 0, removed: 0, moved: 0 },
+    startedAt: Date.now(),
+    finishedAt: null
+  };
+  broadcastScanJob(true);
+}
+
+function updateScanJob(patch, immediate = false) {
+  if (!scanJob) return;
+  Object.assign(scanJob, patch);
+  broadcastScanJob(immediate);
+}
+
+function reportScanError(fullPath, err) {
+  if (!scanJob) return;
+  scanJob.errorCount++;
+  if (scanJob.errors.length < MAX_REPORTED_ERRORS) {
+    scanJob.errors.push({ file: getLibraryRelativePath(fullPath), message: err.message || String(err) });
+  }
+  broadcastScanJob();
+}
+
+function finishScanJob(status) {
+  updateScanJob({ status, phase: null, currentFile: null, finishedAt: Date.now() }, true);
+}
+
+// Per-file updates are throttled, phase changes go out immediately
+function broadcastScanJob(immediate = false) {
+  const send = () => {
+    const payload = `data: ${JSON.stringify(scanJob)}\n\n`;
+    scanEventClients.forEach(client => client.write(payload));
+  };
+
+  if (immediate) {
+    clearTimeout(scanBroadcastTimer);
+    scanBroadcastTimer = null;
+    return send();
+  }
+  if (scanBroadcastTimer) return;
+  scanBroadcastTimer = setTimeout(() => {
+    scanBroadcastTimer = null;
+    send();
+  }, 250);
+}
+
+// --- PHASE 1: INSTANT INSERT (OPTIMIZED) ---
+// Inserts files immediately so they appear in the UI. Returns the IDs that are new.
+function insertVideos(filesToScan) {
+  const insertedIds = new Set();
+  const checkStmt = db.prepare('SELECT id FROM videos WHERE id = ?');
+  const insertStmt = db.prepare(`
+    INSERT INTO videos (id, name, filename, folder, path, created_at, release_date, library_id, file_size, file_version)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET path = excluded.path
+  `);
+
+  const runPhase1 = db.transaction((files) => {
+    for (const fullPath of files) {
+      // Folders are relative to the video's own library root
+      const library = getLibraryForPath(fullPath) || getLibrary(DEFAULT_LIBRARY_ID);
+      const relativePath = path.relative(library.root, fullPath);
+      const id = getVideoId(fullPath);
+
+      const existing = checkStmt.get(id);
+      if (!existing) {
+        const folderName = path.dirname(relativePath) === '.' ? 'Local Library' : path.dirname(relativePath);
+        const webPath = toMediaUrl(fullPath);
+        const stats = fs.statSync(fullPath);
+        const tempDate = new Date(stats.birthtimeMs).toISOString().split('T')[0];
+
+        insertStmt.run(
+          id,
+          path.basename(fullPath, path.extname(fullPath)),
+          path.basename(fullPath),
+          folderName,
+          webPath,
+          Math.floor(stats.birthtimeMs),
+          tempDate,
+          library.id,
+          stats.size,
+          `${stats.size}:${stats.mtimeMs}`
+        );
+        insertedIds.add(id);
+      }
+    }
+  });
+
+  runPhase1(filesToScan);
+  return insertedIds;
+}
+
+// --- PHASE 2: DEEP SCAN (Duration, Thumbs, NFO) ---
+// Processes a single file. Skips it if we have data AND we are NOT forcing a refresh,
+// unless the file was overwritten since (then everything derived from its content is redone).
+// Returns true if the row was updated.
+async function processVideoMetadata(fullPath, forceRefresh = false) {
+  const id = getVideoId(fullPath);
+
+  const existing = db.prepare('SELECT id, duration, thumbnail, file_size, file_version FROM videos WHERE id = ?').get(id);
+  if (!existing) return false;
+
+  let version;
+  try {
+    version = getFileVersion(fullPath);
+  } catch (e) {
+    return false; // Gone in the meantime, the janitor takes care of it
+  }
+  // Rows from before versions were stored only have the size to go by
+  const contentChanged = existing.duration > 0 && (existing.file_version
+    ? existing.file_version !== version
+    : existing.file_size != null && existing.file_size !== Number(version.split(':')[0]));
+  if (!forceRefresh && !contentChanged && existing.duration) return false;
+
+  try {
+    if (contentChanged) {
+      // Stale probe results, sprites and frame grab belong to the old content
+      db.prepare('DELETE FROM media_info WHERE video_id = ?').run(id);
+      db.prepare('UPDATE videos SET trickplay = NULL, fingerprint = ? WHERE id = ?').run(await computeFingerprint(fullPath), id);
+      removeTrickplay(id);
+      if (existing.thumbnail === `/thumbnails/${id}.jpg`) {
+        fs.rmSync(path.join(thumbnailsDir, `${id}.jpg`), { force: true });
+        existing.thumbnail = null;
+      }
+    }
+
+    // A. THUMBNAIL
+    let thumbUrl = null;
+
+    if (existing.thumbnail) {
+      thumbUrl = existing.thumbnail;
+    } else {
+      const localThumb = findLocalThumbnail(fullPath);
+      if (localThumb) {
+        thumbUrl = toMediaUrl(localThumb);
+      } else {
+        thumbUrl = await generateThumbnail(fullPath, id);
+      }
+    }
+
+    // B. DURATION & METADATA
+    const { duration, tags, chapters: embeddedChapters, mediaInfo } = await getVideoMetadata(fullPath);
+
+    // C. SUBTITLES
+    const subtitlesJson = await processSubtitles(fullPath, id, mediaInfo ? mediaInfo.subtitleStreams : []);
+
+    const dir = path.dirname(fullPath);
+    const baseName = path.parse(fullPath).name;
+
+    // D. METADATA STRATEGY
+    const stats = fs.statSync(fullPath);
+    const fileDate = new Date(stats.birthtimeMs).toISOString().split('T')[0];
+
+    let meta = {
+      title: baseName, 
+      plot: null,
+      channel: "Local Library",
+      genre: null,
+      aired: fileDate,
+      youtubeId: null
+    };
+
+    const sources = {
+      embedded: {
+        title: tags.title,
+        plot: tags.description,
+        genre: tags.genre,
+        channel: tags.artist,
+        aired: tags.date ? tags.date.split('T')[0] : null
+      },
+      nfo: null,
+      infojson: null
+    };
+
+    const filesInDir = fs.readdirSync(dir);
+    const findSidecar = (suffix) => {
+      const match = filesInDir.find(f => f.toLowerCase() === `${baseName.toLowerCase()}${suffix}`);
+      return match ? path.join(dir, match) : null;
+    };
+
+    const nfoPath = findSidecar('.nfo');
+    let parsed = null;
+
+    if (nfoPath && fs.existsSync(nfoPath)) {
+      parsed = parseNfo(nfoPath);
+      if (parsed) sources.nfo = { ...parsed, aired: parsed.aired ? parsed.aired.split(' ')[0] : null };
+    }
+
+    const infoJsonPath = findSidecar('.info.json');
+    const info = infoJsonPath ? parseInfoJson(infoJsonPath) : null;
+    sources.infojson = info;
+
+    // Lowest priority first, so every higher source overwrites what it has
+    for (const source of [...getMetadataPrecedence(getLibraryForPath(fullPath))].reverse()) {
+      const found = sources[source];
+      if (!found) continue;
+      for (const field of Object.keys(meta)) {
+        if (found[field]) meta[field] = found[field];
+      }
+    }
+
+    const channelAvatarUrl = findChannelAvatar(path.dirname(fullPath));
+
+    // E. SERIES: episodes below a tvshow.nfo belong to that show
+    const episode = resolveEpisode(fullPath, parsed);
+    if (episode && !(parsed && parsed.channel)) meta.channel = episode.seriesTitle;
+
+    db.prepare(`
+      UPDATE videos SET 
+      duration = ?, thumbnail = ?, subtitles = ?, description = ?, 
+      channel = ?, genre = ?, release_date = ?, channel_avatar = ?,
+      name = ?, youtube_id = ?, series_id = ?, season_number = ?, episode_number = ?,
+      source_view_count = ?, source_like_count = ?, file_size = ?, file_version = ?
+      WHERE id = ?
+    `).run(
+      Math.floor(duration),
+      thumbUrl,
+      subtitlesJson,
+      meta.plot,
+      meta.channel,
+      meta.genre,
+      meta.aired,
+      channelAvatarUrl,
+      meta.title,
+      meta.youtubeId || null,
+      episode ? episode.seriesId : null,
+      episode ? episode.season : null,
+      episode ? episode.episode : null,
+      info ? info.viewCount : null,
+      info ? info.likeCount : null,
+      stats.size,
+      version,
+      id
+    );
+    if (mediaInfo) saveMediaInfo(id, mediaInfo);
+
+    // F. CHAPTERS, one set per source (replaced on every refresh)
+    saveChapters(id, 'embedded', embeddedChapters);
+    saveChapters(id, 'infojson', info ? info.chapters : []);
+    saveChapters(id, 'description', parseDescriptionChapters(meta.plot));
+
+    return true;
+  } catch (e) {
+    console.error(`Failed to process metadata for ${id}`, e);
+    reportScanError(fullPath, e);
+    return false;
+  }
+}
+
+// --- PHASE 2.5: FINGERPRINTS ---
+// Runs before the janitor so every row that might be deleted has one to match against
+async function backfillFingerprints() {
+  const rows = db.prepare('SELECT id, path FROM videos WHERE fingerprint IS NULL').all();
+  const updateStmt = db.prepare('UPDATE videos SET fingerprint = ? WHERE id = ?');
+
+  for (const row of rows) {
+    try {
+      updateStmt.run(await computeFingerprint(resolveVideoPath(row.path)), row.id);
+    } catch (e) {
+      // File already gone (or unreadable): nothing to fingerprint
+    }
+  }
+}
+
+// Rows scanned before file sizes and versions were stored (quick scans don't revisit them)
+function backfillFileSizes() {
+  const rows = db.prepare('SELECT id, path FROM videos WHERE file_size IS NULL OR file_version IS NULL').all();
+  const updateStmt = db.prepare('UPDATE videos SET file_size = ?, file_version = ? WHERE id = ?');
+
+  for (const row of rows) {
+    try {
+      const stats = fs.statSync(resolveVideoPath(row.path));
+      updateStmt.run(stats.size, `${stats.size}:${stats.mtimeMs}`, row.id);
+    } catch (e) {
+      // File already gone, the janitor takes care of it
+    }
+  }
+}
+
+// Rows scanned before media info was stored. Probed one by one, like the deep scan.
+// A file ffprobe can't read is only tried again once it has changed.
+async function backfillMediaInfo() {
+  const rows = db.prepare(`
+    SELECT videos.id, videos.path, videos.media_info_failed FROM videos LEFT JOIN media_info ON media_info.video_id = videos.id
+    WHERE media_info.video_id IS NULL AND videos.duration > 0
+  `).all();
+  const failedStmt = db.prepare('UPDATE videos SET media_info_failed = ? WHERE id = ?');
+
+  for (const row of rows) {
+    const fullPath = resolveVideoPath(row.path);
+    let version;
+    try {
+      version = getFileVersion(fullPath);
+    } catch (e) {
+      continue; // Missing file, the janitor deals with it
+    }
+    if (row.media_info_failed === version) continue;
+
+    const { mediaInfo } = await getVideoMetadata(fullPath);
+    if (mediaInfo) saveMediaInfo(row.id, mediaInfo);
+    else failedStmt.run(version, row.id);
+  }
+}
+
+// Videos scanned before embedded subtitle streams were extracted. One that failed is only
+// tried again once the file has changed (ffmpeg reads the whole file for this).
+async function backfillEmbeddedSubtitles() {
+  const rows = db.prepare(`
+    SELECT videos.id, videos.path, videos.subtitle_extract_failed, media_info.subtitle_streams FROM videos
+    JOIN media_info ON media_info.video_id = videos.id
+    WHERE media_info.subtitle_streams != '[]'
+  `).all();
+  const updateStmt = db.prepare('UPDATE videos SET subtitles = ? WHERE id = ?');
+
+  for (const row of rows) {
+    const streams = JSON.parse(row.subtitle_streams).filter(s => TEXT_SUBTITLE_CODECS.includes(s.codec));
+    if (streams.every(s => fs.existsSync(path.join(subsDir, getEmbeddedSubtitleFile(row.id, s.index))))) continue;
+
+    const fullPath = resolveVideoPath(row.path);
+    try {
+      if (row.subtitle_extract_failed === getFileVersion(fullPath)) continue;
+    } catch (e) {
+      continue; // Missing file, the janitor deals with it
+    }
+    updateStmt.run(await processSubtitles(fullPath, row.id, streams), row.id);
+  }
+}
+
+// Subtitles converted before the search index existed never had their cues indexed
+function backfillSubtitleIndex() {
+  const rows = db.prepare(`
+    SELECT id, subtitles FROM videos
+    WHERE subtitles IS NOT NULL AND subtitles != '[]'
+      AND id NOT IN (SELECT DISTINCT video_id FROM subtitle_cues)
+  `).all();
+
+  for (const row of rows) {
+    try {
+      indexSubtitleCues(row.id, JSON.parse(row.subtitles));
+    } catch (e) {
+      console.warn(`Could not index subtitles for ${row.id}:`, e.message);
+    }
+  }
+}
+
+// Videos scanned before series existed (quick scans skip them), or whose show only got a tvshow.nfo later
+function backfillSeries() {
+  const rows = db.prepare('SELECT id, path, channel FROM videos WHERE series_id IS NULL').all();
+  const updateStmt = db.prepare(`
+    UPDATE videos SET series_id = ?, season_number = ?, episode_number = ?, channel = ? WHERE id = ?
+  `);
+  const rootCache = new Map();
+
+  for (const row of rows) {
+    const fullPath = resolveVideoPath(row.path);
+    const dir = path.dirname(fullPath);
+    if (!rootCache.has(dir)) rootCache.set(dir, findSeriesRoot(dir));
+    if (!rootCache.get(dir)) continue;
+
+    const nfoPath = findNfoFile(fullPath);
+    const nfo = nfoPath ? parseNfo(nfoPath) : null;
+    const episode = resolveEpisode(fullPath, nfo, rootCache);
+    if (!episode) continue;
+
+    const channel = nfo && nfo.channel ? row.channel : episode.seriesTitle;
+    updateStmt.run(episode.seriesId, episode.season, episode.episode, channel, row.id);
+  }
+}
+
+// Shows and seasons without episodes left (deleted, moved, or the tvshow.nfo went away)
+function pruneSeries() {
+  db.exec(`
+    DELETE FROM seasons WHERE NOT EXISTS (
+      SELECT 1 FROM videos WHERE videos.series_id = seasons.series_id AND videos.season_number = seasons.season_number
+    );
+    DELETE FROM series WHERE NOT EXISTS (SELECT 1 FROM videos WHERE videos.series_id = series.id);
+  `);
+}
+
+// Moves favorites, progress, views, history and playlist membership onto the new row
+function transferUserData(fromId, toId) {
+  const from = db.prepare('SELECT * FROM videos WHERE id = ?').get(fromId);
+  if (!from) return;
+
+  db.prepare('UPDATE videos SET created_at = MIN(COALESCE(created_at, ?), ?) WHERE id = ?')
+    .run(from.created_at, from.created_at, toId);
+
+  // Every user's favorite flag, progress and views
+  db.prepare(`
+    INSERT INTO user_videos (user_id, video_id, is_favorite, playback_position, views, last_watched_at, is_watched, favorited_at)
+    SELECT user_id, ?, is_favorite, playback_position, views, last_watched_at, is_watched, favorited_at FROM user_videos WHERE video_id = ?
+    ON CONFLICT(user_id, video_id) DO UPDATE SET
+      is_favorite = MAX(is_favorite, excluded.is_favorite),
+      favorited_at = MAX(COALESCE(favorited_at, 0), COALESCE(excluded.favorited_at, 0)),
+      views = views + excluded.views,
+      playback_position = CASE WHEN playback_position > 0 THEN playback_position ELSE excluded.playback_position END,
+      last_watched_at = MAX(COALESCE(last_watched_at, 0), COALESCE(excluded.last_watched_at, 0)),
+      is_watched = MAX(COALESCE(is_watched, 0), COALESCE(excluded.is_watched, 0))
+  `).run(toId, fromId);
+
+  // Keep a custom thumbnail, renamed to match the new ID
+  if (from.thumbnail && from.thumbnail.includes('-custom.jpg')) {
+    const oldFile = path.join(thumbnailsDir, `${fromId}-custom.jpg`);
+    const newFile = path.join(thumbnailsDir, `${toId}-custom.jpg`);
+    try {
+      fs.renameSync(oldFile, newFile);
+      db.prepare('UPDATE videos SET thumbnail = ? WHERE id = ?').run(`/thumbnails/${toId}-custom.jpg`, toId);
+    } catch (e) {
+      console.warn(`Could not carry over custom thumbnail for ${fromId}`, e.message);
+    }
+  }
+
+  db.prepare(`
+    INSERT INTO user_history (user_id, video_id, watched_at)
+    SELECT user_id, ?, watched_at FROM user_history WHERE video_id = ?
+    ON CONFLICT(user_id, video_id) DO UPDATE SET watched_at = MAX(watched_at, excluded.watched_at)
+  `).run(toId, fromId);
+
+  // Anything left behind (already in that playlist) is deleted with the old video in removeVideos
+  db.prepare(`
+    UPDATE playlist_videos SET video_id = ?
+    WHERE video_id = ? AND playlist_id NOT IN (SELECT playlist_id FROM playlist_videos WHERE video_id = ?)
+  `).run(toId, fromId, toId);
+}
+
+// Rows that belong to a video and go when it does
+const VIDEO_TABLES = ['playlist_videos', 'user_videos', 'user_history', 'chapters', 'media_info', 'subtitle_cues'];
+
+// --- PHASE 3: THE JANITOR (Garbage Collection) ---
+// If a missing file has a twin on disk (same fingerprint), it was moved or renamed:
+// carry its user data over instead of just dropping it.
+function removeVideos(ids) {
+  let moved = 0;
+  const deleteStmt = db.prepare('DELETE FROM videos WHERE id = ?');
+  const deleteDependentStmts = VIDEO_TABLES.map(table => db.prepare(`DELETE FROM ${table} WHERE video_id = ?`));
+  const fingerprintStmt = db.prepare('SELECT fingerprint FROM videos WHERE id = ?');
+  const twinsStmt = db.prepare('SELECT id, path FROM videos WHERE fingerprint = ? AND id != ?');
+
+  const runJanitor = db.transaction((idList) => {
+    const deleting = new Set(idList);
+
+    for (const id of idList) {
+      const row = fingerprintStmt.get(id);
+      const twin = row && row.fingerprint
+        ? twinsStmt.all(row.fingerprint, id).find(t => !deleting.has(t.id) && fs.existsSync(resolveVideoPath(t.path)))
+        : null;
+
+      if (twin) {
+        transferUserData(id, twin.id);
+        console.log(`Detected move: ${id} -> ${twin.id}`);
+        moved++;
+      }
+
+      deleteDependentStmts.forEach(stmt => stmt.run(id));
+      deleteStmt.run(id);
+      console.log(`Removed missing video: ${id}`);
+    }
+  });
+
+  runJanitor(ids);
+  ids.forEach(removeHlsCache);
+  ids.forEach(removeTrickplay);
+  return { removed: ids.length - moved, moved };
+}
+
+// Scans every library, or just the ones in libraryIds
+async function scanMedia(forceRefresh = false, libraryIds = null) {
+  if (isScanning) return;
+  isScanning = true;
+  startScanJob(forceRefresh ? 'full' : 'quick');
+  console.log('Starting background scan...');
+
+  const scanned = libraries.filter(library => !libraryIds || libraryIds.includes(library.id));
+
+  try {
+    // Filter strictly for video files
+    const filesByLibrary = new Map();
+    for (const library of scanned) {
+      try {
+        filesByLibrary.set(library.id, getFilesRecursively(library.root, Boolean(library.hide_hidden)).filter(isVideoFile));
+      } catch (e) {
+        // Root missing or unreadable (unmounted drive): leave this library's rows alone
+        console.warn(`Scan: Can't read library "${library.name}" (${library.root}):`, e.message);
+        reportScanError(library.root, e);
+        filesByLibrary.set(library.id, []);
+      }
+    }
+    const validFiles = [...filesByLibrary.values()].flat();
+
+    console.log(`Found ${validFiles.length} video files.`);
+    updateScanJob({ total: validFiles.length }, true);
+
+    const insertedIds = insertVideos(validFiles);
+    scanJob.summary.added = insertedIds.size;
+    console.log("Phase 1 complete: Videos are visible in UI.");
+
+    updateScanJob({ phase: 'deep', processed: 0 }, true);
+    for (const [index, fullPath] of validFiles.entries()) {
+      updateScanJob({ currentFile: getLibraryRelativePath(fullPath) });
+      const updated = await processVideoMetadata(fullPath, forceRefresh);
+      if (updated && !insertedIds.has(getVideoId(fullPath))) scanJob.summary.updated++;
+      updateScanJob({ processed: index + 1 });
+    }
+
+    await backfillFingerprints();
+    backfillFileSizes();
+    await backfillMediaInfo();
+    await backfillEmbeddedSubtitles();
+    backfillSubtitleIndex();
+    backfillSeries();
+
+    updateScanJob({ phase: 'janitor', currentFile: null }, true);
+
+    // Each library is cleaned up on its own
+    const idsToDelete = [];
+    for (const library of scanned) {
+      const libraryFiles = filesByLibrary.get(library.id);
+
+      // Safety Check: Don't wipe a library if its drive is unmounted (0 files found)
+      if (libraryFiles.length === 0) {
+        console.warn(`Janitor: No files found in "${library.name}". Skipping cleanup to prevent accidental wipe.`);
+        continue;
+      }
+
+      // Everything in the database for this library that is no longer on disk
+      const foundIds = new Set(libraryFiles.map(getVideoId));
+      for (const row of db.prepare('SELECT id FROM videos WHERE library_id = ?').all(library.id)) {
+        if (!foundIds.has(row.id)) idsToDelete.push(row.id);
+      }
+    }
+
+    if (idsToDelete.length > 0) {
+      console.log(`Janitor found ${idsToDelete.length} missing files. Cleaning up...`);
+      const { removed, moved } = removeVideos(idsToDelete);
+      // A move shows up as an insert plus a delete, report it as one
+      scanJob.summary.removed = removed;
+      scanJob.summary.moved = moved;
+      scanJob.summary.added = Math.max(0, scanJob.summary.added - moved);
+    } else {
+      console.log("Janitor: Library is clean.");
+    }
+
+    pruneSeries();
+
+    const markScanned = db.prepare('UPDATE libraries SET last_scanned_at = ? WHERE id = ?');
+    scanned.forEach(library => markScanned.run(Date.now(), library.id));
+    loadLibraries();
+
+    console.log(`Deep scan complete.`);
+    finishScanJob('completed');
+    backfillTrickplay();
+  } catch (e) {
+    console.error("Scan failed:", e);
+    reportScanError(getLibrary(DEFAULT_LIBRARY_ID).root, e);
+    finishScanJob('failed');
+  } finally {
+    isScanning = false;
+  }
+}
+
+// ---------------------------------------------------------
+// FILESYSTEM WATCHER (Incremental Updates)
+// ---------------------------------------------------------
+// WATCH_MODE: 'auto' (default), 'native' (inotify), 'poll' or 'off'
+const WATCH_MODE = (process.env.WATCH_MODE || 'auto').toLowerCase();
+const WATCH_POLL_INTERVAL_MS = (parseInt(process.env.WATCH_POLL_INTERVAL, 10) || 60) * 1000;
+// A file must stay the same size for this long before we touch it (downloads in progress)
+const WATCH_SETTLE_MS = (parseInt(process.env.WATCH_SETTLE_SECONDS, 10) || 5) * 1000;
+
+// Filesystems where inotify events never arrive (changes happen on another machine)
+const NETWORK_FS_TYPES = ['nfs', 'nfs4', 'cifs', 'smb3', 'smbfs', '9p', 'davfs', 'fuse.sshfs', 'fuse.rclone'];
+
+const pendingChanges = new Map(); // fullPath -> { lastEvent, signature }
+let flushTimer = null;
+
+function isNetworkMount(dir) {
+  try {
+    const target = path.resolve(dir);
+    let best = { mountPoint: '', type: '' };
+
+    // /proc/mounts lines look like: "server:/export /media nfs4 rw,relatime 0 0"
+    for (const line of fs.readFileSync('/proc/mounts', 'utf8').split('\n')) {
+      const [, mountPoint, type] = line.split(' ');
+      if (!mountPoint) continue;
+      const isParent = target === mountPoint || target.startsWith(mountPoint.endsWith('/') ? mountPoint : mountPoint + '/');
+      if (isParent && mountPoint.length > best.mountPoint.length) best = { mountPoint, type };
+    }
+    return NETWORK_FS_TYPES.includes(best.type);
+  } catch (e) {
+    return false; // Not Linux, or /proc unavailable
+  }
+}
+
+function queueChange(fullPath) {
+  const entry = pendingChanges.get(fullPath) || { signature: null };
+  entry.lastEvent = Date.now();
+  pendingChanges.set(fullPath, entry);
+  scheduleFlush();
+}
+
+function scheduleFlush() {
+  if (flushTimer) return;
+  flushTimer = setTimeout(flushChanges, WATCH_SETTLE_MS);
+}
+
+async function flushChanges() {
+  flushTimer = null;
+
+  // Let a running scan finish first, we'll pick these up right after
+  if (isScanning) return scheduleFlush();
+
+  const now = Date.now();
+  const ready = [];
+  const readyDeletions = [];
+  let isSettling = false;
+
+  for (const [fullPath, entry] of pendingChanges) {
+    if (now - entry.lastEvent < WATCH_SETTLE_MS) {
+      isSettling = true;
+      continue;
+    }
+
+    let stat = null;
+    try { stat = fs.statSync(fullPath); } catch (e) { /* Deleted or renamed away */ }
+
+    // Still being written? Compare with the last time we looked.
+    // Deletions wait for a stable state too (see below).
+    const signature = stat ? `${stat.size}:${stat.mtimeMs}` : 'missing';
+    if (signature !== entry.signature) {
+      entry.signature = signature;
+      entry.lastEvent = now;
+      isSettling = true;
+      continue;
+    }
+
+    (stat ? ready : readyDeletions).push(fullPath);
+  }
+
+  // Hold deletions back while anything is still arriving: the other half of a move
+  // has to be in the library before the janitor looks for it
+  if (!isSettling) ready.push(...readyDeletions);
+  ready.forEach(fullPath => pendingChanges.delete(fullPath));
+
+  if (ready.length > 0) await processChangedPaths(ready);
+  if (pendingChanges.size > 0) scheduleFlush();
+}
+
+// Runs phase 1 / phase 2 / janitor work for just the affected paths
+async function processChangedPaths(changedPaths) {
+  if (isScanning) {
+    changedPaths.forEach(queueChange);
+    return;
+  }
+  isScanning = true;
+  startScanJob('watch');
+
+  try {
+    const added = new Set();
+    const refreshed = new Set();
+    const removedIds = [];
+    const removedFolders = [];
+
+    // Sidecar (.nfo, .jpg, .srt...) changed: refresh the video(s) it belongs to
+    const refreshOwners = (sidecarPath) => {
+      const dir = path.dirname(sidecarPath);
+      const sidecarName = path.basename(sidecarPath).toLowerCase();
+
+      // The show's tvshow.nfo belongs to every episode below it
+      if (sidecarName === 'tvshow.nfo') {
+        try {
+          getFilesRecursively(dir).filter(isVideoFile).forEach(f => refreshed.add(f));
+        } catch (e) { /* Folder vanished in the meantime */ }
+        return;
+      }
+
+      try {
+        fs.readdirSync(dir)
+          .filter(f => isVideoFile(f) && sidecarName.startsWith(path.parse(f).name.toLowerCase()))
+          .forEach(f => refreshed.add(path.join(dir, f)));
+      } catch (e) { /* Folder vanished in the meantime */ }
+    };
+
+    for (const fullPath of changedPaths) {
+      // Removed libraries, and hidden files in libraries that skip them
+      const library = getLibraryForPath(fullPath);
+      if (!library || (library.hide_hidden && isHiddenPath(fullPath, library))) continue;
+
+      let stat = null;
+      try { stat = fs.statSync(fullPath); } catch (e) { /* Gone */ }
+
+      if (!stat) {
+        if (isVideoFile(fullPath)) {
+          removedIds.push({ library, id: getVideoId(fullPath) });
+        } else {
+          // Either a folder that was moved/deleted or a removed sidecar
+          removedFolders.push({ library, folder: path.relative(library.root, fullPath) });
+          refreshOwners(fullPath);
+        }
+      } else if (stat.isDirectory()) {
+        getFilesRecursively(fullPath, Boolean(library.hide_hidden)).filter(isVideoFile).forEach(f => added.add(f));
+      } else if (isVideoFile(fullPath)) {
+        added.add(fullPath);
+      } else {
+        refreshOwners(fullPath);
+      }
+    }
+
+    const toRefresh = [...refreshed].filter(f => !added.has(f));
+    updateScanJob({ total: added.size + toRefresh.length }, true);
+
+    if (added.size > 0) {
+      console.log(`Watcher: Processing ${added.size} new or changed video(s)...`);
+      scanJob.summary.added = insertVideos([...added]).size;
+      await backfillFingerprints();
+
+      updateScanJob({ phase: 'deep' }, true);
+      for (const fullPath of added) {
+        updateScanJob({ currentFile: getLibraryRelativePath(fullPath) });
+        await processVideoMetadata(fullPath, false);
+        updateScanJob({ processed: scanJob.processed + 1 });
+      }
+    }
+
+    updateScanJob({ phase: 'deep' }, true);
+    for (const fullPath of toRefresh) {
+      updateScanJob({ currentFile: getLibraryRelativePath(fullPath) });
+      if (await processVideoMetadata(fullPath, true)) scanJob.summary.updated++;
+      updateScanJob({ processed: scanJob.processed + 1 });
+    }
+
+    updateScanJob({ phase: 'janitor', currentFile: null }, true);
+
+    if (removedIds.length > 0 || removedFolders.length > 0) {
+      // Same safety net as the full janitor: an unmounted drive looks like "everything was deleted"
+      const unmounted = new Set();
+      for (const { library } of [...removedIds, ...removedFolders]) {
+        if (unmounted.has(library.id) || (fs.existsSync(library.root) && fs.readdirSync(library.root).length > 0)) continue;
+        console.warn(`Watcher: "${library.name}" is empty. Skipping cleanup to prevent accidental wipe.`);
+        unmounted.add(library.id);
+      }
+
+      const idsToDelete = removedIds.filter(({ library }) => !unmounted.has(library.id)).map(({ id }) => id);
+      for (const { library, folder } of removedFolders) {
+        if (unmounted.has(library.id)) continue;
+        const rows = db.prepare("SELECT id FROM videos WHERE library_id = ? AND (folder = ? OR folder LIKE ? ESCAPE '\\')")
+          .all(library.id, folder, `${escapeLike(folder + path.sep)}%`);
+        rows.forEach(r => idsToDelete.push(r.id));
+      }
+      if (idsToDelete.length > 0) {
+        const { removed, moved } = removeVideos(idsToDelete);
+        scanJob.summary.removed = removed;
+        scanJob.summary.moved = moved;
+        scanJob.summary.added = Math.max(0, scanJob.summary.added - moved);
+      }
+    }
+    pruneSeries();
+    finishScanJob('completed');
+    backfillTrickplay();
+  } catch (e) {
+    console.error("Watcher update failed:", e);
+    reportScanError(getLibrary(DEFAULT_LIBRARY_ID).root, e);
+    finishScanJob('failed');
+  } finally {
+    isScanning = false;
+  }
+}
+
+const libraryWatchers = new Map(); // library id -> function that stops its watcher (native or polling)
+
+function startPolling(library) {
+  const takeSnapshot = () => {
+    const snapshot = new Map();
+    for (const fullPath of getFilesRecursively(library.root, Boolean(library.hide_hidden))) {
+      try {
+        const stat = fs.statSync(fullPath);
+        snapshot.set(fullPath, `${stat.size}:${stat.mtimeMs}`);
+      } catch (e) { /* Removed while walking */ }
+    }
+    return snapshot;
+  };
+
+  let previous;
+  try {
+    previous = takeSnapshot();
+  } catch (e) {
+    previous = new Map();
+  }
+
+  const timer = setInterval(() => {
+    let current;
+    try {
+      current = takeSnapshot();
+    } catch (e) {
+      console.warn("Watcher: Polling walk failed:", e.message);
+      return;
+    }
+
+    for (const [fullPath, signature] of current) {
+      if (previous.get(fullPath) !== signature) queueChange(fullPath);
+    }
+    for (const fullPath of previous.keys()) {
+      if (!current.has(fullPath)) queueChange(fullPath);
+    }
+    previous = current;
+  }, WATCH_POLL_INTERVAL_MS);
+
+  libraryWatchers.set(library.id, () => clearInterval(timer));
+  console.log(`Watcher: Polling ${library.root} every ${WATCH_POLL_INTERVAL_MS / 1000}s`);
+}
+
+function watchLibrary(library) {
+  if (WATCH_MODE === 'off') return;
 
-async function scanMedia(forceRefresh = false) {
-  if (isScanning) return;
-  isScanning = true;
-  console.log('Starting background scan...');
+  if (WATCH_MODE === 'poll' || (WATCH_MODE === 'auto' && isNetworkMount(library.root))) {
+    return startPolling(library);
+  }
 
   try {
-    const files = getFilesRecursively(mediaDir);
-    const supportedExtensions = ['.mp4', '.webm', '.ogg', '.mov', '.mkv'];
+    const watcher = fs.watch(library.root, { recursive: true }, (eventType, filename) => {
+      // No filename means the kernel dropped events (queue overflow): do a quick scan instead
+      if (!filename) return scanMedia(false, [library.id]);
+      queueChange(path.join(library.root, filename.toString()));
+    });
 
-    // Filter strictly for video files
-    const validFiles = files.filter(fullPath =>
-      supportedExtensions.includes(path.extname(fullPath).toLowerCase())
-    );
+    watcher.on('error', (err) => {
+      console.warn("Watcher: Native watcher failed, falling back to polling:", err.message);
+      watcher.close();
+      startPolling(library);
+    });
 
-    console.log(`Found ${validFiles.length} video files.`);
+    libraryWatchers.set(library.id, () => watcher.close());
+    console.log(`Watcher: Watching ${library.root} for changes`);
+  } catch (e) {
+    // ENOSPC (inotify watch limit), ENOSYS, ERR_FEATURE_UNAVAILABLE_ON_PLATFORM...
+    console.warn(`Watcher: Native watching unavailable (${e.code || e.message}), falling back to polling.`);
+    startPolling(library);
+  }
+}
 
-    // PREPARE STATEMENTS
-    const checkStmt = db.prepare('SELECT id, duration FROM videos WHERE id = ?');
+function unwatchLibrary(id) {
+  const stop = libraryWatchers.get(id);
+  if (stop) stop();
+  libraryWatchers.delete(id);
+}
 
-    // 1. FAST PASS: Insert files immediately so they appear in the UI
-    const insertStmt = db.prepare(`
-      INSERT INTO videos (id, name, filename, folder, path, created_at, release_date)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(id) DO UPDATE SET path = excluded.path
-    `);
+function startWatcher() {
+  if (WATCH_MODE === 'off') {
+    console.log("Watcher: Disabled (WATCH_MODE=off)");
+    return;
+  }
+  libraries.forEach(watchLibrary);
+}
 
-    // 2. META PASS: Update metadata (slow)
-    const updateMetaStmt = db.prepare(`
-      UPDATE videos SET 
-      duration = ?, thumbnail = ?, subtitles = ?, description = ?, 
-      channel = ?, genre = ?, release_date = ?, channel_avatar = ?,
-      name = ?, youtube_id = ?
-      WHERE id = ?
-    `);
+// ---------------------------------------------------------
+// TRANSCODING (Encoder Detection)
+// ---------------------------------------------------------
+// Render node used by VAAPI and QSV
+const TRANSCODE_DEVICE = process.env.TRANSCODE_DEVICE || '/dev/dri/renderD128';
+
+// Shared by every pipeline. LATENCY FIX: Reduce analysis time to speed up start.
+const TRANSCODE_INPUT_OPTIONS = ['-analyzeduration 10000000', '-probesize 10000000'];
+
+// In order of preference. `test*Options` encode one blank frame at startup to prove
+// the encoder actually works on this host (being compiled in is not enough).
+// `filter(width, height)` scales when a size is given, otherwise only converts the pixel format.
+const TRANSCODE_PIPELINES = {
+  vaapi: {
+    label: 'VAAPI (Intel/AMD GPU)',
+    testInputOptions: [`-vaapi_device ${TRANSCODE_DEVICE}`],
+    testOutputOptions: ['-vf format=nv12,hwupload', '-c:v h264_vaapi'],
+    inputOptions: [
+      '-hwaccel vaapi',
+      `-hwaccel_device ${TRANSCODE_DEVICE}`,
+      '-hwaccel_output_format vaapi',
+      '-noautorotate'
+    ],
+    // QUALITY FIX: Ensure high-quality scaling
+    filter: (w, h) => w ? `scale_vaapi=w=${w}:h=${h}:format=nv12` : 'scale_vaapi=format=nv12',
+    codecOptions: ['-c:v h264_vaapi', '-rc_mode VBR']
+  },
+  qsv: {
+    label: 'Intel Quick Sync (QSV)',
+    testInputOptions: ['-init_hw_device qsv=hw', '-filter_hw_device hw'],
+    testOutputOptions: ['-vf format=nv12,hwupload=extra_hw_frames=64', '-c:v h264_qsv'],
+    inputOptions: [
+      '-hwaccel qsv',
+      `-qsv_device ${TRANSCODE_DEVICE}`,
+      '-hwaccel_output_format qsv',
+      '-noautorotate'
+    ],
+    filter: (w, h) => w ? `vpp_qsv=w=${w}:h=${h}:format=nv12` : 'vpp_qsv=format=nv12',
+    codecOptions: ['-c:v h264_qsv', '-preset veryfast']
+  },
+  software: {
+    label: 'Software (libx264, CPU)',
+    testInputOptions: [],
+    testOutputOptions: ['-c:v libx264', '-preset ultrafast'],
+    inputOptions: [],
+    // 10-bit sources (HEVC Main10 etc.) are not playable as H.264 High 10
+    filter: (w, h) => w ? `scale=${w}:${h},format=yuv420p` : 'format=yuv420p',
+    codecOptions: ['-c:v libx264', '-preset veryfast']
+  }
+};
 
-    // --- PHASE 1: INSTANT INSERT (OPTIMIZED) ---
-    const runPhase1 = db.transaction((filesToScan) => {
-      for (const fullPath of filesToScan) {
-        const relativePath = path.relative(mediaDir, fullPath);
-        const id = `vid-${relativePath.replace(/[^a-zA-Z0-9]/g, '_')}`;
-
-        const existing = checkStmt.get(id);
-        if (!existing) {
-          const folderName = path.dirname(relativePath) === '.' ? 'Local Library' : path.dirname(relativePath);
-          const webPath = '/media/' + relativePath.split(path.sep).map(encodeURIComponent).join('/');
-          const stats = fs.statSync(fullPath);
-          const tempDate = new Date(stats.birthtimeMs).toISOString().split('T')[0];
-
-          insertStmt.run(
-            id,
-            path.basename(fullPath, path.extname(fullPath)),
-            path.basename(fullPath),
-            folderName,
-            webPath,
-            Math.floor(stats.birthtimeMs),
-            tempDate
-          );
-        }
-      }
-    });
+// Video output options for a pipeline at a target size (optional) and bitrate
+function getVideoEncodeOptions(pipelineName, { width, height, bitrate, maxrate, bufsize }) {
+  const pipeline = TRANSCODE_PIPELINES[pipelineName];
+  return [
+    `-vf ${pipeline.filter(width, height)}`,
+    ...pipeline.codecOptions,
+    `-b:v ${bitrate}`,
+    `-maxrate ${maxrate}`,
+    `-bufsize ${bufsize}`
+  ];
+}
 
-    runPhase1(validFiles);
-    console.log("Phase 1 complete: Videos are visible in UI.");
+// What a browser can play straight out of a fragmented MP4
+const BROWSER_VIDEO_CODECS = ['h264'];
+const BROWSER_PIXEL_FORMATS = ['yuv420p', 'yuvj420p'];
+const BROWSER_AUDIO_CODECS = ['aac', 'mp3'];
 
-    // --- PHASE 2: DEEP SCAN (Duration, Thumbs, NFO) ---
-    for (const fullPath of validFiles) {
-      const relativePath = path.relative(mediaDir, fullPath);
-      const id = `vid-${relativePath.replace(/[^a-zA-Z0-9]/g, '_')}`;
+// Filled in by detectEncoders() at startup
+const encoderSupport = { status: 'pending', available: [], detected: null };
 
-      // Skip if we have data AND we are NOT forcing a refresh
-      const existing = checkStmt.get(id);
-      if (!forceRefresh && existing && existing.duration) continue;
+function testPipeline(pipeline) {
+  return new Promise((resolve) => {
+    ffmpeg()
+      .input('color=black:s=256x144:d=0.1')
+      .inputFormat('lavfi')
+      .inputOptions(pipeline.testInputOptions)
+      .outputOptions([...pipeline.testOutputOptions, '-frames:v 1', '-f null'])
+      .output('-')
+      .on('end', () => resolve(true))
+      .on('error', () => resolve(false))
+      .run();
+  });
+}
 
-      try {
-        // A. THUMBNAIL
-        let thumbUrl = null;
-        const existingThumb = db.prepare('SELECT thumbnail FROM videos WHERE id = ?').get(id);
+async function detectEncoders() {
+  for (const [name, pipeline] of Object.entries(TRANSCODE_PIPELINES)) {
+    if (await testPipeline(pipeline)) encoderSupport.available.push(name);
+  }
+  encoderSupport.detected = encoderSupport.available[0] || null;
+  encoderSupport.status = 'done';
 
-        if (existingThumb && existingThumb.thumbnail) {
-          thumbUrl = existingThumb.thumbnail;
-        } else {
-          const localThumb = findLocalThumbnail(fullPath);
-          if (localThumb) {
-            thumbUrl = '/media/' + path.relative(mediaDir, localThumb).split(path.sep).map(encodeURIComponent).join('/');
-          } else {
-            thumbUrl = await generateThumbnail(fullPath, id);
-          }
-        }
+  if (encoderSupport.detected) {
+    console.log(`Transcoding: using ${encoderSupport.detected} (available: ${encoderSupport.available.join(', ')})`);
+  } else {
+    console.warn('Transcoding: no working H.264 encoder found. Is ffmpeg installed?');
+  }
+}
 
-        // B. DURATION & METADATA
-        const { duration, tags } = await getVideoMetadata(fullPath);
+// The 'transcodeEncoder' setting wins if that encoder works here, otherwise the best detected one
+function getTranscodePipelineName() {
+  const row = db.prepare("SELECT value FROM settings WHERE key = 'transcodeEncoder'").get();
+  const preferred = row ? row.value : 'auto';
+  if (preferred !== 'auto' && encoderSupport.available.includes(preferred)) return preferred;
+  return encoderSupport.detected || 'software';
+}
+
+// Containers browsers open on their own, with the codecs they play from them
+const DIRECT_PLAY_FORMATS = {
+  mp4: { video: ['h264'], audio: ['aac', 'mp3'] },
+  m4v: { video: ['h264'], audio: ['aac', 'mp3'] },
+  mov: { video: ['h264'], audio: ['aac', 'mp3'] },
+  webm: { video: ['vp8', 'vp9', 'av1'], audio: ['opus', 'vorbis'] }
+};
 
-        // C. SUBTITLES
-        const subtitlesJson = await processSubtitles(fullPath, id);
+// Decides how much work a video needs before a browser can play it (from parseMediaInfo):
+//   'direct'    - the browser plays the file as it is
+//   'remux'     - H.264 + AAC/MP3, only the container (MKV, AVI...) is the problem
+//   'audio'     - the video can be copied, the audio (AC3, DTS, FLAC...) can't
+//   'transcode' - the video itself needs re-encoding (HEVC, 10-bit, MPEG-2...)
+function getPlaybackMode(info) {
+  const audio = info.audioStreams[0];
+  const direct = DIRECT_PLAY_FORMATS[info.container];
+  if (direct && direct.video.includes(info.videoCodec) && BROWSER_PIXEL_FORMATS.includes(info.pixelFormat) &&
+    (!audio || direct.audio.includes(audio.codec))) {
+    return 'direct';
+  }
+  return getTranscodeMode(info);
+}
 
-        const dir = path.dirname(fullPath);
-        const baseName = path.parse(fullPath).name;
+// What /api/transcode does with a file: it always writes H.264 + AAC/MP3 to MP4
+function getTranscodeMode(info, audioIndex = 0) {
+  const audio = info.audioStreams[audioIndex];
+  const videoOk = BROWSER_VIDEO_CODECS.includes(info.videoCodec) && BROWSER_PIXEL_FORMATS.includes(info.pixelFormat);
+  const audioOk = !audio || BROWSER_AUDIO_CODECS.includes(audio.codec);
 
-        // D. METADATA STRATEGY
-        const stats = fs.statSync(fullPath);
-        const fileDate = new Date(stats.birthtimeMs).toISOString().split('T')[0];
-
-        let meta = {
-          title: baseName, 
-          plot: null,
-          channel: "Local Library",
-          genre: null,
-          aired: fileDate,
-          youtubeId: null
-        };
-
-        if (tags.title) meta.title = tags.title;
-        if (tags.description) meta.plot = tags.description;
-        if (tags.genre) meta.genre = tags.genre;
-        if (tags.artist) meta.channel = tags.artist;
-        if (tags.date) meta.aired = tags.date.split('T')[0];
-
-        const filesInDir = fs.readdirSync(dir);
-        const actualNfoFile = filesInDir.find(f =>
-          f.toLowerCase() === `${baseName.toLowerCase()}.nfo`
-        );
-        const nfoPath = actualNfoFile ? path.join(dir, actualNfoFile) : null;
-
-        if (fs.existsSync(nfoPath)) {
-          const parsed = parseNfo(nfoPath);
-          if (parsed) {
-            if (parsed.title) meta.title = parsed.title;
-            if (parsed.plot) meta.plot = parsed.plot;
-            if (parsed.channel) meta.channel = parsed.channel;
-            if (parsed.genre) meta.genre = parsed.genre;
-            if (parsed.aired) meta.aired = parsed.aired.split(' ')[0];
-            if (parsed.youtubeId) meta.youtubeId = parsed.youtubeId;
-          }
-        }
+  if (!videoOk) return 'transcode';
+  return audioOk ? 'remux' : 'audio';
+}
 
-        const channelAvatarUrl = findChannelAvatar(path.dirname(fullPath));
-
-        updateMetaStmt.run(
-          Math.floor(duration),
-          thumbUrl,
-          subtitlesJson,
-          meta.plot,
-          meta.channel,
-          meta.genre,
-          meta.aired,
-          channelAvatarUrl,
-          meta.title,
-          meta.youtubeId || null,
-          id
-        );
+// Decided from the stored media info. Files the scanner hasn't reached yet are probed here.
+async function getTranscodePlan(videoId, fullPath, audioIndex = 0) {
+  let info = getMediaInfo(videoId);
+  if (!info) info = (await getVideoMetadata(fullPath)).mediaInfo;
+  if (!info) return { mode: 'transcode', videoCodec: null, audioCodec: null };
 
-      } catch (e) {
-        console.error(`Failed to process metadata for ${id}`, e);
+  const audio = info.audioStreams[audioIndex];
+  return { mode: getTranscodeMode(info, audioIndex), videoCodec: info.videoCodec, audioCodec: audio ? audio.codec : null };
+}
+
+// ---------------------------------------------------------
+// HLS (Adaptive Streaming)
+// ---------------------------------------------------------
+// Segments sit on a fixed time grid, so every rendition lines up and any segment can be
+// produced on its own. ffmpeg starts at the requested segment and keeps going from there
+// (the player asks for the next ones next). Finished segments are cached in dataDir/hls/<id>/.
+const HLS_SEGMENT_SECONDS = 6;
+// Encoders nobody has asked anything from for this long are stopped
+const HLS_JOB_IDLE_MS = 60 * 1000;
+const HLS_SEGMENT_TIMEOUT_MS = 60 * 1000;
+// A segment this close ahead of a running encoder is waited for instead of restarting it
+const HLS_LOOKAHEAD_SEGMENTS = 3;
+
+const HLS_RENDITIONS = [
+  { name: '1080p', height: 1080, bitrate: '5000k', maxrate: '7500k', bufsize: '10000k', audioBitrate: '192k' },
+  { name: '720p', height: 720, bitrate: '2800k', maxrate: '4200k', bufsize: '5600k', audioBitrate: '128k' },
+  { name: '480p', height: 480, bitrate: '1200k', maxrate: '1800k', bufsize: '2400k', audioBitrate: '128k' },
+  { name: '360p', height: 360, bitrate: '700k', maxrate: '1050k', bufsize: '1400k', audioBitrate: '96k' }
+];
+
+const hlsSources = new Map(); // video id -> probed source info
+const hlsJobs = new Map(); // `${id}/${variant}` -> running ffmpeg job
+// Videos the hardware pipeline choked on (e.g. a codec the GPU can't decode)
+const hlsSoftwareOnly = new Set();
+
+// Probes the source once per version of the file. A changed file also drops its old segments.
+async function getHlsSource(id) {
+  const video = db.prepare('SELECT path FROM videos WHERE id = ?').get(id);
+  if (!video) return null;
+
+  const fullPath = resolveVideoPath(video.path);
+  const stats = await fs.promises.stat(fullPath);
+  const version = `${stats.size}:${stats.mtimeMs}`;
+
+  const cached = hlsSources.get(id);
+  if (cached && cached.version === version) return cached;
+
+  const probe = await new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(fullPath, (err, data) => err ? reject(err) : resolve(data));
+  });
+  const stream = probe.streams.find(s => s.codec_type === 'video' && !(s.disposition && s.disposition.attached_pic));
+  if (!stream) throw new Error('No video stream');
+
+  const cacheDir = path.join(hlsDir, id);
+  const versionFile = path.join(cacheDir, 'source.txt');
+  if (!fs.existsSync(versionFile) || fs.readFileSync(versionFile, 'utf8') !== version) {
+    removeHlsCache(id);
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(versionFile, version);
+  }
+
+  // Never upscale, but always offer at least the smallest rendition
+  const fitting = HLS_RENDITIONS.filter(r => r.height <= stream.height);
+  const renditions = (fitting.length ? fitting : HLS_RENDITIONS.slice(-1)).map(r => ({
+    ...r,
+    width: Math.round((stream.width * r.height) / stream.height / 2) * 2
+  }));
+
+  const duration = parseFloat(probe.format.duration) || 0;
+  const source = {
+    version,
+    fullPath,
+    duration,
+    renditions,
+    audioCount: probe.streams.filter(s => s.codec_type === 'audio').length,
+    segmentCount: Math.max(1, Math.ceil(duration / HLS_SEGMENT_SECONDS))
+  };
+  hlsSources.set(id, source);
+  return source;
+}
+
+function removeHlsCache(id) {
+  for (const key of hlsJobs.keys()) {
+    if (key.startsWith(`${id}/`)) stopHlsJob(key);
+  }
+  hlsSources.delete(id);
+  fs.rmSync(path.join(hlsDir, id), { recursive: true, force: true });
+}
+
+// A variant is a rendition with one audio track: '720p' has the first one, '720p-a2' the third.
+// Returns null for anything the source doesn't have.
+function parseHlsVariant(source, name) {
+  const match = String(name).match(/^(.+?)(?:-a([1-9]\d*))?$/);
+  const rendition = match && source.renditions.find(r => r.name === match[1]);
+  const audio = match && match[2] ? parseInt(match[2]) : 0;
+  if (!rendition || (audio > 0 && audio >= source.audioCount)) return null;
+  return { name, rendition, audio };
+}
+
+function getSegmentPath(id, variantName, index) {
+  return path.join(hlsDir, id, variantName, `${index}.ts`);
+}
+
+function stopHlsJob(key) {
+  const job = hlsJobs.get(key);
+  if (!job) return;
+  job.stopped = true;
+  job.command.kill('SIGKILL');
+  hlsJobs.delete(key);
+}
+
+// Segments the job has finished, in order (ffmpeg lists a segment once it is complete)
+function getCompletedSegments(job) {
+  try {
+    return fs.readFileSync(job.playlistPath, 'utf8').split('\n').filter(l => l.endsWith('.ts')).length;
+  } catch (e) {
+    return 0;
+  }
+}
+
+// The segment the encoder is working on right now
+function getEncoderPosition(job) {
+  if (job.finalPosition !== undefined) return job.finalPosition;
+  return job.startIndex + getCompletedSegments(job);
+}
+
+// Runs once ffmpeg has exited. A stopped encoder leaves a half-written segment behind
+// (older ffmpeg builds write segments in place), which must not end up in the cache.
+function cleanUpHlsJob(key, job) {
+  if (hlsJobs.get(key) === job) hlsJobs.delete(key);
+  const position = getEncoderPosition(job);
+  job.finalPosition = position;
+
+  if (!job.completed) {
+    const current = hlsJobs.get(key);
+    if (!current || getEncoderPosition(current) !== position) {
+      const partial = path.join(job.outDir, `${position}.ts`);
+      fs.rmSync(partial, { force: true });
+      fs.rmSync(`${partial}.tmp`, { force: true });
+    }
+  }
+  fs.rmSync(job.playlistPath, { force: true });
+}
+
+function startHlsJob(id, source, variant, startIndex) {
+  // One encoder per video: switching quality or audio track stops the old one
+  for (const key of hlsJobs.keys()) {
+    if (key.startsWith(`${id}/`)) stopHlsJob(key);
+  }
+
+  const { rendition } = variant;
+  const key = `${id}/${variant.name}`;
+  const outDir = path.join(hlsDir, id, variant.name);
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const pipelineName = hlsSoftwareOnly.has(id) ? 'software' : getTranscodePipelineName();
+  const pipeline = TRANSCODE_PIPELINES[pipelineName];
+  const startTime = startIndex * HLS_SEGMENT_SECONDS;
+  const job = {
+    command: null,
+    startIndex,
+    outDir,
+    // Each run gets its own playlist, so an encoder that is still shutting down can't confuse the next one
+    playlistPath: path.join(outDir, `encoder-${startIndex}-${Date.now()}.m3u8`),
+    lastRequest: Date.now(),
+    finished: false,
+    completed: false,
+    stopped: false,
+    error: null
+  };
+
+  job.command = ffmpeg(source.fullPath)
+    .inputOptions([...pipeline.inputOptions, ...TRANSCODE_INPUT_OPTIONS, `-ss ${startTime}`])
+    .outputOptions([
+      '-map 0:v:0',
+      `-map 0:a:${variant.audio}?`,
+      '-sn',
+      '-dn',
+      ...getVideoEncodeOptions(pipelineName, rendition),
+      // A keyframe on every grid line, so segments are cut exactly there
+      `-force_key_frames expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+      '-c:a aac',
+      `-b:a ${rendition.audioBitrate}`,
+      '-ac 2',
+      // Timestamps continue from the seek point instead of restarting at zero
+      `-output_ts_offset ${startTime}`,
+      '-f hls',
+      `-hls_time ${HLS_SEGMENT_SECONDS}`,
+      '-hls_list_size 0',
+      '-hls_segment_type mpegts',
+      `-start_number ${startIndex}`,
+      '-hls_flags temp_file'
+    ])
+    // Passed separately so a dataDir with spaces in it survives
+    .outputOptions('-hls_segment_filename', path.join(outDir, '%d.ts'))
+    .output(job.playlistPath)
+    .on('end', () => {
+      job.finished = true;
+      job.completed = true;
+      cleanUpHlsJob(key, job);
+    })
+    .on('error', (err) => {
+      job.finished = true;
+      if (!job.stopped) {
+        job.error = err.message;
+        console.error(`HLS encoder failed for ${key} (${pipelineName}):`, err.message);
+        // Nothing came out of the hardware pipeline: use the CPU for this video from now on
+        if (pipelineName !== 'software' && getCompletedSegments(job) === 0) hlsSoftwareOnly.add(id);
       }
+      cleanUpHlsJob(key, job);
+    });
+
+  job.command.run();
+  hlsJobs.set(key, job);
+  return job;
+}
+
+function waitForSegment(job, index) {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (index < getEncoderPosition(job)) return resolve(path.join(job.outDir, `${index}.ts`));
+      if (job.finished) return reject(new Error(job.error || 'Encoder stopped before the segment was ready'));
+      if (Date.now() - started > HLS_SEGMENT_TIMEOUT_MS) return reject(new Error('Timed out waiting for segment'));
+      job.lastRequest = Date.now();
+      setTimeout(check, 250);
+    };
+    check();
+  });
+}
+
+async function getHlsSegment(id, source, variant, index) {
+  let job = hlsJobs.get(`${id}/${variant.name}`);
+  const position = job ? getEncoderPosition(job) : null;
+
+  // Everything on disk is complete, except what a running encoder is writing right now
+  const file = getSegmentPath(id, variant.name, index);
+  if (index !== position && fs.existsSync(file)) {
+    if (job) job.lastRequest = Date.now();
+    return file;
+  }
+
+  const isComingUp = job && index >= job.startIndex && index <= position + HLS_LOOKAHEAD_SEGMENTS;
+
+  // Seeking somewhere else: restart the encoder right there
+  if (!isComingUp) job = startHlsJob(id, source, variant, index);
+
+  job.lastRequest = Date.now();
+  return waitForSegment(job, index);
+}
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, job] of hlsJobs) {
+    if (now - job.lastRequest > HLS_JOB_IDLE_MS) stopHlsJob(key);
+  }
+}, 15 * 1000);
+
+// ---------------------------------------------------------
+// SEARCH (FTS5)
+// ---------------------------------------------------------
+// Wrapped around matched terms in highlights (the frontend splits on these)
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// Field filters accepted in the search box -> videos_fts columns
+const SEARCH_FIELDS = {
+  title: 'name',
+  channel: 'channel',
+  tag: 'tags',
+  tags: 'tags',
+  genre: 'tags',
+  description: 'description'
+};
+
+const quoteFts = (text) => `"${text.replace(/"/g, '""')}"`;
+const hasWordChars = (text) => /[\p{L}\p{N}]/u.test(text);
+
+// Turns the search box string into FTS5 queries:
+//   word            -> prefix match
+//   "some phrase"   -> exact phrase
+//   channel:x, tag:"x y", title:, description: -> restricted to that field
+// Returns the full query, plus the free-text and filter parts separately
+// (subtitle cues only have text, filters are checked against the video).
+function parseSearchQuery(input) {
+  const terms = [];
+  const filters = [];
+  const pattern = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+
+  for (const m of input.matchAll(pattern)) {
+    const field = m[1] || m[3];
+    const column = field ? SEARCH_FIELDS[field.toLowerCase()] : null;
+
+    if (column) {
+      const isPhrase = m[2] !== undefined;
+      const value = isPhrase ? m[2] : m[4];
+      if (hasWordChars(value)) filters.push(`${column} : ${quoteFts(value)}${isPhrase ? '' : '*'}`);
+    } else if (m[5] !== undefined) {
+      if (hasWordChars(m[5])) terms.push(quoteFts(m[5]));
+    } else if (hasWordChars(m[0])) {
+      // Plain words, and unknown "field:value" pairs searched as text
+      terms.push(`${quoteFts(m[0])}*`);
     }
+  }
 
-    // --- PHASE 3: THE JANITOR (Garbage Collection) ---
-    // Safety Check: Don't wipe DB if drive is unmounted (0 files found)
-    if (validFiles.length > 0) {
-        console.log("Starting Janitor cleanup...");
-        
-        // 1. Generate a Set of all IDs currently found on disk
-        const foundIds = new Set();
-        for (const fullPath of validFiles) {
-          const relativePath = path.relative(mediaDir, fullPath);
-          const id = `vid-${relativePath.replace(/[^a-zA-Z0-9]/g, '_')}`;
-          foundIds.add(id);
-        }
+  return {
+    all: [...terms, ...filters].join(' ') || null,
+    text: terms.length ? terms.join(' ') : null,
+    filters: filters.length ? filters.join(' ') : null
+  };
+}
 
-        // 2. Get all IDs currently in the database
-        const allDbRows = db.prepare('SELECT id FROM videos').all();
-        const idsToDelete = [];
+// SQL condition (on the videos table) for a parsed query
+function buildSearchCondition(query) {
+  const params = [query.all];
+  let sql = 'videos.id IN (SELECT video_id FROM videos_fts WHERE videos_fts MATCH ?)';
+
+  if (query.text) {
+    let subtitleSql = `videos.id IN (
+      SELECT c.video_id FROM subtitle_cues_fts JOIN subtitle_cues c ON c.id = subtitle_cues_fts.rowid
+      WHERE subtitle_cues_fts MATCH ?
+    )`;
+    params.push(query.text);
+
+    if (query.filters) {
+      subtitleSql += ' AND videos.id IN (SELECT video_id FROM videos_fts WHERE videos_fts MATCH ?)';
+      params.push(query.filters);
+    }
+    sql = `(${sql} OR (${subtitleSql}))`;
+  }
 
-        for (const row of allDbRows) {
-          if (!foundIds.has(row.id)) {
-            idsToDelete.push(row.id);
-          }
-        }
+  return { sql, params };
+}
 
-        // 3. Delete the ghosts
-        if (idsToDelete.length > 0) {
-          console.log(`Janitor found ${idsToDelete.length} missing files. Cleaning up...`);
-          
-          const deleteStmt = db.prepare('DELETE FROM videos WHERE id = ?');
-          
-          const runJanitor = db.transaction((ids) => {
-            for (const id of ids) {
-              deleteStmt.run(id);
-              console.log(`Removed missing video: ${id}`);
-            }
-          });
-          
-          runJanitor(idsToDelete);
-        } else {
-          console.log("Janitor: Library is clean.");
-        }
-    } else {
-        console.warn("Janitor: No files found in media directory. Skipping cleanup to prevent accidental wipe.");
+// Which fields matched (with highlights), and the first subtitle cue that did
+function getSearchMatches(videoIds, query) {
+  const matches = new Map(videoIds.map(id => [id, { fields: [], highlights: {} }]));
+  if (videoIds.length === 0) return matches;
+  const placeholders = videoIds.map(() => '?').join(',');
+
+  // Subtitle-only hits still get their filter fields highlighted
+  const highlightQuery = query.filters && query.text ? `(${query.all}) OR (${query.filters})` : query.all;
+  const fieldRows = db.prepare(`
+    SELECT video_id AS id,
+      highlight(videos_fts, 0, ?, ?) AS name,
+      highlight(videos_fts, 1, ?, ?) AS channel,
+      snippet(videos_fts, 2, ?, ?, '…', 24) AS description,
+      highlight(videos_fts, 3, ?, ?) AS tags
+    FROM videos_fts
+    WHERE videos_fts MATCH ? AND video_id IN (${placeholders})
+  `).all(...Array(4).fill([MATCH_START, MATCH_END]).flat(), highlightQuery, ...videoIds);
+
+  for (const row of fieldRows) {
+    const match = matches.get(row.id);
+    for (const field of ['name', 'channel', 'description', 'tags']) {
+      if (row[field] && row[field].includes(MATCH_START)) {
+        match.fields.push(field);
+        match.highlights[field] = row[field];
+      }
     }
+  }
 
-    console.log(`Deep scan complete.`);
-  } catch (e) {
-    console.error("Scan failed:", e);
-  } finally {
-    isScanning = false;
+  if (query.text) {
+    const cueRows = db.prepare(`
+      SELECT c.video_id, c.lang, c.start, snippet(subtitle_cues_fts, 0, ?, ?, '…', 16) AS text
+      FROM subtitle_cues_fts JOIN subtitle_cues c ON c.id = subtitle_cues_fts.rowid
+      WHERE subtitle_cues_fts MATCH ? AND c.video_id IN (${placeholders})
+      ORDER BY c.start ASC
+    `).all(MATCH_START, MATCH_END, query.text, ...videoIds);
+
+    for (const cue of cueRows) {
+      const match = matches.get(cue.video_id);
+      if (match.subtitle) continue;
+      match.fields.push('subtitles');
+      match.subtitle = { start: cue.start, lang: cue.lang, text: cue.text };
+    }
   }
+
+  return matches;
 }
 
 // ---------------------------------------------------------
@@ -678,7 +2925,173 @@ app.use(cors({
   credentials: true 
 }));
 
-app.use('/media', express.static(mediaDir));
+// ---------------------------------------------------------
+// AUTHENTICATION
+// ---------------------------------------------------------
+// Browsers sign in with a password and get a session cookie, scripts send an API token
+// (Authorization: Bearer ...). Media URLs in API responses carry a signature, so
+// <video>, <img> and <track> work even where cookies aren't sent.
+const SESSION_COOKIE = 'play21_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const SESSION_REFRESH_MS = 60 * 60 * 1000; // Sliding expiry, written at most once an hour
+const SIGNED_URL_TTL_MS = 6 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const USER_ROLES = ['admin', 'user'];
+
+// Signed URLs are only accepted for file routes
+const SIGNABLE_PREFIXES = ['/media/', '/api/stream/', '/thumbnails/', '/subtitles/'];
+const PROTECTED_PREFIXES = ['/api/', '/media/', '/thumbnails/', '/subtitles/'];
+const PUBLIC_ROUTES = new Set(['/api/auth/status', '/api/auth/login', '/api/auth/logout', '/api/auth/setup']);
+
+const urlSigner = createUrlSigner(loadSecret(path.join(dataDir, 'auth.secret')));
+
+const signUrl = (url, userId) => (url && url.startsWith('/') ? urlSigner.sign(url, userId, SIGNED_URL_TTL_MS) : url);
+
+// Sprite sheet geometry for the frontend, with the sheet and VTT URLs signed
+function formatTrickplay(video, userId) {
+  let info = null;
+  try {
+    info = video.trickplay ? JSON.parse(video.trickplay) : null;
+  } catch (e) {
+    return null;
+  }
+  if (!info || !info.sheets) return null;
+
+  const base = `/thumbnails/trickplay/${video.id}`;
+  return {
+    interval: info.interval,
+    width: info.width,
+    height: info.height,
+    columns: info.columns,
+    rows: info.rows,
+    count: info.count,
+    sheets: Array.from({ length: info.sheets }, (_, i) => signUrl(`${base}/sprite-${i}.jpg`, userId)),
+    vtt: signUrl(`${base}/thumbnails.vtt`, userId)
+  };
+}
+
+// Overrides for a video row: every file URL signed for the requesting user
+function signVideoUrls(video, userId) {
+  let subtitles = video.subtitles;
+  try {
+    if (subtitles) subtitles = JSON.stringify(JSON.parse(subtitles).map(sub => ({ ...sub, src: signUrl(sub.src, userId) })));
+  } catch (e) {
+    // Broken JSON: leave it for the frontend to ignore
+  }
+
+  return {
+    thumbnail: signUrl(video.thumbnail, userId),
+    channel_avatar: signUrl(video.channel_avatar, userId),
+    subtitles,
+    trickplay: formatTrickplay(video, userId),
+    streamUrl: signUrl(`/api/stream/${video.id}`, userId)
+  };
+}
+
+function getSessionUser(token) {
+  const session = db.prepare(`
+    SELECT sessions.id, sessions.expires_at, sessions.last_seen_at, users.id AS user_id, users.name, users.role
+    FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.id = ?
+  `).get(hashToken(token));
+  if (!session) return null;
+
+  const now = Date.now();
+  if (session.expires_at < now) {
+    db.prepare('DELETE FROM sessions WHERE id = ?').run(session.id);
+    return null;
+  }
+  if (now - session.last_seen_at > SESSION_REFRESH_MS) {
+    db.prepare('UPDATE sessions SET last_seen_at = ?, expires_at = ? WHERE id = ?').run(now, now + SESSION_TTL_MS, session.id);
+  }
+  return { id: session.user_id, name: session.name, role: session.role };
+}
+
+function getTokenUser(token) {
+  const row = db.prepare(`
+    SELECT api_tokens.id AS token_id, users.id, users.name, users.role
+    FROM api_tokens JOIN users ON users.id = api_tokens.user_id
+    WHERE api_tokens.token_hash = ?
+  `).get(hashToken(token));
+  if (!row) return null;
+
+  db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').run(Date.now(), row.token_id);
+  return { id: row.id, name: row.name, role: row.role };
+}
+
+function startSession(req, res, userId) {
+  const token = generateToken();
+  const now = Date.now();
+  db.prepare('INSERT INTO sessions (id, user_id, created_at, last_seen_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+    .run(hashToken(token), userId, now, now, now + SESSION_TTL_MS);
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'lax', secure: req.secure, maxAge: SESSION_TTL_MS });
+}
+
+// req.user is whoever the session cookie, API token or URL signature belongs to
+app.use((req, res, next) => {
+  req.user = null;
+
+  const sessionToken = getCookie(req, SESSION_COOKIE);
+  if (sessionToken) req.user = getSessionUser(sessionToken);
+
+  const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  if (!req.user && bearer) req.user = getTokenUser(bearer[1]);
+
+  if (!req.user && req.query.sig && SIGNABLE_PREFIXES.some(prefix => req.path.startsWith(prefix))) {
+    const userId = urlSigner.verify(req.path, req.query);
+    if (userId) req.user = db.prepare('SELECT id, name, role FROM users WHERE id = ?').get(userId) || null;
+  }
+
+  if (req.user || PUBLIC_ROUTES.has(req.path) || !PROTECTED_PREFIXES.some(prefix => req.path.startsWith(prefix))) {
+    return next();
+  }
+  if (req.path.startsWith('/api/')) return res.status(401).json({ error: "Not signed in" });
+  res.status(401).send('Unauthorized');
+});
+
+// Per-user video state, named like the old videos columns so responses keep their shape.
+// Use with USER_VIDEO_JOIN and pass the user id (or null) as its parameter.
+const USER_VIDEO_COLUMNS = `
+  COALESCE(user_videos.is_favorite, 0) AS is_favorite,
+  COALESCE(user_videos.playback_position, 0) AS playback_position,
+  COALESCE(user_videos.views, 0) AS views,
+  COALESCE(user_videos.is_watched, 0) AS is_watched`;
+const USER_VIDEO_JOIN = 'LEFT JOIN user_videos ON user_videos.video_id = videos.id AND user_videos.user_id = ?';
+
+const requireUser = (req, res, next) => {
+  if (!req.user) return res.status(401).json({ error: "Not signed in" });
+  next();
+};
+
+// Scans, metadata edits and thumbnails change the library for everyone
+const requireAdmin = (req, res, next) => {
+  if (!req.user) return res.status(401).json({ error: "Not signed in" });
+  if (req.user.role !== 'admin') return res.status(403).json({ error: "Only admins can do this" });
+  next();
+};
+
+// Library files (thumbnails, avatars, sidecars) with proper ranges and caching headers
+app.use('/media', async (req, res, next) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return next();
+
+  let relPath;
+  try {
+    relPath = decodeURIComponent(req.path);
+  } catch (e) {
+    return res.status(400).send('Bad path');
+  }
+
+  // Never leave the library root
+  const { root, fullPath } = resolveMediaPath(relPath);
+  if (!fullPath.startsWith(root + path.sep)) return res.status(403).send('Forbidden');
+
+  try {
+    await serveFile(req, res, fullPath);
+  } catch (err) {
+    console.error("Media error:", err);
+    if (!res.headersSent) res.status(500).send('Media Error');
+  }
+});
 app.use('/thumbnails', express.static(thumbnailsDir));
 app.use('/subtitles', express.static(subsDir));
 
@@ -688,138 +3101,578 @@ app.get('/api/discovery/random', (req, res) => {
     const { hideHidden } = req.query;
 
     // Default base query
-    let sql = 'SELECT * FROM videos';
+    let sql = `SELECT videos.*, ${USER_VIDEO_COLUMNS} FROM videos ${USER_VIDEO_JOIN}`;
 
     // Apply the filter if requested
     if (hideHidden === 'true') {
       sql += " WHERE filename NOT LIKE '.%'";
     }
 
-    // Add the randomization and limit
-    sql += ' ORDER BY RANDOM() LIMIT 7';
+    // Add the randomization and limit
+    sql += ' ORDER BY RANDOM() LIMIT 7';
+
+    const randomVideos = db.prepare(sql).all(req.user.id)
+      .map(v => ({ ...v, ...signVideoUrls(v, req.user.id) }));
+    res.json({ success: true, videos: randomVideos });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Dotfiles and anything inside a dot-folder
+const NOT_HIDDEN = "(filename NOT LIKE '.%' AND folder NOT LIKE '.%' AND folder NOT LIKE '%/.%')";
+
+// Card fields for a video row, as the grids expect them
+function formatVideo(v, userId) {
+  return {
+    ...v,
+    isFavorite: Boolean(v.is_favorite),
+    views: `${v.views} views`,
+    timeAgo: v.release_date
+      ? new Date(v.release_date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+      : new Date(v.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+    durationStr: formatDuration(v.duration),
+    ...signVideoUrls(v, userId)
+  };
+}
+
+// --- SORTING ---
+// Every SortOption except 'Relevance' (search only, see listVideos), as a list of sort keys.
+// No key is ever NULL (missing values are mapped to the end of the order instead), so a cursor
+// can pick up after any row by comparing against its keys. The video ID breaks ties.
+const SORT_ORDERS = {
+  'Air Date (Newest)': [{ sql: "COALESCE(videos.release_date, '')", dir: 'DESC' }],
+  'Air Date (Oldest)': [{ sql: 'videos.release_date IS NULL', dir: 'ASC' }, { sql: "COALESCE(videos.release_date, '')", dir: 'ASC' }],
+  'Date Added (Newest)': [{ sql: 'COALESCE(videos.created_at, 0)', dir: 'DESC' }],
+  'Date Added (Oldest)': [{ sql: 'videos.created_at IS NULL', dir: 'ASC' }, { sql: 'COALESCE(videos.created_at, 0)', dir: 'ASC' }],
+  'Name (A-Z)': [{ sql: 'videos.name COLLATE NOCASE', dir: 'ASC' }],
+  'Name (Z-A)': [{ sql: 'videos.name COLLATE NOCASE', dir: 'DESC' }],
+  'Most Viewed': [{ sql: 'COALESCE(user_videos.views, 0)', dir: 'DESC' }],
+  'Least Viewed': [{ sql: 'COALESCE(user_videos.views, 0)', dir: 'ASC' }],
+  'Duration (Longest)': [{ sql: 'COALESCE(videos.duration, 0)', dir: 'DESC' }],
+  'Duration (Shortest)': [{ sql: 'COALESCE(videos.duration, 0) = 0', dir: 'ASC' }, { sql: 'COALESCE(videos.duration, 0)', dir: 'ASC' }],
+  'File Size (Largest)': [{ sql: 'COALESCE(videos.file_size, 0)', dir: 'DESC' }],
+  'File Size (Smallest)': [{ sql: 'videos.file_size IS NULL', dir: 'ASC' }, { sql: 'COALESCE(videos.file_size, 0)', dir: 'ASC' }],
+  'Last Watched': [{ sql: 'COALESCE(user_videos.last_watched_at, 0)', dir: 'DESC' }],
+  'Recently Favorited': [{ sql: 'COALESCE(user_videos.favorited_at, 0)', dir: 'DESC' }],
+  // Same seed, same order: pages of a shuffled list don't overlap
+  'Random': (seed) => [{ sql: `seeded_random(videos.id, ${seed})`, dir: 'ASC' }]
+};
+const DEFAULT_SORT = 'Air Date (Newest)';
+const ID_SORT_KEY = { sql: 'videos.id', dir: 'ASC' };
+
+// FNV-1a over the seed and the ID. Deterministic, so SQLite may call it as often as it likes.
+db.function('seeded_random', { deterministic: true }, (id, seed) => {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+});
+
+// Sort keys for a sort name, ending on the ID. Unknown names get the default. Needs USER_VIDEO_JOIN in the query.
+function getSortKeys(sort, seed = 0) {
+  const keys = SORT_ORDERS[sort] || SORT_ORDERS[DEFAULT_SORT];
+  const safeSeed = Number.isSafeInteger(Number(seed)) ? Number(seed) : 0;
+  return [...(typeof keys === 'function' ? keys(safeSeed) : keys), ID_SORT_KEY];
+}
+
+function buildOrderBy(keys) {
+  return keys.map(key => `${key.sql} ${key.dir}`).join(', ');
+}
+
+// ORDER BY clause for a sort name
+function getSortOrder(sort, seed = 0) {
+  return buildOrderBy(getSortKeys(sort, seed));
+}
+
+// Rows strictly after the given key values in the order of `keys`:
+//   (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+function buildKeysetCondition(keys, values) {
+  const parts = [];
+  const params = [];
+  keys.forEach((key, i) => {
+    const equal = keys.slice(0, i).map(prev => `${prev.sql} = ?`);
+    parts.push(`(${[...equal, `${key.sql} ${key.dir === 'DESC' ? '<' : '>'} ?`].join(' AND ')})`);
+    params.push(...values.slice(0, i), values[i]);
+  });
+  return { sql: `(${parts.join(' OR ')})`, params };
+}
+
+// Cursors are opaque to clients: the order they were made for, the last row's sort keys
+// and how many rows came before (smart playlists stop at their limit)
+function encodeCursor(order, values, served) {
+  return Buffer.from(JSON.stringify({ o: order, k: values, n: served })).toString('base64url');
+}
+
+// The cursor's key values and row count, or null if it is malformed or belongs to another order
+function decodeCursor(cursor, order, keyCount) {
+  try {
+    const data = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (!data || data.o !== order || !Array.isArray(data.k) || data.k.length !== keyCount) return null;
+    if (!data.k.every(v => v === null || ['string', 'number'].includes(typeof v))) return null;
+    if (!Number.isInteger(data.n) || data.n < 0) return null;
+    return { values: data.k, served: data.n };
+  } catch (e) {
+    return null;
+  }
+}
+
+// --- FACETS ---
+// Filters with counts for the filter bar. Each facet turns a video into one value (tags: several)
+// and is filtered with repeated query params: ?tag=a&tag=b matches either, facets combine with AND.
+const FACETS = {
+  channel: { sql: 'videos.channel' },
+  tag: { tags: true },
+  year: { sql: 'substr(videos.release_date, 1, 4)', order: 'desc' },
+  duration: {
+    sql: `CASE
+      WHEN COALESCE(videos.duration, 0) = 0 THEN NULL
+      WHEN videos.duration < 240 THEN 'short'
+      WHEN videos.duration < 1200 THEN 'medium'
+      WHEN videos.duration < 3600 THEN 'long'
+      ELSE 'feature' END`,
+    order: ['short', 'medium', 'long', 'feature']
+  },
+  // By the longer side, so portrait videos land in the same bucket as their landscape versions
+  resolution: {
+    sql: `CASE
+      WHEN videos.width IS NULL OR videos.height IS NULL THEN NULL
+      WHEN MAX(videos.width, videos.height) >= 3200 THEN '2160p'
+      WHEN MAX(videos.width, videos.height) >= 2200 THEN '1440p'
+      WHEN MAX(videos.width, videos.height) >= 1600 THEN '1080p'
+      WHEN MAX(videos.width, videos.height) >= 1100 THEN '720p'
+      ELSE 'sd' END`,
+    order: ['2160p', '1440p', '1080p', '720p', 'sd']
+  },
+  codec: { sql: "NULLIF(videos.video_codec, '')" },
+  subtitles: { sql: "CASE WHEN COALESCE(videos.subtitles, '[]') = '[]' THEN 'no' ELSE 'yes' END", order: ['yes', 'no'] },
+  watched: {
+    sql: `CASE
+      WHEN COALESCE(user_videos.is_watched, 0) = 1 THEN 'watched'
+      WHEN COALESCE(user_videos.playback_position, 0) > 0 THEN 'inProgress'
+      ELSE 'unwatched' END`,
+    order: ['unwatched', 'inProgress', 'watched']
+  }
+};
+const MAX_FACET_VALUES = 50;
+
+// Genres come in as "Comedy, Drama", "Comedy / Drama" or "Comedy; Drama" depending on the source.
+// Returns a JSON array (for json_each) with each tag once.
+db.function('split_tags', { deterministic: true }, (genre) => {
+  if (!genre) return '[]';
+  const seen = new Set();
+  const tags = [];
+  for (const part of String(genre).split(/[,;/|]/)) {
+    const tag = part.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return JSON.stringify(tags);
+});
+
+// The facet values a request filters on, e.g. { tag: ['Comedy'], year: ['2020', '2021'] }
+function getFacetFilters(query) {
+  const filters = {};
+  for (const key of Object.keys(FACETS)) {
+    const values = [].concat(query[key] ?? []).filter(v => typeof v === 'string' && v !== '');
+    if (values.length > 0) filters[key] = values.slice(0, MAX_FACET_VALUES);
+  }
+  return filters;
+}
+
+// SQL condition (on videos joined with user_videos) matching any of a facet's values
+function buildFacetCondition(key, values) {
+  const placeholders = values.map(() => '?').join(', ');
+  if (FACETS[key].tags) {
+    return {
+      sql: `EXISTS (SELECT 1 FROM json_each(split_tags(videos.genre)) WHERE json_each.value COLLATE NOCASE IN (${placeholders}))`,
+      params: values
+    };
+  }
+  return { sql: `${FACETS[key].sql} IN (${placeholders})`, params: values };
+}
+
+// Value counts of every facet in a view. Each facet ignores its own filter,
+// so picking one value still shows how many videos the others would add.
+function getFacetCounts(userId, query) {
+  const facets = {};
+  for (const [key, facet] of Object.entries(FACETS)) {
+    const built = buildVideoQuery(userId, { ...query, sort: undefined, [key]: undefined });
+    const rows = facet.tags
+      ? db.prepare(`
+          SELECT MIN(tag.value) AS value, COUNT(*) AS count
+          FROM ${built.from} JOIN json_each(split_tags(videos.genre)) AS tag${whereSql(built.conditions)}
+          GROUP BY tag.value COLLATE NOCASE ORDER BY count DESC, value LIMIT ?
+        `).all(...built.params, MAX_FACET_VALUES)
+      : db.prepare(`
+          SELECT ${facet.sql} AS value, COUNT(*) AS count
+          FROM ${built.from}${whereSql([...built.conditions, `${facet.sql} IS NOT NULL`])}
+          GROUP BY value ORDER BY count DESC, value LIMIT ?
+        `).all(...built.params, MAX_FACET_VALUES);
+
+    // Buckets keep their natural order, years go newest first
+    if (Array.isArray(facet.order)) rows.sort((a, b) => facet.order.indexOf(a.value) - facet.order.indexOf(b.value));
+    else if (facet.order === 'desc') rows.sort((a, b) => String(b.value).localeCompare(String(a.value)));
+    facets[key] = rows.map(row => ({ value: String(row.value), count: row.count }));
+  }
+  return facets;
+}
+
+// --- SMART PLAYLISTS ---
+// A smart playlist stores rules instead of videos, e.g.
+//   { match: 'all', conditions: [{ field: 'channel', op: 'is', value: 'X' }, { field: 'duration', op: 'lt', value: 20 }],
+//     sort: 'Air Date (Newest)', limit: 50 }
+// and is filled by listVideos every time it is opened.
+const SMART_RULE_FIELDS = {
+  title: { type: 'text', column: 'videos.name' },
+  channel: { type: 'text', column: 'videos.channel' },
+  genre: { type: 'text', column: 'videos.genre' },
+  folder: { type: 'folder', column: 'videos.folder' },
+  duration: { type: 'number', column: 'videos.duration', scale: 60 }, // Minutes
+  views: { type: 'number', column: 'COALESCE(user_videos.views, 0)' },
+  releaseDate: { type: 'date', column: 'videos.release_date' },
+  added: { type: 'date', column: 'videos.created_at' },
+  watched: { type: 'boolean', column: 'COALESCE(user_videos.is_watched, 0)' },
+  favorite: { type: 'boolean', column: 'COALESCE(user_videos.is_favorite, 0)' }
+};
+const SMART_RULE_OPS = {
+  text: ['is', 'isNot', 'contains'],
+  folder: ['is', 'isNot'],
+  number: ['lt', 'gt'],
+  date: ['inLast', 'notInLast'], // Days
+  boolean: ['is']
+};
+// A shuffle has no seed to keep, so smart playlists only use the fixed orders
+const SMART_PLAYLIST_SORTS = Object.keys(SORT_ORDERS).filter(sort => sort !== 'Random');
+const SMART_PLAYLIST_MAX_LIMIT = 1000;
+const MAX_SMART_RULES = 20;
+
+// Validates rules from a request. Returns the cleaned-up rules, or null.
+function parseSmartRules(input) {
+  if (!input || typeof input !== 'object' || !Array.isArray(input.conditions)) return null;
+  if (input.conditions.length > MAX_SMART_RULES) return null;
+
+  const conditions = [];
+  for (const rule of input.conditions) {
+    const field = rule && SMART_RULE_FIELDS[rule.field];
+    if (!field || !SMART_RULE_OPS[field.type].includes(rule.op)) return null;
+
+    let value = rule.value;
+    if (field.type === 'text' || field.type === 'folder') {
+      if (typeof value !== 'string' || (field.type === 'text' && !value.trim())) return null;
+      value = value.trim();
+    } else if (field.type === 'boolean') {
+      if (typeof value !== 'boolean') return null;
+    } else {
+      value = Number(value);
+      if (!Number.isFinite(value) || value < 0) return null;
+    }
+    conditions.push({ field: rule.field, op: rule.op, value });
+  }
+
+  const limit = input.limit == null || input.limit === '' ? null : Number(input.limit);
+  if (limit !== null && !(Number.isInteger(limit) && limit > 0 && limit <= SMART_PLAYLIST_MAX_LIMIT)) return null;
+
+  const sort = input.sort || SMART_PLAYLIST_SORTS[0];
+  if (!SMART_PLAYLIST_SORTS.includes(sort)) return null;
+
+  return { match: input.match === 'any' ? 'any' : 'all', conditions, sort, limit };
+}
+
+// SQL condition (on videos joined with user_videos) for parsed rules
+function buildSmartRuleCondition(rules) {
+  const parts = [];
+  const params = [];
+
+  for (const { field: name, op, value } of rules.conditions) {
+    const field = SMART_RULE_FIELDS[name];
+    const col = field.column;
+
+    if (field.type === 'text') {
+      if (op === 'contains') {
+        parts.push(`${col} LIKE ? ESCAPE '\\'`);
+        params.push(`%${escapeLike(value)}%`);
+      } else {
+        parts.push(op === 'is' ? `${col} = ? COLLATE NOCASE` : `COALESCE(${col}, '') <> ? COLLATE NOCASE`);
+        params.push(value);
+      }
+    } else if (field.type === 'folder') {
+      // A folder includes everything below it. '' is the library root.
+      if (!value) {
+        parts.push(op === 'is' ? '1' : '0');
+        continue;
+      }
+      parts.push(`${op === 'is' ? '' : 'NOT '}(${col} = ? OR ${col} LIKE ? ESCAPE '\\')`);
+      params.push(value, `${escapeLike(value)}/%`);
+    } else if (field.type === 'number') {
+      parts.push(`${col} ${op === 'lt' ? '<' : '>'} ?`);
+      params.push(value * (field.scale || 1));
+    } else if (field.type === 'date') {
+      const since = Date.now() - value * 24 * 60 * 60 * 1000;
+      // release_date is an ISO date string, created_at a timestamp
+      const bound = name === 'releaseDate' ? new Date(since).toISOString().slice(0, 10) : since;
+      parts.push(op === 'inLast' ? `${col} >= ?` : `${col} < ?`);
+      params.push(bound);
+    } else {
+      parts.push(`${col} = ?`);
+      params.push(value ? 1 : 0);
+    }
+  }
+
+  if (parts.length === 0) return { sql: '1', params };
+  return { sql: `(${parts.join(rules.match === 'any' ? ' OR ' : ' AND ')})`, params };
+}
 
-    const randomVideos = db.prepare(sql).all();
-    res.json({ success: true, videos: randomVideos });
+// Rules of one of the user's playlists, or null for static (or missing) playlists
+function getSmartRules(playlistId, userId) {
+  const row = db.prepare('SELECT rules FROM playlists WHERE id = ? AND user_id = ?').get(playlistId, userId);
+  if (!row || !row.rules) return null;
+  try {
+    return parseSmartRules(JSON.parse(row.rules));
   } catch (e) {
-    res.status(500).json({ error: e.message });
+    return null;
   }
-});
+}
+
+// Every video a smart playlist currently holds, in its order (just the id unless other columns are asked for)
+function getSmartPlaylistVideos(userId, rules, columns = 'videos.id') {
+  const condition = buildSmartRuleCondition(rules);
+  return db.prepare(`
+    SELECT ${columns} FROM videos ${USER_VIDEO_JOIN}
+    WHERE ${condition.sql} ORDER BY ${getSortOrder(rules.sort)} LIMIT ?
+  `).all(userId, ...condition.params, rules.limit || -1);
+}
 
 // --- VIDEOS (Paginated) ---
-app.get('/api/videos', (req, res) => {
-  const { page, limit, folder, sort, search, hideHidden, favorites, history, playlist } = req.query; 
-  const offset = (parseInt(page) - 1) * parseInt(limit);
-
-  let orderBy = 'release_date DESC';
-
-  // Standard Sorts
-  if (sort === 'Name (A-Z)') orderBy = 'name ASC';
-  if (sort === 'Name (Z-A)') orderBy = 'name DESC';
-  if (sort === 'Date Added (Newest)') orderBy = 'created_at DESC';
-  if (sort === 'Date Added (Oldest)') orderBy = 'created_at ASC';
-  if (sort === 'Air Date (Newest)') orderBy = 'release_date DESC';
-  if (sort === 'Air Date (Oldest)') orderBy = 'release_date ASC';
-
-  let countQuery = 'SELECT COUNT(*) as total FROM videos';
-  let queryStr = 'SELECT videos.* FROM videos';
-  let whereClause = '';
-  let params = [];
+// FROM and WHERE of a user's library view, with the sort keys that order it.
+// Shared by listVideos and countVideos.
+function buildVideoQuery(userId, query) {
+  const { sort, seed, search, hideHidden, favorites, history, playlist, unwatched, library } = query;
+  let { folder } = query;
+
+  // Smart playlists are a saved filter over the whole library, with their own order and size
+  const smartRules = playlist ? getSmartRules(playlist, userId) : null;
+  let order = smartRules ? smartRules.sort : (SORT_ORDERS[sort] ? sort : DEFAULT_SORT);
+  if (order === 'Random') order = `Random:${seed}`;
+  let keys = getSortKeys(smartRules ? smartRules.sort : sort, seed);
+  if (smartRules) folder = null;
+
+  // Favorites, progress, views, history and playlists all belong to the selected profile
+  let columns = `videos.*, ${USER_VIDEO_COLUMNS}`;
+  let from = `videos ${USER_VIDEO_JOIN}`;
+  const params = [];
   const conditions = [];
 
   // --- 1. FILTER LOGIC ---
-  if (playlist) {
-    queryStr = 'SELECT videos.*, playlist_videos.added_at FROM videos JOIN playlist_videos ON videos.id = playlist_videos.video_id';
-    countQuery = 'SELECT COUNT(*) as total FROM videos JOIN playlist_videos ON videos.id = playlist_videos.video_id';
-    conditions.push('playlist_videos.playlist_id = ?');
-    params.push(playlist);
-    orderBy = 'playlist_videos.added_at DESC';
+  if (playlist && !smartRules) {
+    columns += ', playlist_videos.added_at';
+    from = `videos JOIN playlist_videos ON videos.id = playlist_videos.video_id ${USER_VIDEO_JOIN}`;
+    conditions.push('playlist_videos.playlist_id = ?', 'playlist_videos.playlist_id IN (SELECT id FROM playlists WHERE user_id = ?)');
+    params.push(playlist, userId);
+    order = 'Playlist';
+    keys = [{ sql: 'playlist_videos.position', dir: 'ASC' }, ID_SORT_KEY];
   }
   else if (history === 'true') {
-    queryStr = 'SELECT videos.*, history.watched_at FROM videos JOIN history ON videos.id = history.video_id';
-    countQuery = 'SELECT COUNT(*) as total FROM videos JOIN history ON videos.id = history.video_id';
-    orderBy = 'history.watched_at DESC';
+    columns += ', user_history.watched_at';
+    from = `videos JOIN user_history ON videos.id = user_history.video_id ${USER_VIDEO_JOIN}`;
+    conditions.push('user_history.user_id = ?');
+    params.push(userId);
+    order = 'History';
+    keys = [{ sql: 'user_history.watched_at', dir: 'DESC' }, ID_SORT_KEY];
   }
   else {
     if (hideHidden === 'true') {
-      conditions.push("(filename NOT LIKE '.%' AND folder NOT LIKE '.%' AND folder NOT LIKE '%/.%')");
+      conditions.push(NOT_HIDDEN);
+    }
+    if (favorites === 'true') conditions.push('user_videos.is_favorite = 1');
+    if (library && !smartRules) {
+      conditions.push('videos.library_id = ?');
+      params.push(library);
     }
-    if (favorites === 'true') conditions.push('is_favorite = 1');
     if (folder) {
-      conditions.push('(folder = ? OR folder LIKE ?)');
-      params.push(folder, `${folder}/%`);
+      conditions.push("(folder = ? OR folder LIKE ? ESCAPE '\\')");
+      params.push(folder, `${escapeLike(folder)}/%`);
+    }
+    if (smartRules) {
+      const condition = buildSmartRuleCondition(smartRules);
+      conditions.push(condition.sql);
+      params.push(...condition.params);
     }
   }
 
-  // --- 2. SEARCH (Applies to all views) ---
-  if (search) {
-    const tokens = search.trim().split(/\s+/);
-    tokens.forEach(token => {
-      conditions.push('(name LIKE ? OR channel LIKE ? OR genre LIKE ?)');
-      params.push(`%${token}%`, `%${token}%`, `%${token}%`);
-    });
+  if (unwatched === 'true') conditions.push('COALESCE(user_videos.is_watched, 0) = 0');
+
+  for (const [key, values] of Object.entries(getFacetFilters(query))) {
+    const condition = buildFacetCondition(key, values);
+    conditions.push(condition.sql);
+    params.push(...condition.params);
   }
 
-  if (conditions.length > 0) whereClause = ' WHERE ' + conditions.join(' AND ');
+  // --- 2. SEARCH (Applies to all views) ---
+  const searchQuery = search ? parseSearchQuery(search) : null;
+  const rankParams = [];
+
+  if (searchQuery && searchQuery.all) {
+    const condition = buildSearchCondition(searchQuery);
+    conditions.push(condition.sql);
+    params.push(...condition.params);
+
+    // Title hits outrank channel and tag hits, which outrank description hits.
+    // Subtitle-only matches have no rank and come last.
+    if (sort === 'Relevance') {
+      from += ` LEFT JOIN (
+        SELECT video_id AS fts_video_id, bm25(videos_fts, 10.0, 5.0, 1.0, 3.0) AS fts_rank
+        FROM videos_fts WHERE videos_fts MATCH ?
+      ) search_rank ON search_rank.fts_video_id = videos.id`;
+      rankParams.push(searchQuery.all);
+      order = 'Relevance';
+      keys = [{ sql: 'search_rank.fts_rank IS NULL', dir: 'ASC' }, { sql: 'COALESCE(search_rank.fts_rank, 0)', dir: 'ASC' }, ID_SORT_KEY];
+    }
+  } else if (searchQuery) {
+    // Nothing searchable in the input (punctuation only)
+    conditions.push('0');
+  }
 
-  const finalQuery = `${queryStr} ${whereClause} ORDER BY ${orderBy} LIMIT ? OFFSET ?`;
-  const finalCountQuery = `${countQuery} ${whereClause}`;
+  return {
+    columns,
+    from,
+    conditions,
+    // The joins take the user ID (and the search terms for ranking) ahead of the filters
+    params: [userId, ...rankParams, ...params],
+    keys,
+    order,
+    smartRules,
+    searchQuery
+  };
+}
 
-  try {
-    const totalObj = db.prepare(finalCountQuery).get(...params);
-    const total = totalObj ? totalObj.total : 0;
+function whereSql(conditions) {
+  return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+}
 
-    const videos = db.prepare(finalQuery).all(...params, limit, offset);
+// Number of videos in a view. The smart playlist's own limit caps it.
+function countVideos(userId, query) {
+  const built = buildVideoQuery(userId, query);
+  const row = db.prepare(`SELECT COUNT(*) as total FROM ${built.from}${whereSql(built.conditions)}`).get(...built.params);
+  const total = row ? row.total : 0;
+  return built.smartRules && built.smartRules.limit ? Math.min(total, built.smartRules.limit) : total;
+}
 
-    // Format output
-    const formatted = videos.map(v => ({
-      ...v,
-      isFavorite: Boolean(v.is_favorite),
-      views: `${v.views} views`,
-      timeAgo: v.release_date
-        ? new Date(v.release_date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
-        : new Date(v.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
-      durationStr: formatDuration(v.duration),
+// One page of a user's library view. Shared by /api/videos and /api/channels/:name.
+// Pages follow a `cursor` (the `nextCursor` of the page before), so rows added or removed
+// by a scan don't shift the rest of the list. Passing `page` instead gets the old
+// numbered pages with a total count.
+function listVideos(userId, query) {
+  const { page, cursor } = query;
+  const built = buildVideoQuery(userId, query);
+  const { smartRules, searchQuery } = built;
+
+  const formatRows = (videos) => {
+    const searchMatches = searchQuery && searchQuery.all
+      ? getSearchMatches(videos.map(v => v.id), searchQuery)
+      : null;
+
+    return videos.map(v => ({
+      ...formatVideo(v, userId),
+      ...(searchMatches ? { searchMatch: searchMatches.get(v.id) } : {}),
     }));
+  };
 
-    res.json({
-      videos: formatted,
-      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
-    });
+  // Both modes: 50 rows unless asked otherwise, never more than 1000
+  const limit = Math.min(Math.max(parseInt(query.limit) || 50, 1), 1000);
+
+  if (page !== undefined) {
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+    const offset = (pageNumber - 1) * limit;
+    let total = countVideos(userId, query);
+
+    // The smart playlist's own limit caps the whole list, not just one page
+    let pageLimit = limit;
+    if (smartRules && smartRules.limit) {
+      pageLimit = Math.max(0, Math.min(limit, smartRules.limit - offset));
+    }
+
+    const videos = db.prepare(`
+      SELECT ${built.columns} FROM ${built.from}${whereSql(built.conditions)}
+      ORDER BY ${buildOrderBy(built.keys)} LIMIT ? OFFSET ?
+    `).all(...built.params, pageLimit, offset);
+
+    return {
+      videos: formatRows(videos),
+      pagination: { page: pageNumber, limit, total, totalPages: Math.ceil(total / limit) }
+    };
+  }
+
+  const conditions = [...built.conditions];
+  const params = [...built.params];
+  let served = 0;
+
+  if (cursor) {
+    const position = decodeCursor(cursor, built.order, built.keys.length);
+    if (!position) return { error: "Invalid cursor" };
+    const condition = buildKeysetCondition(built.keys, position.values);
+    conditions.push(condition.sql);
+    params.push(...condition.params);
+    served = position.served;
+  }
+
+  let pageLimit = limit;
+  if (smartRules && smartRules.limit) pageLimit = Math.max(0, Math.min(limit, smartRules.limit - served));
+  if (pageLimit === 0) return { videos: [], nextCursor: null };
+
+  // One row past the page tells whether there is another one
+  const keyColumns = built.keys.map((key, i) => `${key.sql} AS sort_key_${i}`).join(', ');
+  const rows = db.prepare(`
+    SELECT ${built.columns}, ${keyColumns} FROM ${built.from}${whereSql(conditions)}
+    ORDER BY ${buildOrderBy(built.keys)} LIMIT ?
+  `).all(...params, pageLimit + 1);
+
+  const hasMore = rows.length > pageLimit;
+  const videos = rows.slice(0, pageLimit).map(row => {
+    const video = { ...row };
+    built.keys.forEach((_, i) => delete video[`sort_key_${i}`]);
+    return video;
+  });
+
+  const last = rows[videos.length - 1];
+  const nextCursor = hasMore
+    ? encodeCursor(built.order, built.keys.map((_, i) => last[`sort_key_${i}`]), served + videos.length)
+    : null;
+
+  return { videos: formatRows(videos), nextCursor };
+}
+
+app.get('/api/videos', (req, res) => {
+  try {
+    const result = listVideos(req.user.id, req.query);
+    if (result.error) return res.status(400).json(result);
+    res.json(result);
   } catch (e) {
     console.error(e);
     res.status(500).json({ error: "Database error" });
   }
-}); // <--- THE VIDEOS ROUTE SAFELY CLOSES HERE
+});
 
-// --- DOWNLOAD ROUTE (NEW) ---
-app.get('/api/download/:id', async (req, res) => {
+// Total for a view, kept apart so paging through it never has to count
+app.get('/api/videos/count', (req, res) => {
   try {
-    const video = db.prepare('SELECT path, filename FROM videos WHERE id = ?').get(req.params.id);
-    if (!video) return res.status(404).send('Not found');
-
-    let fullPath = video.path;
-    if (video.path.startsWith('/media')) {
-      const relPath = decodeURIComponent(video.path.replace(/^\/media\//, ''));
-      fullPath = path.join(mediaDir, relPath);
-    }
-
-    try {
-      await fs.promises.access(fullPath, fs.constants.F_OK);
-    } catch (e) {
-      return res.status(404).send('File missing');
-    }
-
-    const downloadName = video.filename || path.basename(fullPath);
+    res.json({ total: countVideos(req.user.id, req.query) });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Database error" });
+  }
+});
 
-    res.download(fullPath, downloadName, (err) => {
-        if (err && !res.headersSent) {
-            console.error("Download error:", err);
-            res.status(500).send("Error downloading file");
-        }
-    });
-  } catch (err) {
-    console.error("Download route error:", err);
-    if (!res.headersSent) res.status(500).send('Download Error');
+// Facet counts for a view. Takes the same filters as /api/videos.
+app.get('/api/facets', (req, res) => {
+  try {
+    res.json({ facets: getFacetCounts(req.user.id, req.query) });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: "Database error" });
   }
 });
 
@@ -829,79 +3682,20 @@ app.get('/api/download/:id', async (req, res) => {
     const video = db.prepare('SELECT path, filename FROM videos WHERE id = ?').get(req.params.id);
     if (!video) return res.status(404).send('Not found');
 
-    let fullPath = video.path;
-    if (video.path.startsWith('/media')) {
-      const relPath = decodeURIComponent(video.path.replace(/^\/media\//, ''));
-      fullPath = path.join(mediaDir, relPath);
-    }
-
-    // Verify the file actually exists on disk before trying to send it
-    try {
-      await fs.promises.access(fullPath, fs.constants.F_OK);
-    } catch (e) {
-      return res.status(404).send('File missing');
-    }
-
-    // Use the original filename from the database, or extract it from the path
-    const downloadName = video.filename || path.basename(fullPath);
+    const fullPath = resolveVideoPath(video.path);
 
-    // res.download automatically sets the correct headers to force a file download
-    res.download(fullPath, downloadName, (err) => {
-        if (err && !res.headersSent) {
-            console.error("Download error:", err);
-            res.status(500).send("Error downloading file");
-        }
-    });
+    // Use the original filename from the database, or extract it from the path.
+    // Ranges work here too, so interrupted downloads can resume.
+    await serveFile(req, res, fullPath, { downloadName: video.filename || path.basename(fullPath) });
   } catch (err) {
     console.error("Download route error:", err);
     if (!res.headersSent) res.status(500).send('Download Error');
   }
-
-  // --- 2. SEARCH (Applies to all views) ---
-  if (search) {
-    const tokens = search.trim().split(/\s+/);
-    tokens.forEach(token => {
-      // UPDATED: Now searches Name OR Channel OR Genre (Tags)
-      conditions.push('(name LIKE ? OR channel LIKE ? OR genre LIKE ?)');
-      params.push(`%${token}%`, `%${token}%`, `%${token}%`);
-    });
-  }
-
-  if (conditions.length > 0) whereClause = ' WHERE ' + conditions.join(' AND ');
-
-  const finalQuery = `${queryStr} ${whereClause} ORDER BY ${orderBy} LIMIT ? OFFSET ?`;
-  const finalCountQuery = `${countQuery} ${whereClause}`;
-
-  try {
-    const totalObj = db.prepare(finalCountQuery).get(...params);
-    const total = totalObj ? totalObj.total : 0;
-
-    const videos = db.prepare(finalQuery).all(...params, limit, offset);
-
-    // Format output
-    const formatted = videos.map(v => ({
-      ...v,
-      isFavorite: Boolean(v.is_favorite),
-      views: `${v.views} views`,
-      timeAgo: v.release_date
-        ? new Date(v.release_date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
-        : new Date(v.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
-      durationStr: formatDuration(v.duration),
-    }));
-
-    res.json({
-      videos: formatted,
-      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
-    });
-  } catch (e) {
-    console.error(e);
-    res.status(500).json({ error: "Database error" });
-  }
 });
 
 // --- UPDATED: Save Metadata ---
 // --- UPDATED: Save Metadata ---
-app.post('/api/videos/:id/metadata', (req, res) => {
+app.post('/api/videos/:id/metadata', requireAdmin, (req, res) => {
   const { id } = req.params;
   // 1. Accept showtitle from the frontend
   const { title, date, tags, description, showtitle } = req.body || {}; 
@@ -915,23 +3709,20 @@ app.post('/api/videos/:id/metadata', (req, res) => {
     if (!video) return res.status(404).json({ error: "Video not found" });
 
     // Resolve Path
-    let fullPath = video.path;
-    if (video.path.startsWith('/media')) {
-      const relPath = decodeURIComponent(video.path.replace(/^\/media\//, ''));
-      fullPath = path.join(mediaDir, relPath);
-    }
+    const fullPath = resolveVideoPath(video.path);
 
     // 2. Pass showtitle to the NFO writer
     const nfoResult = writeNfo(fullPath, {
       title, date, tags, description, showtitle
     });
 
-    // 3. Update DB (Map showtitle -> channel)
+    // 3. Update DB (Map showtitle -> channel). The videos_fts triggers re-index the row.
     db.prepare(`
       UPDATE videos 
       SET name = ?, release_date = ?, genre = ?, description = ?, channel = ?
       WHERE id = ?
     `).run(title, date || null, tags || null, description || null, showtitle || "Local Library", id);
+    saveChapters(id, 'description', parseDescriptionChapters(description));
     
     res.json({ success: true, nfoStatus: nfoResult });
   } catch (e) {
@@ -943,16 +3734,13 @@ app.post('/api/videos/:id/metadata', (req, res) => {
 // --- GET SINGLE VIDEO METADATA ---
 app.get('/api/videos/:id', (req, res) => {
   try {
-    const video = db.prepare('SELECT * FROM videos WHERE id = ?').get(req.params.id);
+    const video = db.prepare(`SELECT videos.*, ${USER_VIDEO_COLUMNS} FROM videos ${USER_VIDEO_JOIN} WHERE videos.id = ?`)
+      .get(req.user.id, req.params.id);
     if (!video) return res.status(404).json({ error: "Video not found" });
 
     // --- UPDATED: Check NFO Status (Smart) ---
     let nfoStatus = 'none';
-    let fullPath = video.path;
-    if (video.path.startsWith('/media')) {
-      const relPath = decodeURIComponent(video.path.replace(/^\/media\//, ''));
-      fullPath = path.join(mediaDir, relPath);
-    }
+    const fullPath = resolveVideoPath(video.path);
 
     // USE THE HELPER HERE!
     const nfoPath = findNfoFile(fullPath);
@@ -974,10 +3762,12 @@ app.get('/api/videos/:id', (req, res) => {
       timeAgo: video.release_date
         ? new Date(video.release_date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })
         : new Date(video.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
-      thumbnail: video.thumbnail || null,
+      ...signVideoUrls(video, req.user.id),
       durationStr: formatDuration(video.duration),
-      channelAvatar: video.channel_avatar,
+      channelAvatar: signUrl(video.channel_avatar, req.user.id),
       path: video.path,
+      chapters: getChapters(video.id, video.duration, getLibrary(video.library_id)),
+      mediaInfo: getMediaInfo(video.id),
       nfoStatus // <--- SEND TO FRONTEND
     };
 
@@ -994,48 +3784,7 @@ app.get('/api/stream/:id', async (req, res) => {
     const video = db.prepare('SELECT path FROM videos WHERE id = ?').get(req.params.id);
     if (!video) return res.status(404).send('Not found');
 
-    // Handle both absolute paths and relative /media/ paths
-    let fullPath = video.path;
-    if (video.path.startsWith('/media')) {
-      const relPath = decodeURIComponent(video.path.replace(/^\/media\//, ''));
-      fullPath = path.join(mediaDir, relPath);
-    }
-
-    // CRITICAL FIX: Use Async check to prevent server freezing during playback
-    try {
-      await fs.promises.access(fullPath, fs.constants.F_OK);
-    } catch (e) {
-      return res.status(404).send('File missing');
-    }
-
-    const stat = await fs.promises.stat(fullPath);
-    const fileSize = stat.size;
-    const range = req.headers.range;
-
-    if (range) {
-      const parts = range.replace(/bytes=/, "").split("-");
-      const start = parseInt(parts[0], 10);
-      const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-      const chunksize = (end - start) + 1;
-      const file = fs.createReadStream(fullPath, { start, end });
-
-      const head = {
-        'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-        'Accept-Ranges': 'bytes',
-        'Content-Length': chunksize,
-        'Content-Type': 'video/mp4',
-      };
-
-      res.writeHead(206, head);
-      file.pipe(res);
-    } else {
-      const head = {
-        'Content-Length': fileSize,
-        'Content-Type': 'video/mp4',
-      };
-      res.writeHead(200, head);
-      fs.createReadStream(fullPath).pipe(res);
-    }
+    await serveFile(req, res, resolveVideoPath(video.path));
   } catch (err) {
     console.error("Stream error:", err);
     if (!res.headersSent) res.status(500).send('Stream Error');
@@ -1043,18 +3792,29 @@ app.get('/api/stream/:id', async (req, res) => {
 });
 
 // NEW: Toggle Favorite (Persist to DB)
-app.post('/api/videos/:id/favorite', (req, res) => {
+app.post('/api/videos/:id/favorite', requireUser, (req, res) => {
   const { id } = req.params;
   const { isFavorite } = req.body;
-  db.prepare('UPDATE videos SET is_favorite = ? WHERE id = ?').run(isFavorite ? 1 : 0, id);
-  res.json({ success: true });
+  try {
+    db.prepare(`
+      INSERT INTO user_videos (user_id, video_id, is_favorite, favorited_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(user_id, video_id) DO UPDATE SET is_favorite = excluded.is_favorite, favorited_at = excluded.favorited_at
+    `).run(req.user.id, id, isFavorite ? 1 : 0, isFavorite ? Date.now() : null);
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Failed to save favorite", e);
+    res.status(500).json({ error: "Failed to save favorite" });
+  }
 });
 
 // Increment View Count
-app.post('/api/videos/:id/view', (req, res) => {
+app.post('/api/videos/:id/view', requireUser, (req, res) => {
   const { id } = req.params;
   try {
-    db.prepare('UPDATE videos SET views = views + 1 WHERE id = ?').run(id);
+    db.prepare(`
+      INSERT INTO user_videos (user_id, video_id, views) VALUES (?, ?, 1)
+      ON CONFLICT(user_id, video_id) DO UPDATE SET views = views + 1
+    `).run(req.user.id, id);
     res.json({ success: true });
   } catch (e) {
     console.error("Failed to increment view", e);
@@ -1063,20 +3823,44 @@ app.post('/api/videos/:id/view', (req, res) => {
 });
 
 // NEW: Save Playback Progress
-app.post('/api/videos/:id/progress', (req, res) => {
+// Passing the watched threshold (or reaching the end, `completed`) marks the video as watched
+app.post('/api/videos/:id/progress', requireUser, (req, res) => {
   const { id } = req.params;
-  const { time } = req.body;
+  const { time, completed } = req.body;
   try {
-    db.prepare('UPDATE videos SET playback_position = ? WHERE id = ?').run(Math.floor(time), id);
-    res.json({ success: true });
+    const video = db.prepare('SELECT duration FROM videos WHERE id = ?').get(id);
+    const position = Math.floor(time) || 0;
+    const watched = Boolean(completed) ||
+      Boolean(video && video.duration > 0 && position >= video.duration * getWatchedThreshold(req.user.id));
+
+    db.prepare(`
+      INSERT INTO user_videos (user_id, video_id, playback_position, last_watched_at, is_watched) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, video_id) DO UPDATE SET
+        playback_position = excluded.playback_position,
+        last_watched_at = excluded.last_watched_at,
+        is_watched = MAX(COALESCE(is_watched, 0), excluded.is_watched)
+    `).run(req.user.id, id, position, Date.now(), watched ? 1 : 0);
+    res.json({ success: true, watched });
   } catch (e) {
     console.error("Failed to save progress", e);
     res.status(500).json({ error: "Failed to save progress" });
   }
 });
 
+// Manual toggle. Marking as watched also drops the resume point.
+app.post('/api/videos/:id/watched', requireUser, (req, res) => {
+  const watched = req.body.watched !== false;
+  try {
+    setWatched(req.user.id, [req.params.id], watched);
+    res.json({ success: true, watched });
+  } catch (e) {
+    console.error("Failed to update watched state", e);
+    res.status(500).json({ error: "Failed to update watched state" });
+  }
+});
+
 // --- THUMBNAILS (Custom Save/Remove) ---
-app.post('/api/videos/:id/thumbnail', (req, res) => {
+app.post('/api/videos/:id/thumbnail', requireAdmin, (req, res) => {
   const { id } = req.params;
   const { image } = req.body;
 
@@ -1099,7 +3883,7 @@ app.post('/api/videos/:id/thumbnail', (req, res) => {
   }
 });
 
-app.delete('/api/videos/:id/thumbnail', async (req, res) => {
+app.delete('/api/videos/:id/thumbnail', requireAdmin, async (req, res) => {
   const { id } = req.params;
   try {
     const customPath = path.join(thumbnailsDir, `${id}-custom.jpg`);
@@ -1108,14 +3892,12 @@ app.delete('/api/videos/:id/thumbnail', async (req, res) => {
     const video = db.prepare('SELECT path FROM videos WHERE id = ?').get(id);
     if (!video) return res.status(404).json({ error: "Video not found" });
 
-    const relPath = decodeURIComponent(video.path.replace(/^\/media\//, ''));
-    const fullPath = path.join(mediaDir, relPath);
+    const fullPath = resolveVideoPath(video.path);
 
     let newThumbUrl = null;
     const localThumbPath = findLocalThumbnail(fullPath);
     if (localThumbPath) {
-      const relativeThumb = path.relative(mediaDir, localThumbPath);
-      newThumbUrl = '/media/' + relativeThumb.split(path.sep).map(encodeURIComponent).join('/');
+      newThumbUrl = toMediaUrl(localThumbPath);
     } else {
       newThumbUrl = await generateThumbnail(fullPath, id);
     }
@@ -1130,71 +3912,523 @@ app.delete('/api/videos/:id/thumbnail', async (req, res) => {
 });
 
 // --- HISTORY (NEW) ---
-app.get('/api/history', (req, res) => {
-  const history = db.prepare('SELECT video_id FROM history ORDER BY watched_at DESC').all();
+app.get('/api/history', requireUser, (req, res) => {
+  const history = db.prepare('SELECT video_id FROM user_history WHERE user_id = ? ORDER BY watched_at DESC').all(req.user.id);
   res.json({ history: history.map(h => h.video_id) });
 });
 
-app.post('/api/history', (req, res) => {
+app.post('/api/history', requireUser, (req, res) => {
   const { videoId } = req.body;
-  db.prepare(`
-        INSERT INTO history (video_id, watched_at) VALUES (?, ?)
-        ON CONFLICT(video_id) DO UPDATE SET watched_at = excluded.watched_at
-    `).run(videoId, Date.now());
-  res.json({ success: true });
+  try {
+    db.prepare(`
+          INSERT INTO user_history (user_id, video_id, watched_at) VALUES (?, ?, ?)
+          ON CONFLICT(user_id, video_id) DO UPDATE SET watched_at = excluded.watched_at
+      `).run(req.user.id, videoId, Date.now());
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Failed to save history", e);
+    res.status(500).json({ error: "Failed to save history" });
+  }
+});
+
+// --- WATCHED STATE ---
+// Share of the runtime after which a video counts as watched. Per user, in percent.
+const DEFAULT_WATCHED_THRESHOLD = 90;
+
+function parseWatchedThreshold(value) {
+  const percent = Number(value);
+  return Number.isInteger(percent) && percent >= 50 && percent <= 100 ? percent : null;
+}
+
+function getWatchedThreshold(userId) {
+  const row = db.prepare("SELECT value FROM user_settings WHERE user_id = ? AND key = 'watchedThreshold'").get(userId);
+  return ((row && parseWatchedThreshold(row.value)) || DEFAULT_WATCHED_THRESHOLD) / 100;
+}
+
+function setWatched(userId, videoIds, watched) {
+  const upsert = db.prepare(`
+    INSERT INTO user_videos (user_id, video_id, is_watched) VALUES (?, ?, ?)
+    ON CONFLICT(user_id, video_id) DO UPDATE SET
+      is_watched = excluded.is_watched,
+      playback_position = CASE WHEN excluded.is_watched = 1 THEN 0 ELSE playback_position END
+  `);
+  db.transaction(() => {
+    for (const id of videoIds) upsert.run(userId, id, watched ? 1 : 0);
+  })();
+}
+
+// Bulk: everything in a folder (and below), a channel or one of the user's playlists
+app.post('/api/watched', requireUser, (req, res) => {
+  const { folder, channel, playlist, library } = req.body || {};
+  const watched = req.body.watched !== false;
+  if ([folder, channel, playlist].filter(Boolean).length !== 1) {
+    return res.status(400).json({ error: "Pass exactly one of folder, channel or playlist" });
+  }
+
+  try {
+    let rows;
+    if (folder) {
+      // Folder names repeat across libraries, so the library narrows it down when given
+      rows = db.prepare("SELECT id FROM videos WHERE (folder = ? OR folder LIKE ? ESCAPE '\\') AND (? IS NULL OR library_id = ?)")
+        .all(folder, `${escapeLike(folder)}/%`, library || null, library || null);
+    } else if (channel) {
+      rows = db.prepare('SELECT id FROM videos WHERE channel = ?').all(channel);
+    } else {
+      const owned = db.prepare('SELECT id, rules FROM playlists WHERE id = ? AND user_id = ?').get(playlist, req.user.id);
+      if (!owned) return res.status(404).json({ error: "Playlist not found" });
+      const rules = owned.rules ? getSmartRules(playlist, req.user.id) : null;
+      rows = rules
+        ? getSmartPlaylistVideos(req.user.id, rules)
+        : db.prepare('SELECT video_id AS id FROM playlist_videos WHERE playlist_id = ?').all(playlist);
+    }
+
+    setWatched(req.user.id, rows.map(r => r.id), watched);
+    res.json({ success: true, watched, count: rows.length });
+  } catch (e) {
+    console.error("Failed to update watched state", e);
+    res.status(500).json({ error: "Failed to update watched state" });
+  }
+});
+
+// --- CONTINUE WATCHING ---
+// Started but not watched yet, most recently watched first
+app.get('/api/continue-watching', requireUser, (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+  try {
+    const videos = db.prepare(`
+      SELECT videos.*, ${USER_VIDEO_COLUMNS} FROM videos ${USER_VIDEO_JOIN}
+      WHERE user_videos.playback_position > 0
+        AND COALESCE(user_videos.is_watched, 0) = 0
+        AND videos.duration > 0
+        AND user_videos.playback_position < videos.duration * ?
+      ORDER BY user_videos.last_watched_at DESC
+      LIMIT ?
+    `).all(req.user.id, getWatchedThreshold(req.user.id), limit);
+
+    res.json({ videos: videos.map(v => formatVideo(v, req.user.id)) });
+  } catch (e) {
+    console.error("Failed to load continue watching", e);
+    res.status(500).json({ error: "Database error" });
+  }
+});
+
+// Drops the resume point, so the video starts from the beginning next time
+app.delete('/api/continue-watching/:id', requireUser, (req, res) => {
+  try {
+    db.prepare('UPDATE user_videos SET playback_position = 0 WHERE user_id = ? AND video_id = ?').run(req.user.id, req.params.id);
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Failed to remove from continue watching", e);
+    res.status(500).json({ error: "Failed to remove" });
+  }
 });
 
 // --- PLAYLISTS (NEW) ---
-app.get('/api/playlists', (req, res) => {
-  const playlists = db.prepare('SELECT * FROM playlists ORDER BY created_at DESC').all();
+// Each profile only sees and changes its own playlists
+const getOwnPlaylist = (req) => db.prepare('SELECT * FROM playlists WHERE id = ? AND user_id = ?').get(req.params.id, req.user.id);
+
+app.get('/api/playlists', requireUser, (req, res) => {
+  const playlists = db.prepare('SELECT * FROM playlists WHERE user_id = ? ORDER BY created_at DESC').all(req.user.id);
   const result = playlists.map(p => {
-    const videos = db.prepare('SELECT video_id FROM playlist_videos WHERE playlist_id = ? ORDER BY added_at ASC').all(p.id);
+    const videos = db.prepare('SELECT video_id FROM playlist_videos WHERE playlist_id = ? ORDER BY position ASC').all(p.id);
     return {
       id: p.id,
       name: p.name,
-      videoIds: videos.map(v => v.video_id)
+      videoIds: videos.map(v => v.video_id),
+      rules: p.rules ? JSON.parse(p.rules) : null
     };
   });
   res.json({ playlists: result });
 });
 
-app.post('/api/playlists', (req, res) => {
-  const { name } = req.body;
-  const id = `pl-${Date.now()}`;
-  db.prepare('INSERT INTO playlists (id, name, created_at) VALUES (?, ?, ?)').run(id, name, Date.now());
-  res.json({ success: true, playlist: { id, name, videoIds: [] } });
-});
+app.post('/api/playlists', requireUser, (req, res) => {
+  const { name } = req.body;
+  // Passing rules makes it a smart playlist
+  const rules = req.body.rules ? parseSmartRules(req.body.rules) : null;
+  if (req.body.rules && !rules) return res.status(400).json({ error: "Invalid smart playlist rules" });
+
+  const id = `pl-${Date.now()}`;
+  db.prepare('INSERT INTO playlists (id, name, created_at, user_id, rules) VALUES (?, ?, ?, ?, ?)')
+    .run(id, name, Date.now(), req.user.id, rules ? JSON.stringify(rules) : null);
+  res.json({ success: true, playlist: { id, name, videoIds: [], rules } });
+});
+
+app.post('/api/playlists/:id/videos', requireUser, (req, res) => {
+  const { id } = req.params;
+  const { videoId } = req.body;
+  const pl = getOwnPlaylist(req);
+  if (!pl) return res.status(404).json({ error: "Playlist not found" });
+  if (pl.rules) return res.status(400).json({ error: "Smart playlists are filled by their rules" });
+  try {
+    // New videos go to the end
+    db.prepare(`
+      INSERT INTO playlist_videos (playlist_id, video_id, added_at, position)
+      SELECT ?, ?, ?, COALESCE(MAX(position) + 1, 0) FROM playlist_videos WHERE playlist_id = ?
+    `).run(id, videoId, Date.now(), id);
+    res.json({ success: true });
+  } catch (e) {
+    // Ignore duplicate inserts
+    res.json({ success: true });
+  }
+});
+
+// --- REORDER PLAYLIST ---
+// Either moves one video ({ videoId, position }, 0-based) or sets the whole order ({ videoIds })
+app.post('/api/playlists/:id/reorder', requireUser, (req, res) => {
+  const { videoId, position, videoIds } = req.body || {};
+  const pl = getOwnPlaylist(req);
+  if (!pl) return res.status(404).json({ error: "Playlist not found" });
+  if (pl.rules) return res.status(400).json({ error: "Smart playlists are ordered by their rules" });
+
+  try {
+    const current = db.prepare('SELECT video_id FROM playlist_videos WHERE playlist_id = ? ORDER BY position ASC').all(pl.id).map(r => r.video_id);
+    let order;
+
+    if (Array.isArray(videoIds)) {
+      // Has to be the same videos, just rearranged
+      const same = videoIds.length === current.length && new Set(videoIds).size === current.length && videoIds.every(id => current.includes(id));
+      if (!same) return res.status(400).json({ error: "videoIds must list every video in the playlist exactly once" });
+      order = videoIds;
+    } else {
+      const from = current.indexOf(videoId);
+      const to = Number(position);
+      if (from === -1) return res.status(404).json({ error: "Video is not in this playlist" });
+      if (!Number.isInteger(to) || to < 0) return res.status(400).json({ error: "position must be a whole number from 0" });
+      order = current.filter(id => id !== videoId);
+      order.splice(Math.min(to, order.length), 0, videoId);
+    }
+
+    const update = db.prepare('UPDATE playlist_videos SET position = ? WHERE playlist_id = ? AND video_id = ?');
+    db.transaction(() => {
+      order.forEach((id, index) => update.run(index, pl.id, id));
+    })();
+    res.json({ success: true, videoIds: order });
+  } catch (e) {
+    console.error("Failed to reorder playlist", e);
+    res.status(500).json({ error: "Failed to reorder playlist" });
+  }
+});
+
+// --- PLAYLIST IMPORT / EXPORT ---
+// M3U8 and XSPF for VLC/mpv, JSON (with full metadata) for other play21 instances.
+// Entries point at the file relative to the media folder, or at a signed stream URL.
+const PLAYLIST_EXPORT_FORMATS = {
+  m3u8: { ext: 'm3u8', type: 'audio/x-mpegurl' },
+  xspf: { ext: 'xspf', type: 'application/xspf+xml' },
+  json: { ext: 'json', type: 'application/json' }
+};
+const PLAYLIST_EXPORT_URL_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Exported stream URLs outlive normal signed URLs
+
+const escapeXml = (str) => String(str)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const unescapeXml = (str) => str
+  .replace(/<!\[CDATA\[(.*?)\]\]>/gs, '$1')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(dec))
+  .replace(/&#x([0-9A-Fa-f]+);/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
+  .replace(/&amp;/g, '&');
+
+// "/media/a%20b/c.mp4" -> "a b/c.mp4"
+const toLibraryPath = (webPath) => decodeURIComponent(webPath.replace(/^\/media\//, ''));
+
+// Path below the video's own library root: toLibraryPath without the "<library id>/" that
+// /media URLs of other libraries start with (an ID nothing outside play21 knows about)
+function toRootRelativePath(video) {
+  const libraryPath = toLibraryPath(video.path);
+  const prefix = `${video.library_id}/`;
+  return video.library_id !== DEFAULT_LIBRARY_ID && libraryPath.startsWith(prefix) ? libraryPath.slice(prefix.length) : libraryPath;
+}
+
+// The videos of a playlist (or the user's favorites) in order, or null if it isn't theirs
+function getExportPlaylist(userId, playlistId) {
+  if (playlistId === 'favorites') {
+    const videos = db.prepare(`
+      SELECT videos.* FROM videos JOIN user_videos ON user_videos.video_id = videos.id
+      WHERE user_videos.user_id = ? AND user_videos.is_favorite = 1 ORDER BY videos.name ASC
+    `).all(userId);
+    return { name: 'Favorites', videos };
+  }
+
+  const pl = db.prepare('SELECT * FROM playlists WHERE id = ? AND user_id = ?').get(playlistId, userId);
+  if (!pl) return null;
+
+  // Joined rather than looked up by id: a big smart playlist would pass SQLite's bound variable limit
+  const rules = pl.rules ? getSmartRules(pl.id, userId) : null;
+  const videos = rules
+    ? getSmartPlaylistVideos(userId, rules, 'videos.*')
+    : db.prepare(`
+      SELECT videos.* FROM playlist_videos JOIN videos ON videos.id = playlist_videos.video_id
+      WHERE playlist_videos.playlist_id = ? ORDER BY playlist_videos.position ASC
+    `).all(pl.id);
+  return { name: pl.name, videos };
+}
+
+function buildPlaylistExport(format, name, entries) {
+  if (format === 'json') {
+    return JSON.stringify({
+      play21Playlist: 1,
+      name,
+      exportedAt: new Date().toISOString(),
+      videos: entries.map(({ video, location }) => ({
+        location,
+        path: toLibraryPath(video.path),
+        filename: video.filename,
+        title: video.name,
+        channel: video.channel,
+        duration: video.duration,
+        releaseDate: video.release_date,
+        description: video.description,
+        genre: video.genre,
+        youtubeId: video.youtube_id,
+        fingerprint: video.fingerprint
+      }))
+    }, null, 2);
+  }
+
+  if (format === 'xspf') {
+    const tracks = entries.map(({ video, location }) => [
+      '    <track>',
+      `      <location>${escapeXml(location)}</location>`,
+      `      <title>${escapeXml(video.name)}</title>`,
+      video.channel ? `      <creator>${escapeXml(video.channel)}</creator>` : null,
+      video.duration ? `      <duration>${Math.round(video.duration * 1000)}</duration>` : null,
+      '    </track>'
+    ].filter(Boolean).join('\n'));
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <title>${escapeXml(name)}</title>
+  <trackList>
+${tracks.join('\n')}
+  </trackList>
+</playlist>
+`;
+  }
+
+  const lines = ['#EXTM3U', `#PLAYLIST:${name}`];
+  for (const { video, location } of entries) {
+    const title = video.channel ? `${video.channel} - ${video.name}` : video.name;
+    lines.push(`#EXTINF:${Math.round(video.duration || -1)},${title.replace(/[\r\n]+/g, ' ')}`, location);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ?format=m3u8|xspf|json&paths=relative|urls. 'favorites' exports the favorites list.
+// Relative paths start at each video's library root. Only JSON also keeps the library (in path).
+// base sets the scheme and host of stream URLs (defaults to this request's).
+app.get('/api/playlists/:id/export', requireUser, (req, res) => {
+  const format = req.query.format || 'm3u8';
+  const useUrls = req.query.paths === 'urls';
+  if (!PLAYLIST_EXPORT_FORMATS[format]) return res.status(400).json({ error: "format must be m3u8, xspf or json" });
+
+  let base = `${req.protocol}://${req.get('host')}`;
+  if (req.query.base) {
+    try {
+      const url = new URL(req.query.base);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Not http');
+      base = url.origin;
+    } catch (e) {
+      return res.status(400).json({ error: "base must be an http(s) URL" });
+    }
+  }
+
+  try {
+    const playlist = getExportPlaylist(req.user.id, req.params.id);
+    if (!playlist) return res.status(404).json({ error: "Playlist not found" });
+
+    const entries = playlist.videos.map(video => {
+      let location;
+      if (useUrls) {
+        location = base + urlSigner.sign(video.path, req.user.id, PLAYLIST_EXPORT_URL_TTL_MS);
+      } else {
+        // XSPF locations are URIs, so the relative path is percent-encoded there
+        const relativePath = toRootRelativePath(video);
+        location = format === 'xspf' ? relativePath.split('/').map(encodeURIComponent).join('/') : relativePath;
+      }
+      return { video, location };
+    });
+
+    const { ext, type } = PLAYLIST_EXPORT_FORMATS[format];
+    const filename = `${playlist.name.replace(/[\\/:*?"<>|]+/g, '_')}.${ext}`;
+    res.setHeader('Content-Type', `${type}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.send(buildPlaylistExport(format, playlist.name, entries));
+  } catch (e) {
+    console.error("Failed to export playlist", e);
+    res.status(500).json({ error: "Failed to export playlist" });
+  }
+});
+
+// JSON entry fields that have to be text when present
+const PLAYLIST_ENTRY_TEXT_FIELDS = ['path', 'location', 'filename', 'fingerprint', 'title'];
+
+// Entries ({ location, title, ...JSON metadata }) and the playlist name from any of the three formats,
+// or { error } for a JSON file whose entries can't be used
+function parsePlaylistFile(content) {
+  const text = content.replace(/^\uFEFF/, '').trim();
+
+  if (text.startsWith('{')) {
+    const data = JSON.parse(text);
+    const videos = Array.isArray(data.videos) ? data.videos : [];
+    const badIndex = videos.findIndex(v => !v || typeof v !== 'object' || Array.isArray(v) ||
+      PLAYLIST_ENTRY_TEXT_FIELDS.some(key => v[key] != null && typeof v[key] !== 'string'));
+    if (badIndex >= 0) {
+      return { error: `Video ${badIndex + 1} must be an object with ${PLAYLIST_ENTRY_TEXT_FIELDS.join(', ')} as text` };
+    }
+    return {
+      name: typeof data.name === 'string' ? data.name : null,
+      entries: videos.map(v => ({ ...v, location: v.path || v.location || v.filename || '' }))
+    };
+  }
+
+  if (text.startsWith('<')) {
+    const tag = (xml, name) => {
+      const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${name}>`, 'i'));
+      return match ? unescapeXml(match[1].trim()) : null;
+    };
+    const header = text.split(/<trackList/i)[0];
+    const entries = [...text.matchAll(/<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/gi)].map(m => {
+      const location = tag(m[1], 'location') || '';
+      let decoded = location;
+      try { decoded = decodeURI(location); } catch (e) { }
+      return { location: decoded, rawLocation: location, title: tag(m[1], 'title') };
+    });
+    return { name: tag(header, 'title'), entries };
+  }
+
+  let name = null;
+  let title = null;
+  const entries = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith('#PLAYLIST:')) name = line.slice(10).trim();
+    else if (line.startsWith('#EXTINF:')) title = line.slice(line.indexOf(',') + 1).trim() || null;
+    else if (!line.startsWith('#')) {
+      entries.push({ location: line, title });
+      title = null;
+    }
+  }
+  return { name, entries };
+}
+
+// Library path (as in /media URLs) for a playlist entry, if it can be told from the location
+function entryLibraryPath(location) {
+  let loc = location;
+  try {
+    if (/^https?:\/\//i.test(loc)) {
+      const url = new URL(loc);
+      if (!url.pathname.startsWith('/media/')) return null;
+      return toLibraryPath(url.pathname);
+    }
+    if (/^file:\/\//i.test(loc)) loc = fileURLToPath(loc);
+  } catch (e) {
+    return null;
+  }
+
+  if (path.isAbsolute(loc)) {
+    if (!getLibraryForPath(loc)) return null;
+    loc = getLibraryKey(loc);
+  }
+  return loc.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+// Creates a new playlist from an M3U8, XSPF or JSON file ({ content, name? }).
+// Entries are matched by content fingerprint (JSON), then by path, then by filename.
+app.post('/api/playlists/import', requireUser, (req, res) => {
+  const { content } = req.body || {};
+  if (typeof content !== 'string' || !content.trim()) return res.status(400).json({ error: "content is required" });
+
+  let parsed;
+  try {
+    parsed = parsePlaylistFile(content);
+  } catch (e) {
+    return res.status(400).json({ error: "Not a valid M3U8, XSPF or JSON playlist" });
+  }
+  if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const videos = db.prepare('SELECT id, path, filename, fingerprint, library_id FROM videos').all();
+    const byPath = new Map(videos.map(v => [toLibraryPath(v.path), v.id]));
+    // Exported M3U8/XSPF paths start at the library root, whichever library that is
+    const byRootPath = new Map();
+    for (const v of videos) {
+      const key = toRootRelativePath(v);
+      if (!byRootPath.has(key)) byRootPath.set(key, v.id);
+    }
+    const byFingerprint = new Map(videos.filter(v => v.fingerprint).map(v => [v.fingerprint, v.id]));
+    const byFilename = new Map();
+    for (const v of videos) {
+      const key = (v.filename || path.basename(toLibraryPath(v.path))).toLowerCase();
+      if (!byFilename.has(key)) byFilename.set(key, v.id);
+    }
+
+    const matchedIds = [];
+    const unmatched = [];
+    for (const entry of parsed.entries) {
+      const rel = entry.location ? entryLibraryPath(entry.location) : null;
+      const filename = (entry.filename || (rel ? path.basename(rel) : path.basename(String(entry.location || '').split('?')[0]))).toLowerCase();
+      const id = (entry.fingerprint && byFingerprint.get(entry.fingerprint))
+        || (rel && (byPath.get(rel) || byRootPath.get(rel)))
+        || (filename && byFilename.get(filename));
+
+      if (id) {
+        if (!matchedIds.includes(id)) matchedIds.push(id);
+      } else {
+        unmatched.push(entry.title || entry.location);
+      }
+    }
+
+    const name = (typeof req.body.name === 'string' && req.body.name.trim()) || parsed.name || 'Imported Playlist';
+    const id = `pl-${Date.now()}`;
+    const now = Date.now();
+    const insert = db.prepare('INSERT INTO playlist_videos (playlist_id, video_id, added_at, position) VALUES (?, ?, ?, ?)');
+    db.transaction(() => {
+      db.prepare('INSERT INTO playlists (id, name, created_at, user_id) VALUES (?, ?, ?, ?)').run(id, name, now, req.user.id);
+      matchedIds.forEach((videoId, index) => insert.run(id, videoId, now, index));
+    })();
 
-app.post('/api/playlists/:id/videos', (req, res) => {
-  const { id } = req.params;
-  const { videoId } = req.body;
-  try {
-    db.prepare('INSERT INTO playlist_videos (playlist_id, video_id, added_at) VALUES (?, ?, ?)').run(id, videoId, Date.now());
-    res.json({ success: true });
+    res.json({ success: true, playlist: { id, name, videoIds: matchedIds, rules: null }, matched: matchedIds.length, unmatched });
   } catch (e) {
-    // Ignore duplicate inserts
-    res.json({ success: true });
+    console.error("Failed to import playlist", e);
+    res.status(500).json({ error: "Failed to import playlist" });
   }
 });
 
 // --- RENAME PLAYLIST (NEW) ---
-app.patch('/api/playlists/:id', (req, res) => {
+// Smart playlists can change their rules here too
+app.patch('/api/playlists/:id', requireUser, (req, res) => {
   const { id } = req.params;
   const { name } = req.body;
   
   if (!name || name.trim() === '') {
     return res.status(400).json({ error: "Name is required" });
   }
+  const rules = req.body.rules !== undefined ? parseSmartRules(req.body.rules) : null;
+  if (req.body.rules !== undefined && !rules) return res.status(400).json({ error: "Invalid smart playlist rules" });
 
   try {
     // Protect the system "Watch Later" playlist from being broken
-    const pl = db.prepare('SELECT name FROM playlists WHERE id = ?').get(id);
-    if (pl && pl.name === 'Watch Later') {
+    const pl = getOwnPlaylist(req);
+    if (!pl) return res.status(404).json({ error: "Playlist not found" });
+    if (pl.name === 'Watch Later') {
         return res.status(403).json({ error: "Cannot rename the Watch Later system playlist" });
     }
 
-    db.prepare('UPDATE playlists SET name = ? WHERE id = ?').run(name.trim(), id);
-    res.json({ success: true, name: name.trim() });
+    if (rules && !pl.rules) {
+      return res.status(400).json({ error: "Only smart playlists have rules" });
+    }
+
+    db.prepare('UPDATE playlists SET name = ?, rules = COALESCE(?, rules) WHERE id = ?')
+      .run(name.trim(), rules ? JSON.stringify(rules) : null, id);
+    res.json({ success: true, name: name.trim(), ...(rules ? { rules } : {}) });
   } catch (e) {
     console.error("Failed to rename playlist", e);
     res.status(500).json({ error: "Failed to rename playlist" });
@@ -1202,16 +4436,20 @@ app.patch('/api/playlists/:id', (req, res) => {
 });
 
 // --- DELETE PLAYLIST (NEW) ---
-app.delete('/api/playlists/:id', (req, res) => {
+app.delete('/api/playlists/:id', requireUser, (req, res) => {
   const { id } = req.params;
   try {
-    const pl = db.prepare('SELECT name FROM playlists WHERE id = ?').get(id);
-    if (pl && pl.name === 'Watch Later') {
+    const pl = getOwnPlaylist(req);
+    if (!pl) return res.status(404).json({ error: "Playlist not found" });
+    if (pl.name === 'Watch Later') {
         return res.status(403).json({ error: "Cannot delete the Watch Later system playlist" });
     }
 
-    // Because your schema uses ON DELETE CASCADE, this automatically removes videos linked to it too!
-    db.prepare('DELETE FROM playlists WHERE id = ?').run(id);
+    // The playlist's entries go with it
+    db.transaction(() => {
+      db.prepare('DELETE FROM playlist_videos WHERE playlist_id = ?').run(id);
+      db.prepare('DELETE FROM playlists WHERE id = ?').run(id);
+    })();
     res.json({ success: true });
   } catch (e) {
     console.error("Failed to delete playlist", e);
@@ -1219,22 +4457,181 @@ app.delete('/api/playlists/:id', (req, res) => {
   }
 });
 
+// --- CHANNELS ---
+// A channel is every video sharing the same channel (showtitle) value
+app.get('/api/channels', (req, res) => {
+  try {
+    const channels = db.prepare(`
+      SELECT channel AS name, MAX(channel_avatar) AS avatar, COUNT(*) AS video_count,
+        COALESCE(SUM(duration), 0) AS total_duration, MAX(release_date) AS latest_upload
+      FROM videos
+      WHERE channel IS NOT NULL AND channel != ''${req.query.hideHidden === 'true' ? ` AND ${NOT_HIDDEN}` : ''}
+      GROUP BY channel
+      ORDER BY channel COLLATE NOCASE
+    `).all();
+
+    res.json({
+      channels: channels.map(c => ({
+        name: c.name,
+        avatar: signUrl(c.avatar, req.user.id),
+        videoCount: c.video_count,
+        totalDuration: c.total_duration,
+        latestUpload: c.latest_upload
+      }))
+    });
+  } catch (e) {
+    console.error("Failed to list channels", e);
+    res.status(500).json({ error: "Database error" });
+  }
+});
+
+// Channel header (avatar, banner, stats) plus one page of its videos.
+// Takes the same page/limit/sort/search/hideHidden parameters as /api/videos.
+app.get('/api/channels/:name', (req, res) => {
+  const { name } = req.params;
+  const hiddenFilter = req.query.hideHidden === 'true' ? ` AND ${NOT_HIDDEN}` : '';
+
+  try {
+    const stats = db.prepare(`
+      SELECT MAX(channel_avatar) AS avatar, COUNT(*) AS video_count,
+        COALESCE(SUM(duration), 0) AS total_duration, MAX(release_date) AS latest_upload
+      FROM videos WHERE channel = ?${hiddenFilter}
+    `).get(name);
+    if (!stats.video_count) return res.status(404).json({ error: "Channel not found" });
+
+    // The banner sits next to the avatar, so look upwards from a video that found one
+    const sample = db.prepare(`SELECT path FROM videos WHERE channel = ? ORDER BY channel_avatar IS NULL LIMIT 1`).get(name);
+    const banner = sample ? findChannelBanner(path.dirname(resolveVideoPath(sample.path))) : null;
+
+    const page = listVideos(req.user.id, {
+      ...getFacetFilters(req.query),
+      page: req.query.page,
+      cursor: req.query.cursor,
+      limit: req.query.limit || '50',
+      sort: req.query.sort,
+      seed: req.query.seed,
+      search: req.query.search,
+      hideHidden: req.query.hideHidden,
+      unwatched: req.query.unwatched,
+      library: req.query.library,
+      channel: name
+    });
+    if (page.error) return res.status(400).json(page);
+
+    res.json({
+      channel: {
+        name,
+        avatar: signUrl(stats.avatar, req.user.id),
+        banner: signUrl(banner, req.user.id),
+        videoCount: stats.video_count,
+        totalDuration: stats.total_duration,
+        latestUpload: stats.latest_upload
+      },
+      ...page
+    });
+  } catch (e) {
+    console.error("Failed to load channel", e);
+    res.status(500).json({ error: "Database error" });
+  }
+});
+
+// --- SERIES ---
+// Playback order inside a show: numbered seasons, then specials (season 0), then anything unnumbered
+const EPISODE_ORDER = `videos.season_number IS NULL, videos.season_number = 0, videos.season_number,
+  videos.episode_number IS NULL, videos.episode_number, videos.release_date, videos.name`;
+
+const formatSeries = (series, userId) => ({
+  id: series.id,
+  title: series.title,
+  plot: series.plot,
+  genre: series.genre,
+  premiered: series.premiered,
+  poster: signUrl(series.poster, userId),
+  seasonCount: series.season_count,
+  episodeCount: series.episode_count
+});
+
+app.get('/api/series', (req, res) => {
+  try {
+    const series = db.prepare(`
+      SELECT series.*,
+        COUNT(DISTINCT videos.season_number) AS season_count,
+        COUNT(videos.id) AS episode_count
+      FROM series JOIN videos ON videos.series_id = series.id
+      GROUP BY series.id
+      ORDER BY series.title COLLATE NOCASE
+    `).all();
+    res.json({ series: series.map(s => formatSeries(s, req.user.id)) });
+  } catch (e) {
+    console.error("Failed to list series", e);
+    res.status(500).json({ error: "Database error" });
+  }
+});
+
+// One show with its seasons in order, each with its episodes in order
+app.get('/api/series/:id', (req, res) => {
+  const userId = req.user.id;
+  try {
+    const series = db.prepare('SELECT * FROM series WHERE id = ?').get(req.params.id);
+    if (!series) return res.status(404).json({ error: "Series not found" });
+
+    const seasons = db.prepare('SELECT * FROM seasons WHERE series_id = ? ORDER BY season_number = 0, season_number').all(series.id);
+    const episodes = db.prepare(`
+      SELECT videos.*, ${USER_VIDEO_COLUMNS} FROM videos ${USER_VIDEO_JOIN}
+      WHERE videos.series_id = ?
+      ORDER BY ${EPISODE_ORDER}
+    `).all(userId, series.id).map(v => formatVideo(v, userId));
+
+    const result = seasons.map(s => ({
+      id: s.id,
+      number: s.season_number,
+      title: s.title,
+      poster: signUrl(s.poster, userId),
+      episodes: episodes.filter(v => v.season_number === s.season_number)
+    }));
+
+    // Episodes we couldn't place in a season (no <season> in the NFO, no "Season N" folder)
+    const unnumbered = episodes.filter(v => v.season_number === null);
+    if (unnumbered.length > 0) {
+      result.push({ id: `${series.id}-other`, number: null, title: 'Other Episodes', poster: null, episodes: unnumbered });
+    }
+
+    res.json({
+      ...formatSeries({ ...series, season_count: seasons.length, episode_count: episodes.length }, userId),
+      seasons: result
+    });
+  } catch (e) {
+    console.error("Failed to load series", e);
+    res.status(500).json({ error: "Database error" });
+  }
+});
+
 // --- FOLDERS ENDPOINT (File System Scan for Images) ---
+// ?library= lists one library. Without it, every library's folders are merged by name.
 app.get('/api/folders', (req, res) => {
   const parent = req.query.parent || '';
-  // Check specifically in the media directory
-  const dirPath = parent ? path.join(mediaDir, parent) : mediaDir;
+  const selected = req.query.library ? getLibrary(req.query.library) : null;
+  if (req.query.library && !selected) return res.status(404).json({ error: "Library not found" });
 
-  if (!fs.existsSync(dirPath)) return res.json({ folders: [] });
+  const roots = selected ? [selected] : [...libraries].sort((a, b) => a.created_at - b.created_at);
+  const folders = new Map(); // name -> { name, image }
 
-  try {
-    const items = fs.readdirSync(dirPath, { withFileTypes: true });
+  for (const library of roots) {
+    // Check specifically in the library's directory
+    const dirPath = parent ? path.join(library.root, parent) : library.root;
+    if (!fs.existsSync(dirPath)) continue;
+
+    try {
+      const items = fs.readdirSync(dirPath, { withFileTypes: true });
+
+      for (const dirent of items) {
+        if (!dirent.isDirectory()) continue;
+        if (library.hide_hidden && dirent.name.startsWith('.')) continue;
 
-    const folders = items
-      .filter(dirent => dirent.isDirectory())
-      .map(dirent => {
         const folderName = dirent.name;
         const fullFolderPath = path.join(dirPath, folderName);
+        const existing = folders.get(folderName);
+        if (existing && existing.image) continue;
 
         // List of image names we want to look for
         const imageNames = ['folder.jpg', 'poster.jpg', 'channel.jpg', 'cover.jpg', 'fanart.jpg', 'folder.png', 'logo.png'];
@@ -1246,35 +4643,44 @@ app.get('/api/folders', (req, res) => {
           const match = imageNames.find(img => filesInFolder.map(f => f.toLowerCase()).includes(img));
 
           if (match) {
-            // Create a URL for the frontend
+            // Create a URL for the frontend, signed like thumbnails so it loads without the session cookie
             const safeParent = parent ? parent.split('/').map(encodeURIComponent).join('/') : '';
-            foundImage = `/api/stream/${encodeURIComponent(folderName)}/${match}?folderContext=${safeParent}`;
+            foundImage = signUrl(`/api/stream/${encodeURIComponent(folderName)}/${match}?folderContext=${safeParent}&library=${encodeURIComponent(library.id)}`, req.user.id);
           }
         } catch (e) {
           // Ignore permission errors
         }
 
-        return {
+        folders.set(folderName, {
           name: folderName,
           image: foundImage
-        };
-      });
-
-    res.json({ folders });
-  } catch (e) {
-    console.error("Folder scan error:", e);
-    res.json({ folders: [] });
+        });
+      }
+    } catch (e) {
+      console.error("Folder scan error:", e);
+    }
   }
+
+  res.json({ folders: [...folders.values()] });
 });
 
 // --- HELPER: Serve the Folder Images ---
 app.get('/api/stream/:folder/:image', (req, res) => {
-  const folder = decodeURIComponent(req.params.folder);
+  let folder, parent;
+  try {
+    folder = decodeURIComponent(req.params.folder);
+    parent = req.query.folderContext ? decodeURIComponent(req.query.folderContext) : '';
+  } catch (e) {
+    return res.status(400).send('Bad path');
+  }
   const image = req.params.image;
-  const parent = req.query.folderContext ? decodeURIComponent(req.query.folderContext) : '';
+  const library = getLibrary(req.query.library || DEFAULT_LIBRARY_ID);
+  if (!library) return res.status(404).send('Not found');
 
-  // Construct path to the image on disk
-  const imagePath = path.join(mediaDir, parent, folder, image);
+  // Construct path to the image on disk, never leaving the library root (folderContext=../.. etc.)
+  const root = path.resolve(library.root);
+  const imagePath = path.resolve(root, String(parent), folder, image);
+  if (!imagePath.startsWith(root + path.sep)) return res.status(404).send('Not found');
 
   if (fs.existsSync(imagePath)) {
     res.sendFile(imagePath);
@@ -1284,81 +4690,327 @@ app.get('/api/stream/:folder/:image', (req, res) => {
 });
 
 // Remove a video from a specific playlist
-app.delete('/api/playlists/:playlistId/videos/:videoId', (req, res) => {
+app.delete('/api/playlists/:playlistId/videos/:videoId', requireUser, (req, res) => {
   const { playlistId, videoId } = req.params;
   try {
-    db.prepare('DELETE FROM playlist_videos WHERE playlist_id = ? AND video_id = ?')
-      .run(playlistId, videoId);
+    db.prepare(`
+      DELETE FROM playlist_videos WHERE playlist_id = ? AND video_id = ?
+        AND playlist_id IN (SELECT id FROM playlists WHERE user_id = ?)
+    `).run(playlistId, videoId, req.user.id);
     res.json({ success: true });
   } catch (e) {
     res.status(500).json({ error: "Failed to remove video" });
   }
 });
 
+// --- AUTH: Login, logout, first-time setup ---
+// Failed logins per IP and username, to slow down password guessing. Keyed on both so clients
+// sharing an address (everyone, behind a proxy without TRUST_PROXY) can't lock each other out.
+const loginAttempts = new Map();
+const MAX_LOGIN_ATTEMPTS = 10;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+// The username comes from the client: only this much of it (lowercased) goes into the key
+const LOGIN_KEY_NAME_LENGTH = 64;
+
+// Expired windows are dropped, or made-up usernames would pile up forever
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, attempts] of loginAttempts) {
+    if (attempts.resetAt <= now) loginAttempts.delete(key);
+  }
+}, 60 * 1000);
+
+const needsSetup = () => !db.prepare('SELECT 1 FROM users WHERE password_hash IS NOT NULL LIMIT 1').get();
+
+app.get('/api/auth/status', (req, res) => {
+  res.json({ user: req.user, setupRequired: needsSetup() });
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  const { username, password } = req.body || {};
+  const attemptName = typeof username === 'string' ? username.trim().toLowerCase().slice(0, LOGIN_KEY_NAME_LENGTH) : '';
+  const attemptKey = `${req.ip}|${attemptName}`;
+  const attempts = loginAttempts.get(attemptKey);
+  if (attempts && attempts.resetAt > Date.now() && attempts.count >= MAX_LOGIN_ATTEMPTS) {
+    return res.status(429).json({ error: "Too many failed attempts, try again later" });
+  }
+
+  try {
+    const user = typeof username === 'string'
+      ? db.prepare('SELECT id, name, role, password_hash FROM users WHERE name = ?').get(username.trim())
+      : null;
+
+    if (!user || typeof password !== 'string' || !(await verifyPassword(password, user.password_hash))) {
+      const current = attempts && attempts.resetAt > Date.now() ? attempts : { count: 0, resetAt: Date.now() + LOGIN_WINDOW_MS };
+      current.count++;
+      loginAttempts.set(attemptKey, current);
+      return res.status(401).json({ error: "Wrong username or password" });
+    }
+
+    loginAttempts.delete(attemptKey);
+    startSession(req, res, user.id);
+    res.json({ success: true, user: { id: user.id, name: user.name, role: user.role } });
+  } catch (e) {
+    console.error("Login failed", e);
+    res.status(500).json({ error: "Login failed" });
+  }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  const token = getCookie(req, SESSION_COOKIE);
+  if (token) db.prepare('DELETE FROM sessions WHERE id = ?').run(hashToken(token));
+  res.clearCookie(SESSION_COOKIE);
+  res.json({ success: true });
+});
+
+// First start: nobody has a password yet, so the first admin picks a name and password
+app.post('/api/auth/setup', async (req, res) => {
+  const { username, password } = req.body || {};
+  if (!needsSetup()) return res.status(409).json({ error: "Setup is already complete" });
+  if (!username || typeof username !== 'string' || username.trim() === '') {
+    return res.status(400).json({ error: "Username is required" });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const admin = db.prepare("SELECT id FROM users WHERE role = 'admin' ORDER BY created_at LIMIT 1").get();
+    const passwordHash = await hashPassword(password);
+    db.prepare('UPDATE users SET name = ?, password_hash = ? WHERE id = ?').run(username.trim(), passwordHash, admin.id);
+
+    startSession(req, res, admin.id);
+    res.json({ success: true, user: { id: admin.id, name: username.trim(), role: 'admin' } });
+  } catch (e) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') return res.status(409).json({ error: "A user with that name already exists" });
+    console.error("Setup failed", e);
+    res.status(500).json({ error: "Setup failed" });
+  }
+});
+
+// Changing your password signs out your other sessions
+app.post('/api/auth/password', requireUser, async (req, res) => {
+  const { currentPassword, newPassword } = req.body || {};
+  if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const user = db.prepare('SELECT password_hash FROM users WHERE id = ?').get(req.user.id);
+    if (typeof currentPassword !== 'string' || !(await verifyPassword(currentPassword, user.password_hash))) {
+      return res.status(403).json({ error: "Current password is wrong" });
+    }
+
+    db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(await hashPassword(newPassword), req.user.id);
+    const token = getCookie(req, SESSION_COOKIE);
+    db.prepare('DELETE FROM sessions WHERE user_id = ? AND id != ?').run(req.user.id, token ? hashToken(token) : '');
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Failed to change password", e);
+    res.status(500).json({ error: "Failed to change password" });
+  }
+});
+
+// --- AUTH: API tokens (for scripts). The token itself is only shown once. ---
+app.get('/api/auth/tokens', requireUser, (req, res) => {
+  const tokens = db.prepare('SELECT id, name, created_at, last_used_at FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC').all(req.user.id);
+  res.json({
+    tokens: tokens.map(t => ({ id: t.id, name: t.name, createdAt: t.created_at, lastUsedAt: t.last_used_at }))
+  });
+});
+
+app.post('/api/auth/tokens', requireUser, (req, res) => {
+  const { name } = req.body || {};
+  if (!name || typeof name !== 'string' || name.trim() === '') {
+    return res.status(400).json({ error: "Name is required" });
+  }
+
+  const id = crypto.randomUUID();
+  const token = generateToken('p21_');
+  const createdAt = Date.now();
+  db.prepare('INSERT INTO api_tokens (id, user_id, name, token_hash, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(id, req.user.id, name.trim(), hashToken(token), createdAt);
+  res.json({ success: true, token, apiToken: { id, name: name.trim(), createdAt, lastUsedAt: null } });
+});
+
+app.delete('/api/auth/tokens/:id', requireUser, (req, res) => {
+  const result = db.prepare('DELETE FROM api_tokens WHERE id = ? AND user_id = ?').run(req.params.id, req.user.id);
+  if (result.changes === 0) return res.status(404).json({ error: "Token not found" });
+  res.json({ success: true });
+});
+
+// --- USERS (Admin) ---
+app.get('/api/users', requireAdmin, (req, res) => {
+  const users = db.prepare('SELECT id, name, role FROM users ORDER BY created_at ASC').all();
+  res.json({ users });
+});
+
+app.post('/api/users', requireAdmin, async (req, res) => {
+  const { name, password, role = 'user' } = req.body || {};
+  if (!name || typeof name !== 'string' || name.trim() === '') {
+    return res.status(400).json({ error: "Name is required" });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+  if (!USER_ROLES.includes(role)) return res.status(400).json({ error: "Unknown role" });
+
+  try {
+    const user = { id: crypto.randomUUID(), name: name.trim(), role };
+    db.prepare('INSERT INTO users (id, name, role, password_hash, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(user.id, user.name, user.role, await hashPassword(password), Date.now());
+    res.json({ success: true, user });
+  } catch (e) {
+    if (e.code === 'SQLITE_CONSTRAINT_UNIQUE') return res.status(409).json({ error: "A user with that name already exists" });
+    console.error("Failed to create user", e);
+    res.status(500).json({ error: "Failed to create user" });
+  }
+});
+
+// Password reset by an admin: the user is signed out everywhere
+app.patch('/api/users/:id', requireAdmin, async (req, res) => {
+  const { password } = req.body || {};
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const result = db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(await hashPassword(password), req.params.id);
+    if (result.changes === 0) return res.status(404).json({ error: "User not found" });
+    if (req.params.id !== req.user.id) db.prepare('DELETE FROM sessions WHERE user_id = ?').run(req.params.id);
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Failed to reset password", e);
+    res.status(500).json({ error: "Failed to reset password" });
+  }
+});
+
+// Rows that belong to a user and go when it does (playlist entries are removed with the playlists)
+const USER_TABLES = ['playlists', 'user_videos', 'user_history', 'user_settings', 'sessions', 'api_tokens'];
+
+// Deleting a user removes its favorites, progress, history, playlists, settings, sessions and tokens
+app.delete('/api/users/:id', requireAdmin, (req, res) => {
+  const { id } = req.params;
+  try {
+    const user = db.prepare('SELECT role FROM users WHERE id = ?').get(id);
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    const admins = db.prepare("SELECT COUNT(*) AS c FROM users WHERE role = 'admin'").get().c;
+    if (user.role === 'admin' && admins <= 1) {
+      return res.status(403).json({ error: "Cannot delete the last admin" });
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM playlist_videos WHERE playlist_id IN (SELECT id FROM playlists WHERE user_id = ?)').run(id);
+      USER_TABLES.forEach(table => db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(id));
+      db.prepare('DELETE FROM users WHERE id = ?').run(id);
+    })();
+    res.json({ success: true });
+  } catch (e) {
+    console.error("Failed to delete user", e);
+    res.status(500).json({ error: "Failed to delete user" });
+  }
+});
+
 // --- SETTINGS (NEW) ---
-app.get('/api/settings', (req, res) => {
-  const rows = db.prepare('SELECT * FROM settings').all();
+// Server-wide settings merged with the profile's own preferences
+app.get('/api/settings', requireUser, (req, res) => {
+  const rows = [
+    ...db.prepare('SELECT * FROM settings').all(),
+    ...db.prepare('SELECT key, value FROM user_settings WHERE user_id = ?').all(req.user.id)
+  ];
   const settings = {};
   rows.forEach(r => settings[r.key] = r.value);
   res.json(settings);
 });
 
-app.post('/api/settings', (req, res) => {
+app.post('/api/settings', requireUser, (req, res) => {
   const { key, value } = req.body;
-  db.prepare(`
-    INSERT INTO settings (key, value) VALUES (?, ?)
-    ON CONFLICT(key) DO UPDATE SET value = excluded.value
-  `).run(key, String(value));
+  if (!key) return res.status(400).json({ error: "Key is required" });
+
+  if (SERVER_SETTINGS.has(key)) {
+    if (req.user.role !== 'admin') return res.status(403).json({ error: "Only admins can change server settings" });
+    if (key === 'metadataPrecedence' && !parseMetadataPrecedence(value)) {
+      return res.status(400).json({ error: `metadataPrecedence must list ${METADATA_SOURCES.join(', ')} in order of priority` });
+    }
+    db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(key, String(value));
+  } else {
+    if (key === 'watchedThreshold' && !parseWatchedThreshold(value)) {
+      return res.status(400).json({ error: "watchedThreshold must be a whole percentage between 50 and 100" });
+    }
+    // Empty means no preference (and for subtitles: off)
+    if ((key === 'audioLanguage' || key === 'subtitleLanguage') && !/^([a-z]{2,3})?$/.test(String(value))) {
+      return res.status(400).json({ error: `${key} must be a language code like 'en'` });
+    }
+    db.prepare(`
+      INSERT INTO user_settings (user_id, key, value) VALUES (?, ?, ?)
+      ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value
+    `).run(req.user.id, key, String(value));
+  }
   res.json({ success: true });
 });
 
-// --- HARDWARE TRANSCODING ROUTE (New) ---
-app.get('/api/transcode/:id', (req, res) => {
+// --- TRANSCODING: Detected encoders + current choice (for Settings) ---
+app.get('/api/transcode/capabilities', (req, res) => {
+  const row = db.prepare("SELECT value FROM settings WHERE key = 'transcodeEncoder'").get();
+  res.json({
+    status: encoderSupport.status,
+    encoders: Object.entries(TRANSCODE_PIPELINES).map(([id, p]) => ({
+      id,
+      label: p.label,
+      available: encoderSupport.available.includes(id)
+    })),
+    detected: encoderSupport.detected,
+    preferred: row ? row.value : 'auto',
+    active: getTranscodePipelineName()
+  });
+});
+
+// --- TRANSCODING ROUTE (Remux when possible, re-encode when needed) ---
+app.get('/api/transcode/:id', async (req, res) => {
   const video = db.prepare('SELECT path FROM videos WHERE id = ?').get(req.params.id);
   if (!video) return res.status(404).send('Not found');
 
-  let fullPath = video.path;
-  if (video.path.startsWith('/media')) {
-    const relPath = decodeURIComponent(video.path.replace(/^\/media\//, ''));
-    fullPath = path.join(mediaDir, relPath);
-  }
+  const fullPath = resolveVideoPath(video.path);
+  // ?audio=N picks the Nth audio track (0 is the first)
+  const audioIndex = parseInt(req.query.audio) || 0;
+  if (audioIndex < 0) return res.status(400).json({ error: "Invalid audio track" });
+
+  const plan = await getTranscodePlan(req.params.id, fullPath, audioIndex);
+  const pipelineName = plan.mode === 'transcode' ? getTranscodePipelineName() : null;
+  const pipeline = pipelineName ? TRANSCODE_PIPELINES[pipelineName] : null;
 
   // Basic headers for a video stream
   res.writeHead(200, {
     'Content-Type': 'video/mp4',
     'Connection': 'keep-alive',
+    'X-Transcode-Mode': plan.mode,
+    'X-Transcode-Encoder': pipelineName || 'copy'
   });
 
-  // THE MAGIC: FFmpeg with Intel QSV Hardware Acceleration
+  const audioOptions = plan.mode === 'remux'
+    ? ['-c:a copy']
+    // AUDIO FIX: Better audio quality and force stereo (safer for browsers)
+    : ['-c:a aac', '-b:a 192k', '-ac 2'];
+
   const command = ffmpeg(fullPath)
     // --- INPUT OPTIONS ---
-    .inputOptions([
-      '-hwaccel vaapi',
-      '-hwaccel_device /dev/dri/renderD128',
-      '-hwaccel_output_format vaapi',
-      '-noautorotate',
-
-      // LATENCY FIX: Reduce analysis time to speed up start (default is 5000000)
-      '-analyzeduration 10000000',
-      '-probesize 10000000'
-    ])
+    .inputOptions([...(pipeline ? pipeline.inputOptions : []), ...TRANSCODE_INPUT_OPTIONS])
     // --- OUTPUT OPTIONS ---
     .outputOptions([
-      // QUALITY FIX: Ensure high-quality scaling
-      '-vf scale_vaapi=format=nv12',
-
-      '-c:v h264_vaapi',
-
-      // QUALITY FIX: Increase Bitrate & Buffer
-      '-rc_mode VBR',
-      '-b:v 8M',        // Bump from 5M to 8M for cleaner image
-      '-maxrate 12M',   // Allow bursts up to 12M for complex scenes
-      '-bufsize 24M',   // Larger buffer helps smooth out quality drops
-
-      // AUDIO FIX: Better audio quality and force stereo (safer for browsers)
-      '-c:a aac',
-      '-b:a 192k',
-      '-ac 2',
+      // First video + one audio track only (subtitle and data streams break the MP4 muxer)
+      '-map 0:v:0',
+      `-map 0:a:${audioIndex}?`,
+      '-sn',
+      '-dn',
+      // QUALITY FIX: 8M with bursts up to 12M, larger buffer smooths out quality drops
+      ...(pipeline
+        ? getVideoEncodeOptions(pipelineName, { bitrate: '8M', maxrate: '12M', bufsize: '24M' })
+        : ['-c:v copy']),
+      ...audioOptions,
 
       // LATENCY FIX: 'default_base_moof' helps browsers play segments sooner
       '-movflags frag_keyframe+empty_moov+default_base_moof',
@@ -1367,8 +5019,10 @@ app.get('/api/transcode/:id', (req, res) => {
     .on('error', (err) => {
       // Ignore the error if it's just the client disconnecting
       if (err.message !== 'Output stream closed') {
-        console.error('Transcoding error:', err);
+        console.error(`Transcoding error (${plan.mode}, ${pipelineName || 'copy'}):`, err);
       }
+      // Don't leave the player waiting on a stream that will never come
+      if (!res.writableEnded) res.end();
     });
 
   // CRITICAL FIX: Kill FFmpeg if the user closes the tab or skips video
@@ -1379,19 +5033,257 @@ app.get('/api/transcode/:id', (req, res) => {
   command.pipe(res, { end: true });
 });
 
+// --- HLS: Master playlist (one entry per quality, all with the audio track from ?audio=N) ---
+app.get('/api/hls/:id/master.m3u8', async (req, res) => {
+  try {
+    const source = await getHlsSource(req.params.id);
+    if (!source) return res.status(404).send('Not found');
+
+    const audio = parseInt(req.query.audio) || 0;
+    if (audio < 0 || (audio > 0 && audio >= source.audioCount)) return res.status(400).json({ error: "Invalid audio track" });
+
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    for (const r of source.renditions) {
+      const bandwidth = (parseInt(r.maxrate) + parseInt(r.audioBitrate)) * 1000;
+      const average = (parseInt(r.bitrate) + parseInt(r.audioBitrate)) * 1000;
+      lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},AVERAGE-BANDWIDTH=${average},RESOLUTION=${r.width}x${r.height},CODECS="avc1.640028,mp4a.40.2",NAME="${r.name}"`);
+      lines.push(`${r.name}${audio > 0 ? `-a${audio}` : ''}/index.m3u8`);
+    }
+
+    res.type('application/vnd.apple.mpegurl').send(lines.join('\n') + '\n');
+  } catch (e) {
+    console.error('HLS master playlist failed:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// --- HLS: Media playlist. The whole segment grid is known up front, so it's a finished VOD list. ---
+app.get('/api/hls/:id/:variant/index.m3u8', async (req, res) => {
+  try {
+    const source = await getHlsSource(req.params.id);
+    const variant = source && parseHlsVariant(source, req.params.variant);
+    if (!variant) return res.status(404).send('Not found');
+
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      `#EXT-X-TARGETDURATION:${HLS_SEGMENT_SECONDS}`,
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD'
+    ];
+    for (let i = 0; i < source.segmentCount; i++) {
+      const length = Math.min(HLS_SEGMENT_SECONDS, source.duration - i * HLS_SEGMENT_SECONDS);
+      lines.push(`#EXTINF:${Math.max(length, 0.1).toFixed(6)},`, `${i}.ts`);
+    }
+    lines.push('#EXT-X-ENDLIST');
+
+    res.type('application/vnd.apple.mpegurl').send(lines.join('\n') + '\n');
+  } catch (e) {
+    console.error('HLS playlist failed:', e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// --- HLS: Segments (from cache, or encoded on demand) ---
+app.get('/api/hls/:id/:variant/:segment', async (req, res) => {
+  const match = req.params.segment.match(/^(\d+)\.ts$/);
+  if (!match) return res.status(404).send('Not found');
+
+  try {
+    const source = await getHlsSource(req.params.id);
+    const variant = source && parseHlsVariant(source, req.params.variant);
+    const index = parseInt(match[1]);
+    if (!variant || index >= source.segmentCount) return res.status(404).send('Not found');
+
+    const file = await getHlsSegment(req.params.id, source, variant, index);
+    res.type('video/mp2t').sendFile(file);
+  } catch (e) {
+    console.error(`HLS segment ${req.params.id}/${req.params.variant}/${req.params.segment} failed:`, e.message);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// --- LIBRARIES ---
+// Roots are only shown to admins
+const formatLibrary = (library, isAdmin) => ({
+  id: library.id,
+  name: library.name,
+  root: isAdmin ? library.root : undefined,
+  scanInterval: library.scan_interval,
+  hideHidden: Boolean(library.hide_hidden),
+  metadataPrecedence: parseMetadataPrecedence(library.metadata_precedence),
+  lastScannedAt: library.last_scanned_at,
+  videoCount: db.prepare('SELECT COUNT(*) AS c FROM videos WHERE library_id = ?').get(library.id).c,
+  isDefault: library.id === DEFAULT_LIBRARY_ID
+});
+
+// Settings shared by create and update. Returns { error } or the column values that were passed.
+// scanInterval is in hours (0 = manual scans only, null = server default).
+function parseLibrarySettings(body) {
+  const values = {};
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: "Name is required" };
+    values.name = body.name.trim();
+  }
+  if (body.scanInterval !== undefined) {
+    const hours = body.scanInterval;
+    if (hours !== null && !(Number.isInteger(hours) && hours >= 0 && hours <= 24 * 365)) {
+      return { error: "scanInterval must be a whole number of hours" };
+    }
+    values.scan_interval = hours;
+  }
+  if (body.hideHidden !== undefined) values.hide_hidden = body.hideHidden ? 1 : 0;
+  if (body.metadataPrecedence !== undefined) {
+    const value = Array.isArray(body.metadataPrecedence) ? body.metadataPrecedence.join(',') : body.metadataPrecedence;
+    if (value !== null && !parseMetadataPrecedence(value)) {
+      return { error: `metadataPrecedence must list ${METADATA_SOURCES.join(', ')}` };
+    }
+    values.metadata_precedence = value;
+  }
+  return { values };
+}
+
+app.get('/api/libraries', requireUser, (req, res) => {
+  const isAdmin = req.user.role === 'admin';
+  const ordered = [...libraries].sort((a, b) => a.created_at - b.created_at);
+  res.json({ libraries: ordered.map(library => formatLibrary(library, isAdmin)) });
+});
+
+// Adds a library ({ name, root, scanInterval?, hideHidden?, metadataPrecedence? }) and scans it
+app.post('/api/libraries', requireAdmin, (req, res) => {
+  const body = req.body || {};
+  const { error, values } = parseLibrarySettings({ ...body, name: body.name ?? '' });
+  if (error) return res.status(400).json({ error });
+
+  if (typeof body.root !== 'string' || !path.isAbsolute(body.root)) {
+    return res.status(400).json({ error: "root must be an absolute path" });
+  }
+  const root = path.resolve(body.root);
+  try {
+    if (!fs.statSync(root).isDirectory()) return res.status(400).json({ error: "root is not a directory" });
+  } catch (e) {
+    return res.status(400).json({ error: "root does not exist" });
+  }
+
+  // A file can only belong to one library
+  const overlapping = libraries.find(library =>
+    root === library.root || root.startsWith(library.root + path.sep) || library.root.startsWith(root + path.sep)
+  );
+  if (overlapping) return res.status(400).json({ error: `root overlaps the library "${overlapping.name}"` });
+
+  try {
+    const id = `lib-${Date.now()}`;
+    db.prepare(`
+      INSERT INTO libraries (id, name, root, scan_interval, hide_hidden, metadata_precedence, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(id, values.name, root, values.scan_interval ?? null, values.hide_hidden ?? 0, values.metadata_precedence ?? null, Date.now());
+    loadLibraries();
+
+    const library = getLibrary(id);
+    watchLibrary(library);
+    // Otherwise the schedule picks it up as soon as the running scan is done
+    if (!isScanning) scanMedia(false, [id]);
+
+    res.json({ success: true, library: formatLibrary(library, true) });
+  } catch (e) {
+    console.error("Failed to add library", e);
+    res.status(500).json({ error: "Failed to add library" });
+  }
+});
+
+// Name, schedule, hidden files and metadata precedence. Changes apply from the next scan.
+app.patch('/api/libraries/:id', requireAdmin, (req, res) => {
+  const library = getLibrary(req.params.id);
+  if (!library) return res.status(404).json({ error: "Library not found" });
+
+  const { error, values } = parseLibrarySettings(req.body || {});
+  if (error) return res.status(400).json({ error });
+  if (Object.keys(values).length === 0) return res.status(400).json({ error: "Nothing to update" });
+
+  try {
+    const columns = Object.keys(values);
+    db.prepare(`UPDATE libraries SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`)
+      .run(...columns.map(c => values[c]), library.id);
+    loadLibraries();
+
+    // The polling walk skips hidden files itself
+    if ('hide_hidden' in values && libraryWatchers.has(library.id)) {
+      unwatchLibrary(library.id);
+      watchLibrary(getLibrary(library.id));
+    }
+
+    res.json({ success: true, library: formatLibrary(getLibrary(library.id), true) });
+  } catch (e) {
+    console.error("Failed to update library", e);
+    res.status(500).json({ error: "Failed to update library" });
+  }
+});
+
+// Removes the library and its videos from the database. Nothing on disk is touched.
+app.delete('/api/libraries/:id', requireAdmin, (req, res) => {
+  const library = getLibrary(req.params.id);
+  if (!library) return res.status(404).json({ error: "Library not found" });
+  if (library.id === DEFAULT_LIBRARY_ID) return res.status(400).json({ error: "The default library can't be removed" });
+  if (isScanning) return res.status(409).json({ error: "Scan already in progress", job: scanJob });
+
+  try {
+    unwatchLibrary(library.id);
+    const ids = db.prepare('SELECT id FROM videos WHERE library_id = ?').all(library.id).map(r => r.id);
+    if (ids.length > 0) removeVideos(ids);
+    db.prepare('DELETE FROM libraries WHERE id = ?').run(library.id);
+    loadLibraries();
+    pruneSeries();
+
+    res.json({ success: true, removed: ids.length });
+  } catch (e) {
+    console.error("Failed to remove library", e);
+    res.status(500).json({ error: "Failed to remove library" });
+  }
+});
+
 // --- MANUAL SCAN ROUTE ---
-app.post('/api/scan', (req, res) => {
+// Scans every library, or just { library }
+app.post('/api/scan', requireAdmin, (req, res) => {
   if (isScanning) {
-    return res.status(409).json({ error: "Scan already in progress" });
+    return res.status(409).json({ error: "Scan already in progress", job: scanJob });
   }
 
+  const libraryId = req.body.library || null;
+  if (libraryId && !getLibrary(libraryId)) return res.status(404).json({ error: "Library not found" });
+
   // Check if frontend asked for a 'full' scan
   const isFullScan = req.body.type === 'full';
 
   // Run in background
-  scanMedia(isFullScan);
+  scanMedia(isFullScan, libraryId ? [libraryId] : null);
+
+  res.json({ success: true, message: isFullScan ? "Full scan started" : "Quick scan started", job: scanJob });
+});
+
+// --- SCAN STATUS (Polling) ---
+app.get('/api/scan/status', (req, res) => {
+  res.json({ isScanning, job: scanJob, trickplay: { queued: trickplayQueue.length, current: trickplayCurrent } });
+});
+
+// --- SCAN STATUS (Live, Server-Sent Events) ---
+app.get('/api/scan/events', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+
+  // Send the current state right away so the client doesn't wait for the next change
+  res.write(`data: ${JSON.stringify(scanJob)}\n\n`);
+  scanEventClients.add(res);
 
-  res.json({ success: true, message: isFullScan ? "Full scan started" : "Quick scan started" });
+  // Comment lines keep proxies from closing an idle connection
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    scanEventClients.delete(res);
+  });
 });
 
 // --- GRACEFUL SHUTDOWN ---
@@ -1404,21 +5296,35 @@ const cleanup = () => {
 process.on('SIGINT', cleanup);
 process.on('SIGTERM', cleanup);
 
-// Run scan on startup
+// Run scan on startup, then keep the library in sync incrementally
 scanMedia();
+startWatcher();
+detectEncoders();
 
-// --- NEW: SCHEDULED HOURLY SCAN ---
-const SCAN_INTERVAL_MS = 60 * 60 * 1000; // 1 Hour (in milliseconds)
+// --- SCHEDULED SAFETY SCAN ---
+// A watched library (natively or by polling) handles day-to-day changes, so the full walk only
+// runs daily. Without a watcher we keep the old hourly schedule. Decided per library each time,
+// since a native watcher can fall back to polling later. Libraries can set their own interval
+// (in hours, 0 turns it off), so we check every minute which ones are due.
+const SCAN_SCHEDULE_CHECK_MS = 60 * 1000;
+
+const getDefaultScanInterval = (library) => (libraryWatchers.has(library.id) ? 24 : 1) * 60 * 60 * 1000;
 
 setInterval(() => {
+  const now = Date.now();
+  const due = libraries.filter(library => {
+    if (library.scan_interval === 0) return false;
+    const interval = library.scan_interval === null ? getDefaultScanInterval(library) : library.scan_interval * 60 * 60 * 1000;
+    return now - (library.last_scanned_at || 0) >= interval;
+  });
+  if (due.length === 0) return;
+
   if (!isScanning) {
-    console.log("⏰ Starting scheduled hourly library scan...");
+    console.log(`⏰ Starting scheduled scan of ${due.map(library => library.name).join(', ')}...`);
     // We pass 'false' to do a "Quick Scan" (only adds new files, doesn't re-process existing valid ones)
-    scanMedia(false); 
-  } else {
-    console.log("⏰ Skipping scheduled scan (Scan already in progress)");
+    scanMedia(false, due.map(library => library.id));
   }
-}, SCAN_INTERVAL_MS);
+}, SCAN_SCHEDULE_CHECK_MS);
 
 const distPath = path.join(process.cwd(), 'dist');
 if (fs.existsSync(distPath)) {
@@ -11,7 +11,7 @@ export interface VideoFile {
   // --- SUBTITLE SUPPORT ---
   subtitles?: {
     src: string;
-    lang: string;
+    lang: string; // ISO 639-1 where known ('en'), 'und' for untagged embedded streams
     label: string;
   }[];
   // ------------------------
@@ -31,6 +31,84 @@ export interface VideoFile {
   description?: string; // Static description
   playbackPosition?: number;
   isFavorite?: boolean;
+  isWatched?: boolean; // Played past the user's threshold, or marked by hand
+  searchMatch?: SearchMatch; // Only present on search results
+  streamUrl?: string; // Signed /api/stream URL, works without the session cookie
+
+  // Only set for episodes of a series
+  seriesId?: string;
+  seasonNumber?: number | null;
+  episodeNumber?: number | null;
+
+  // From the original upload (yt-dlp info.json), not our own view count
+  sourceViewCount?: number | null;
+  sourceLikeCount?: number | null;
+
+  chapters?: Chapter[]; // Only on the single-video response
+  mediaInfo?: MediaInfo | null; // Only on the single-video response. Null until the scanner has probed the file.
+  trickplay?: Trickplay | null; // Seekbar preview sprites, once the background job has made them
+}
+
+// Frames every `interval` seconds, tiled columns x rows per sheet, in time order
+export interface Trickplay {
+  interval: number;
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  count: number;
+  sheets: string[];
+  vtt: string; // Same frames as a WebVTT thumbnails track
+}
+
+// Seconds. The server fills a missing end from the next chapter or the video length.
+export interface Chapter {
+  start: number;
+  end: number | null;
+  title: string | null;
+}
+
+// What ffprobe found in the file. Stream indexes count per type (audio track 0, 1...).
+export type PlaybackMode = 'direct' | 'remux' | 'audio' | 'transcode';
+
+export interface AudioStream {
+  index: number;
+  codec: string | null;
+  channels: number | null;
+  language: string | null; // Two-letter code where there is one ('en' for the file's 'eng')
+  title: string | null;
+  default: boolean;
+}
+
+export interface SubtitleStream {
+  index: number;
+  codec: string | null;
+  language: string | null;
+  title: string | null;
+  default: boolean;
+  forced: boolean;
+}
+
+// The profile's remembered languages (the audioLanguage and subtitleLanguage settings)
+export interface LanguagePreferences {
+  audio: string | null;
+  subtitles: string | null; // Null keeps subtitles off
+}
+
+export interface MediaInfo {
+  container: string | null; // 'mp4', 'mkv'...
+  videoCodec: string | null; // ffprobe codec name, e.g. 'h264'. Null for audio-only files.
+  videoProfile: string | null;
+  width: number | null;
+  height: number | null;
+  frameRate: number | null;
+  pixelFormat: string | null;
+  hdr: boolean;
+  bitrate: number | null; // Bits per second, whole file
+  fileSize: number | null; // Bytes
+  audioStreams: AudioStream[];
+  subtitleStreams: SubtitleStream[];
+  playback: PlaybackMode; // 'direct' plays as is, anything else needs the transcoder
 }
 
 export interface FolderStructure {
@@ -40,7 +118,25 @@ export interface FolderStructure {
 export interface Playlist {
   id: string;
   name: string;
-  videoIds: string[];
+  videoIds: string[]; // Always empty for smart playlists
+  rules?: SmartPlaylistRules | null; // Set for smart playlists, which the server fills on every load
+}
+
+// --- SMART PLAYLISTS (mirrors the server's rule format) ---
+export type SmartRuleField = 'title' | 'channel' | 'genre' | 'folder' | 'duration' | 'views' | 'releaseDate' | 'added' | 'watched' | 'favorite';
+export type SmartRuleOp = 'is' | 'isNot' | 'contains' | 'lt' | 'gt' | 'inLast' | 'notInLast';
+
+export interface SmartRule {
+  field: SmartRuleField;
+  op: SmartRuleOp;
+  value: string | number | boolean; // Minutes for duration, days for dates
+}
+
+export interface SmartPlaylistRules {
+  match: 'all' | 'any';
+  conditions: SmartRule[];
+  sort: SortOption;
+  limit: number | null;
 }
 
 export enum ViewState {
@@ -48,7 +144,9 @@ export enum ViewState {
   WATCH = 'WATCH',
   FAVORITES = 'FAVORITES',
   HISTORY = 'HISTORY',
-  PLAYLIST = 'PLAYLIST'
+  PLAYLIST = 'PLAYLIST',
+  SERIES = 'SERIES',
+  CHANNEL = 'CHANNEL'
 }
 
 export interface AIMetadata {
@@ -72,4 +170,126 @@ export enum SortOption {
   VIEWS_LEAST = 'Least Viewed',
   DURATION_LONGEST = 'Duration (Longest)',
   DURATION_SHORTEST = 'Duration (Shortest)',
-}
\ No newline at end of file
+  SIZE_LARGEST = 'File Size (Largest)',
+  SIZE_SMALLEST = 'File Size (Smallest)',
+  LAST_WATCHED = 'Last Watched',
+  RECENTLY_FAVORITED = 'Recently Favorited',
+  RANDOM = 'Random', // Shuffled with a seed, so the order holds while paging
+  RELEVANCE = 'Relevance', // Only offered while searching
+}
+
+// --- SCAN JOBS (mirrors the server's scan job object) ---
+export type ScanPhase = 'insert' | 'deep' | 'janitor';
+
+export interface ScanJob {
+  id: string;
+  type: 'quick' | 'full' | 'watch';
+  status: 'running' | 'completed' | 'failed';
+  phase: ScanPhase | null;
+  processed: number;
+  total: number;
+  currentFile: string | null;
+  errors: { file: string; message: string }[];
+  errorCount: number;
+  summary: { added: number; updated: number; removed: number; moved: number };
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+// --- TRANSCODING (GET /api/transcode/capabilities) ---
+export type TranscodeEncoder = 'vaapi' | 'qsv' | 'software';
+
+export interface TranscodeCapabilities {
+  status: 'pending' | 'done';
+  encoders: { id: TranscodeEncoder; label: string; available: boolean }[];
+  detected: TranscodeEncoder | null;
+  preferred: TranscodeEncoder | 'auto';
+  active: TranscodeEncoder;
+}
+
+// --- SEARCH (mirrors getSearchMatches on the server) ---
+export type SearchField = 'name' | 'channel' | 'description' | 'tags' | 'subtitles';
+
+export interface SearchMatch {
+  fields: SearchField[];
+  highlights: Partial<Record<Exclude<SearchField, 'subtitles'>, string>>;
+  subtitle?: { start: number; lang: string; text: string };
+}
+
+// --- USERS & AUTH (GET /api/auth/status, /api/users) ---
+export type UserRole = 'admin' | 'user';
+
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface AuthStatus {
+  user: User | null;
+  setupRequired: boolean; // No user has a password yet: the first admin picks one
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+// --- SERIES (GET /api/series, /api/series/:id) ---
+export interface Season {
+  id: string;
+  number: number | null; // 0 is Specials, null collects episodes without a season
+  title: string;
+  poster: string | null;
+  episodes: VideoFile[];
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  plot: string | null;
+  genre: string | null;
+  premiered: string | null;
+  poster: string | null;
+  seasonCount: number;
+  episodeCount: number;
+  seasons?: Season[]; // Only on the detail route
+}
+
+// --- CHANNELS (GET /api/channels, /api/channels/:name) ---
+export interface Channel {
+  name: string;
+  avatar: string | null;
+  banner?: string | null; // Only on the detail route
+  videoCount: number;
+  totalDuration: number; // Seconds
+  latestUpload: string | null; // Newest release date
+}
+
+// --- LIBRARIES (GET /api/libraries) ---
+export type MetadataSource = 'nfo' | 'infojson' | 'embedded';
+
+export interface Library {
+  id: string;
+  name: string;
+  root?: string; // Only sent to admins
+  scanInterval: number | null; // Hours, 0 = manual scans only, null = server default
+  hideHidden: boolean; // Skip dotfiles and dot-folders while scanning
+  metadataPrecedence: MetadataSource[] | null; // Null follows the server setting
+  lastScannedAt: number | null;
+  videoCount: number;
+  isDefault: boolean; // MEDIA_DIR, can't be removed
+}
+
+// --- FACETS (GET /api/facets) ---
+export type FacetKey = 'channel' | 'tag' | 'year' | 'duration' | 'resolution' | 'codec' | 'subtitles' | 'watched';
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export type Facets = Record<FacetKey, FacetValue[]>;
+export type FacetFilters = Partial<Record<FacetKey, string[]>>; // Same keys as the query params